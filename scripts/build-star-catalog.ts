@@ -0,0 +1,37 @@
+/**
+ * Convert a star catalog CSV into the packed binary star catalog, one file
+ * per magnitude tier
+ *
+ *   npm run build:catalog -- [input.csv] [output prefix] [maxMagnitude]
+ *
+ * Defaults to public/data/hyg.csv -> public/data/hyg-0.bin ... hyg-3.bin with
+ * every star kept; the app reads the tier files in preference to hyg.csv
+ * when they are present. Any catalog the app's adapters recognise (HYG, Yale
+ * BSC, Gaia DR3 or a custom CSV) converts the same way.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { MAGNITUDE_TIERS, encodeStarCatalog, parseCatalogCsv, selectMagnitudeTier } from '../src/utils/starCatalog.ts';
+
+const [input = 'public/data/hyg.csv', prefix = 'public/data/hyg', limit] = process.argv.slice(2);
+const maxMagnitude = limit === undefined ? Infinity : parseFloat(limit);
+
+if (isNaN(maxMagnitude)) {
+  console.error(`Invalid magnitude limit: ${limit}`);
+  process.exit(1);
+}
+
+const text = readFileSync(input, 'utf8');
+const columns = parseCatalogCsv(text, null, maxMagnitude);
+console.log(`Read ${columns.count} stars (${columns.band} magnitudes) from ${(text.length / 1024).toFixed(0)} KB of CSV`);
+
+MAGNITUDE_TIERS.forEach((faintLimit, tier) => {
+  const range = faintLimit === Infinity ? `fainter than ${MAGNITUDE_TIERS[tier - 1]}` : `to magnitude ${faintLimit}`;
+  const tierColumns = selectMagnitudeTier(columns, tier);
+  const buffer = encodeStarCatalog(tierColumns);
+  const output = `${prefix}-${tier}.bin`;
+  writeFileSync(output, new Uint8Array(buffer));
+  console.log(
+    `Wrote ${tierColumns.count} stars ${range} to ${output}: ${(buffer.byteLength / 1024).toFixed(0)} KB`
+  );
+});
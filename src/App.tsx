@@ -1,32 +1,72 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { SkyCanvas } from './components/SkyCanvas';
 import { LocationPicker } from './components/LocationPicker';
 import { TimePicker } from './components/TimePicker';
 import { PlaybackControls } from './components/PlaybackControls';
 import { Toolbar, type ToolbarOptions } from './components/Toolbar';
 import { SearchModal } from './components/SearchModal';
-import { loadStarData, type StarData } from './utils/starLoader';
-import type { GeoLocation } from './utils/astronomy';
+import { EclipseModal } from './components/EclipseModal';
+import { EventTimeline } from './components/EventTimeline';
+import { ObservingPlanner } from './components/ObservingPlanner';
+import { ColorLegend } from './components/ColorLegend';
+import { appendStarData, countStarsToMagnitude, loadStarTiersInWorker, type StarData, type StarLoadProgress } from './utils/starLoader';
+import { NAKED_EYE_LIMITING_MAGNITUDE } from './hooks/useSkyRenderer';
+import { DEFAULT_STAR_SATURATION } from './utils/starColors';
+import { isDeepSkyVisible, loadDeepSkyCatalog, type DeepSkyObject } from './utils/deepSky';
+import { getMinorBodies, getSolarSystemBodies } from './utils/solarSystem';
+import { parseMinorBodyFile, type MinorBodyOrbit } from './utils/minorBodies';
+import { getSatellites, parseTLEFile, type SatelliteRecord } from './utils/satellites';
+import type { Eclipse } from './utils/eclipses';
+import type { SkyEvent } from './utils/skyEvents';
+import { STANDARD_ATMOSPHERE, getStandardPressure, type AtmosphereConditions, type GeoLocation } from './utils/astronomy';
+import { clampTime } from './utils/time';
 import './App.css';
 
 const STORAGE_KEY = 'stellar-sky-settings';
 
 interface StoredSettings {
   location: GeoLocation;
+  atmosphere: AtmosphereConditions;
   toolbarOptions: ToolbarOptions;
+  limitingMagnitude: number;
+  starSaturation: number;
+  deepSkyMagnitude: number;
 }
 
-const defaultLocation: GeoLocation = { lat: 44.0582, lon: -121.3153 }; // Bend, Oregon
+// Choices for the faintest star drawn; 99 draws the whole catalog
+const LIMITING_MAGNITUDES = [4, 5, 6, NAKED_EYE_LIMITING_MAGNITUDE, 7, 8, 9, 10, 99];
+
+// Choices for the faintest deep-sky object drawn; 99 draws them all
+const DEEP_SKY_MAGNITUDES = [6, 8, 10, 12, 99];
+const DEFAULT_DEEP_SKY_MAGNITUDE = 10;
+
+// During playback comets and asteroids move in steps of this much real time
+// rather than every tick, as propagating thousands of orbits takes a while
+const MINOR_BODY_PLAYBACK_STEP_MS = 500;
+
+const defaultLocation: GeoLocation = { lat: 44.0582, lon: -121.3153, elevation: 1105 }; // Bend, Oregon
+
+const defaultAtmosphere: AtmosphereConditions = {
+  ...STANDARD_ATMOSPHERE,
+  pressure: Math.round(getStandardPressure(defaultLocation.elevation)),
+};
 
 const defaultToolbarOptions: ToolbarOptions = {
   showAltAzGrid: false,
   showEquatorialGrid: false,
+  showEcliptic: false,
+  showEclipticGrid: false,
+  showGalacticEquator: false,
+  showGalacticGrid: false,
   showConstellations: false,
+  showDeepSky: false,
   showHorizon: true,
   showCardinals: true,
   lightMode: false,
   nightMode: false,
   pixelStars: false,
+  refraction: true,
+  showColorLegend: false,
 };
 
 function loadSettings(): StoredSettings {
@@ -35,14 +75,26 @@ function loadSettings(): StoredSettings {
     if (stored) {
       const parsed = JSON.parse(stored);
       return {
-        location: { ...defaultLocation, ...parsed.location },
+        // Locations saved before elevation was stored are taken as sea level
+        location: { ...defaultLocation, elevation: 0, ...parsed.location },
+        atmosphere: { ...STANDARD_ATMOSPHERE, ...parsed.atmosphere },
         toolbarOptions: { ...defaultToolbarOptions, ...parsed.toolbarOptions },
+        limitingMagnitude: typeof parsed.limitingMagnitude === 'number' ? parsed.limitingMagnitude : NAKED_EYE_LIMITING_MAGNITUDE,
+        starSaturation: typeof parsed.starSaturation === 'number' ? parsed.starSaturation : DEFAULT_STAR_SATURATION,
+        deepSkyMagnitude: typeof parsed.deepSkyMagnitude === 'number' ? parsed.deepSkyMagnitude : DEFAULT_DEEP_SKY_MAGNITUDE,
       };
     }
   } catch (e) {
     console.warn('Failed to load settings:', e);
   }
-  return { location: defaultLocation, toolbarOptions: defaultToolbarOptions };
+  return {
+    location: defaultLocation,
+    atmosphere: defaultAtmosphere,
+    toolbarOptions: defaultToolbarOptions,
+    limitingMagnitude: NAKED_EYE_LIMITING_MAGNITUDE,
+    starSaturation: DEFAULT_STAR_SATURATION,
+    deepSkyMagnitude: DEFAULT_DEEP_SKY_MAGNITUDE,
+  };
 }
 
 function saveSettings(settings: StoredSettings) {
@@ -53,14 +105,24 @@ function saveSettings(settings: StoredSettings) {
   }
 }
 
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1048576).toFixed(1)} MB`;
+}
+
 function App() {
   const [starData, setStarData] = useState<StarData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [loadProgress, setLoadProgress] = useState<StarLoadProgress | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [catalogComplete, setCatalogComplete] = useState(false);
+  const [catalogFile, setCatalogFile] = useState<File | null>(null);  // A local catalog in place of HYG
+  const loadControllerRef = useRef<AbortController | null>(null);
   
   // Load persisted settings
   const [initialSettings] = useState(() => loadSettings());
   const [location, setLocation] = useState<GeoLocation>(initialSettings.location);
+  const [atmosphere, setAtmosphere] = useState<AtmosphereConditions>(initialSettings.atmosphere);
   const [date, setDate] = useState(new Date());
   const [isRealtime, setIsRealtime] = useState(true);
   const [playbackSpeed, setPlaybackSpeed] = useState(0); // 0 = paused/realtime, positive = forward, negative = reverse
@@ -69,40 +131,184 @@ function App() {
   // Grid/overlay options
   const [toolbarOptions, setToolbarOptions] = useState<ToolbarOptions>(initialSettings.toolbarOptions);
   
+  // Faintest stars drawn under a dark sky
+  const [limitingMagnitude, setLimitingMagnitude] = useState(initialSettings.limitingMagnitude);
+  
+  // How strongly star colours are drawn; 1 is the blackbody colour
+  const [starSaturation, setStarSaturation] = useState(initialSettings.starSaturation);
+  
+  // Galaxies, clusters and nebulae, and the faintest drawn under a dark sky
+  const [deepSkyObjects, setDeepSkyObjects] = useState<DeepSkyObject[]>([]);
+  const [deepSkyMagnitude, setDeepSkyMagnitude] = useState(initialSettings.deepSkyMagnitude);
+  
   // Search
   const [searchOpen, setSearchOpen] = useState(false);
   const [navigateTarget, setNavigateTarget] = useState<{ ra: number; dec: number } | null>(null);
   
+  // Eclipse search
+  const [eclipsesOpen, setEclipsesOpen] = useState(false);
+  
+  // Side panel: the sky events timeline or the observing planner, one at a time
+  const [sidePanel, setSidePanel] = useState<'events' | 'planner' | null>(null);
+  
+  // Sun, Moon and planets for the current sky
+  const bodies = useMemo(() => getSolarSystemBodies(date, location), [date, location]);
+  const sunAltitude = bodies.find(body => body.type === 'sun')?.alt;
+  
+  // Comets and asteroids loaded from an MPC orbital element file
+  const [minorOrbits, setMinorOrbits] = useState<MinorBodyOrbit[]>([]);
+  const minorStep = Math.abs(playbackSpeed) * MINOR_BODY_PLAYBACK_STEP_MS;
+  const minorTime = minorStep > 0 ? clampTime(Math.round(date.getTime() / minorStep) * minorStep) : date.getTime();
+  const minorBodies = useMemo(
+    () => getMinorBodies(minorOrbits, new Date(minorTime), location),
+    [minorOrbits, minorTime, location]
+  );
+  const searchBodies = useMemo(() => [...bodies, ...minorBodies], [bodies, minorBodies]);
+  
+  const handleLoadMinorBodies = useCallback((file: File) => {
+    file.text()
+      .then(text => {
+        const orbits = parseMinorBodyFile(text);
+        if (orbits.length === 0) {
+          console.warn('No orbital elements found in', file.name);
+          return;
+        }
+        console.log('Minor bodies loaded successfully:', orbits.length);
+        setMinorOrbits(orbits);
+      })
+      .catch(err => {
+        console.error('Failed to load orbital elements:', err);
+      });
+  }, []);
+  
+  // Artificial satellites loaded from a TLE file; trails only while the clock runs
+  const [satelliteRecords, setSatelliteRecords] = useState<SatelliteRecord[]>([]);
+  const clockRunning = playbackSpeed !== 0 || isRealtime;
+  const satellites = useMemo(
+    () => getSatellites(satelliteRecords, date, location, clockRunning),
+    [satelliteRecords, date, location, clockRunning]
+  );
+  
+  const handleLoadSatellites = useCallback((file: File) => {
+    file.text()
+      .then(text => {
+        const records = parseTLEFile(text);
+        if (records.length === 0) {
+          console.warn('No two-line element sets found in', file.name);
+          return;
+        }
+        console.log('Satellites loaded successfully:', records.length);
+        setSatelliteRecords(records);
+      })
+      .catch(err => {
+        console.error('Failed to load satellite elements:', err);
+      });
+  }, []);
+  
   const handleSearchSelect = useCallback((ra: number, dec: number) => {
     setNavigateTarget({ ra, dec });
   }, []);
   
+  // Jump to the moment of maximum and look at the eclipsed body
+  const handleEclipseSelect = useCallback((eclipse: Eclipse) => {
+    setDate(eclipse.kind === 'solar' && eclipse.local ? eclipse.local.maximum : eclipse.maximum);
+    setIsRealtime(false);
+    setPlaybackSpeed(0);
+    setNavigateTarget(eclipse.position);
+  }, []);
+  
+  const handleCloseEclipses = useCallback(() => {
+    setEclipsesOpen(false);
+  }, []);
+  
+  // The timeline stays open so the next event is a click away
+  const handleEventSelect = useCallback((event: SkyEvent) => {
+    setDate(event.date);
+    setIsRealtime(false);
+    setPlaybackSpeed(0);
+    setNavigateTarget(event.position);
+  }, []);
+  
   const handleNavigateComplete = useCallback(() => {
     setNavigateTarget(null);
   }, []);
   
   // Persist settings when they change
   useEffect(() => {
-    saveSettings({ location, toolbarOptions });
-  }, [location, toolbarOptions]);
+    saveSettings({ location, atmosphere, toolbarOptions, limitingMagnitude, starSaturation, deepSkyMagnitude });
+  }, [location, atmosphere, toolbarOptions, limitingMagnitude, starSaturation, deepSkyMagnitude]);
+  
+  // The deep-sky catalog is small and loads alongside the stars
+  useEffect(() => {
+    loadDeepSkyCatalog(`${import.meta.env.BASE_URL}data/deepsky.json`)
+      .then(objects => {
+        console.log('Deep-sky objects loaded successfully:', objects.length);
+        setDeepSkyObjects(objects);
+      })
+      .catch(err => console.error('Failed to load deep-sky objects:', err));
+  }, []);
 
-  // Load star data on mount
+  // Load star data on mount, and again on retry or when another catalog is
+  // chosen. The sky appears with the brightest tier; fainter tiers are
+  // appended as they arrive.
   useEffect(() => {
     // Use import.meta.env.BASE_URL for correct path in production
     const dataUrl = `${import.meta.env.BASE_URL}data/hyg.csv`;
-    console.log('Loading stars from:', dataUrl);
+    console.log('Loading stars from:', catalogFile?.name ?? dataUrl);
     
-    loadStarData(dataUrl, 6.0)
-      .then(data => {
-        console.log('Stars loaded successfully:', data.count);
-        setStarData(data);
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+    let received = false;
+    
+    loadStarTiersInWorker(
+      catalogFile ?? dataUrl,
+      (tier, index) => {
+        console.log(`Star tier ${index} loaded:`, tier.count);
+        received = true;
+        setStarData(current => (current ? appendStarData(current, tier) : tier));
         setLoading(false);
-      })
+      },
+      setLoadProgress,
+      controller.signal
+    )
+      .then(() => setCatalogComplete(true))
       .catch(err => {
+        if (err.name === 'AbortError') return;
+        if (received) {
+          // The sky is already up; go on without the fainter stars
+          console.warn('Failed to load fainter stars:', err);
+          setCatalogComplete(true);
+          return;
+        }
         console.error('Failed to load star data:', err);
-        setError(`Failed to load star database: ${err.message}`);
+        setError(`Failed to load ${catalogFile ? catalogFile.name : 'star database'}: ${err.message}`);
         setLoading(false);
       });
+    
+    return () => controller.abort();
+  }, [loadAttempt, catalogFile]);
+  
+  const handleCancelLoad = useCallback(() => {
+    loadControllerRef.current?.abort();
+    setError('Loading the star database was cancelled');
+    setLoading(false);
+  }, []);
+  
+  const handleRetryLoad = useCallback(() => {
+    setError(null);
+    setLoadProgress(null);
+    setLoading(true);
+    setLoadAttempt(attempt => attempt + 1);
+  }, []);
+  
+  // Swap in a local catalog file, or go back to HYG with null
+  const handleLoadStarCatalog = useCallback((file: File | null) => {
+    setCatalogFile(file);
+    setStarData(null);
+    setCatalogComplete(false);
+    setError(null);
+    setLoadProgress(null);
+    setLoading(true);
   }, []);
 
   // Update time based on playback speed or realtime mode
@@ -126,8 +332,9 @@ function App() {
         const elapsed = (now - lastUpdateRef.current) / 1000; // seconds
         lastUpdateRef.current = now;
         
+        // Held at the ends of the representable range
         setDate(prev => {
-          const newTime = prev.getTime() + elapsed * playbackSpeed * 1000;
+          const newTime = clampTime(prev.getTime() + elapsed * playbackSpeed * 1000);
           return new Date(newTime);
         });
       }, 50); // Update at 20fps for smooth animation
@@ -142,7 +349,16 @@ function App() {
         <div className="loading-content">
           <div className="loading-spinner" />
           <div className="loading-text">Loading stellar database...</div>
-          <div className="loading-subtext">119,627 stars</div>
+          <div className="loading-subtext">
+            {loadProgress
+              ? `${formatMegabytes(loadProgress.bytesRead)}${
+                  loadProgress.totalBytes && loadProgress.totalBytes >= loadProgress.bytesRead
+                    ? ` of ${formatMegabytes(loadProgress.totalBytes)}`
+                    : ''
+                } · ${loadProgress.starsParsed.toLocaleString()} stars`
+              : 'Connecting...'}
+          </div>
+          <button className="loading-button" onClick={handleCancelLoad}>Cancel</button>
         </div>
       </div>
     );
@@ -154,6 +370,10 @@ function App() {
         <div className="error-content">
           <div className="error-icon">⚠️</div>
           <div className="error-text">{error}</div>
+          <button className="loading-button" onClick={handleRetryLoad}>Retry</button>
+          {catalogFile && (
+            <button className="loading-button" onClick={() => handleLoadStarCatalog(null)}>Use HYG Catalog</button>
+          )}
         </div>
       </div>
     );
@@ -163,9 +383,17 @@ function App() {
     <div className={`app ${toolbarOptions.lightMode ? 'light-mode' : 'dark-mode'} ${toolbarOptions.nightMode ? 'night-mode' : ''}`}>
       <SkyCanvas 
         starData={starData}
+        bodies={bodies}
+        minorBodies={minorBodies}
+        satellites={satellites}
+        deepSkyObjects={deepSkyObjects}
         location={location}
         date={date}
+        atmosphere={atmosphere}
         gridOptions={toolbarOptions}
+        limitingMagnitude={limitingMagnitude}
+        starSaturation={starSaturation}
+        deepSkyMagnitude={deepSkyMagnitude}
         navigateTarget={navigateTarget}
         onNavigateComplete={handleNavigateComplete}
       />
@@ -174,6 +402,12 @@ function App() {
         options={toolbarOptions}
         onOptionsChange={setToolbarOptions}
         onSearch={() => setSearchOpen(true)}
+        onEclipses={() => setEclipsesOpen(true)}
+        onEvents={() => setSidePanel(panel => panel === 'events' ? null : 'events')}
+        onPlanner={() => setSidePanel(panel => panel === 'planner' ? null : 'planner')}
+        onLoadMinorBodies={handleLoadMinorBodies}
+        onLoadSatellites={handleLoadSatellites}
+        onLoadStarCatalog={handleLoadStarCatalog}
       />
       
       <SearchModal
@@ -181,12 +415,51 @@ function App() {
         onClose={() => setSearchOpen(false)}
         onSelect={handleSearchSelect}
         starData={starData}
+        bodies={searchBodies}
+        deepSkyObjects={deepSkyObjects}
+        date={date}
       />
       
+      {sidePanel === 'events' && (
+        <EventTimeline
+          onClose={() => setSidePanel(null)}
+          onSelect={handleEventSelect}
+          starData={starData}
+          location={location}
+          date={date}
+        />
+      )}
+      
+      {sidePanel === 'planner' && (
+        <ObservingPlanner
+          onClose={() => setSidePanel(null)}
+          onSelect={handleSearchSelect}
+          starData={starData}
+          deepSkyObjects={deepSkyObjects}
+          location={location}
+          date={date}
+        />
+      )}
+      
+      {toolbarOptions.showColorLegend && (
+        <ColorLegend saturation={starSaturation} onSaturationChange={setStarSaturation} />
+      )}
+      
+      {eclipsesOpen && (
+        <EclipseModal
+          onClose={handleCloseEclipses}
+          onSelect={handleEclipseSelect}
+          location={location}
+          date={date}
+        />
+      )}
+      
       <div className="controls">
         <LocationPicker 
           location={location}
           onLocationChange={setLocation}
+          atmosphere={atmosphere}
+          onAtmosphereChange={setAtmosphere}
         />
         <TimePicker
           date={date}
@@ -196,6 +469,7 @@ function App() {
             setIsRealtime(rt);
             if (rt) setPlaybackSpeed(0);
           }}
+          sunAltitude={sunAltitude}
         />
         <PlaybackControls
           speed={playbackSpeed}
@@ -208,7 +482,41 @@ function App() {
       
       <div className="star-info">
         {starData && (
-          <span>{starData.count.toLocaleString()} stars visible</span>
+          <span>{countStarsToMagnitude(starData, limitingMagnitude).toLocaleString()} stars to mag </span>
+        )}
+        <select
+          className="star-info-limit"
+          value={limitingMagnitude}
+          onChange={e => setLimitingMagnitude(Number(e.target.value))}
+          title="Limiting Magnitude"
+        >
+          {LIMITING_MAGNITUDES.map(mag => (
+            <option key={mag} value={mag}>{mag === 99 ? 'All' : mag}</option>
+          ))}
+        </select>
+        {!catalogComplete && <span className="star-info-loading"> · loading fainter stars</span>}
+        {toolbarOptions.showDeepSky && (
+          <span>
+            {' · '}{deepSkyObjects.filter(object => isDeepSkyVisible(object, deepSkyMagnitude)).length} deep-sky to mag{' '}
+            <select
+              className="star-info-limit"
+              value={deepSkyMagnitude}
+              onChange={e => setDeepSkyMagnitude(Number(e.target.value))}
+              title="Deep-Sky Limiting Magnitude"
+            >
+              {DEEP_SKY_MAGNITUDES.map(mag => (
+                <option key={mag} value={mag}>{mag === 99 ? 'All' : mag}</option>
+              ))}
+            </select>
+          </span>
+        )}
+        {catalogFile && (
+          <span>
+            {' · '}{catalogFile.name}
+            <button className="star-info-reset" onClick={() => handleLoadStarCatalog(null)} title="Back to HYG Catalog">
+              ✕
+            </button>
+          </span>
         )}
       </div>
     </div>
@@ -0,0 +1,77 @@
+import {
+  MAX_STAR_SATURATION,
+  MIN_STAR_SATURATION,
+  saturateColor,
+  temperatureToRGB,
+} from '../utils/starColors';
+import './ColorLegend.css';
+
+interface ColorLegendProps {
+  saturation: number;
+  onSaturationChange: (saturation: number) => void;
+}
+
+// Temperatures spanned, about those of B-V -0.4 to 2.0, on a log scale
+const MIN_TEMPERATURE = 3000;
+const MAX_TEMPERATURE = 22000;
+const GRADIENT_STOPS = 24;
+
+const TICKS = [3000, 4000, 6000, 10000, 20000];
+
+// Typical main-sequence temperature of each spectral class
+const CLASSES: [string, number][] = [
+  ['M', 3300],
+  ['K', 4500],
+  ['G', 5700],
+  ['F', 6800],
+  ['A', 8800],
+  ['B', 16000],
+];
+
+// Position along the bar, 0-100%
+function toPercent(temperature: number): number {
+  return Math.log(temperature / MIN_TEMPERATURE) / Math.log(MAX_TEMPERATURE / MIN_TEMPERATURE) * 100;
+}
+
+export function ColorLegend({ saturation, onSaturationChange }: ColorLegendProps) {
+  const stops = Array.from({ length: GRADIENT_STOPS + 1 }, (_, i) => {
+    const temperature = MIN_TEMPERATURE * Math.pow(MAX_TEMPERATURE / MIN_TEMPERATURE, i / GRADIENT_STOPS);
+    const [r, g, b] = saturateColor(temperatureToRGB(temperature), saturation).map(c => Math.round(c * 255));
+    return `rgb(${r}, ${g}, ${b}) ${(i / GRADIENT_STOPS * 100).toFixed(1)}%`;
+  });
+
+  return (
+    <div className="color-legend">
+      <div className="color-legend-title">Star Colour · Temperature</div>
+      
+      <div className="color-legend-scale">
+        <div className="color-legend-classes">
+          {CLASSES.map(([name, temperature]) => (
+            <span key={name} style={{ left: `${toPercent(temperature)}%` }}>{name}</span>
+          ))}
+        </div>
+        <div className="color-legend-bar" style={{ background: `linear-gradient(to right, ${stops.join(', ')})` }} />
+        <div className="color-legend-ticks">
+          {TICKS.map(temperature => (
+            <span key={temperature} style={{ left: `${toPercent(temperature)}%` }}>
+              {temperature.toLocaleString()} K
+            </span>
+          ))}
+        </div>
+      </div>
+      
+      <label className="color-legend-saturation">
+        <span>Saturation</span>
+        <input
+          type="range"
+          min={MIN_STAR_SATURATION}
+          max={MAX_STAR_SATURATION}
+          step={0.1}
+          value={saturation}
+          onChange={e => onSaturationChange(Number(e.target.value))}
+        />
+        <span className="color-legend-value">×{saturation.toFixed(1)}</span>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { GeoLocation } from '../utils/astronomy';
+import { findEclipses, type Eclipse, type EclipseContact } from '../utils/eclipses';
+import { formatCalendarDate, getLocalCalendarDate, localCalendarDateToDate } from '../utils/time';
+import './EclipseModal.css';
+
+interface EclipseModalProps {
+  onClose: () => void;
+  onSelect: (eclipse: Eclipse) => void;
+  location: GeoLocation;
+  date: Date;
+}
+
+// How many years to search, starting from the chosen year
+const SPANS = [1, 2, 5, 10];
+
+const TYPE_NAMES: Record<Eclipse['type'], string> = {
+  penumbral: 'Penumbral',
+  partial: 'Partial',
+  total: 'Total',
+  annular: 'Annular',
+  hybrid: 'Hybrid',
+};
+
+function formatDate(d: Date): string {
+  return formatCalendarDate(getLocalCalendarDate(d));
+}
+
+function formatTime(d: Date): string {
+  return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+// Contacts while the eclipsed body is below the horizon are marked
+function formatContacts(contacts: EclipseContact[]): string {
+  return contacts
+    .map(c => `${c.label} ${formatTime(c.date)}${c.altitude < 0 ? '↓' : ''}`)
+    .join(' · ');
+}
+
+function describeEclipse(eclipse: Eclipse): { title: string; subtitle: string; local: string; contacts: string } {
+  const title = `${TYPE_NAMES[eclipse.type]} ${eclipse.kind === 'lunar' ? 'Lunar' : 'Solar'} Eclipse`;
+  const when = `${formatDate(eclipse.maximum)} ${formatTime(eclipse.maximum)}`;
+
+  if (eclipse.kind === 'lunar') {
+    const magnitude = eclipse.type === 'penumbral' ? eclipse.penumbralMagnitude : eclipse.magnitude;
+    return {
+      title,
+      subtitle: `${when} · mag ${magnitude.toFixed(3)}`,
+      local: eclipse.altitude > 0
+        ? `Moon at ${eclipse.altitude.toFixed(0)}° at maximum`
+        : 'Moon below the horizon at maximum',
+      contacts: formatContacts(eclipse.contacts),
+    };
+  }
+
+  const { local } = eclipse;
+  const subtitle = `${when} · mag ${eclipse.magnitude.toFixed(3)} · γ ${eclipse.gamma.toFixed(3)}`;
+  if (!local) return { title, subtitle, local: 'Not seen from here', contacts: '' };
+
+  const at = `${TYPE_NAMES[local.type].toLowerCase()}, mag ${local.magnitude.toFixed(3)} at ${formatTime(local.maximum)}`;
+  return {
+    title,
+    subtitle,
+    local: local.altitude > 0
+      ? `Here: ${at}, Sun at ${local.altitude.toFixed(0)}°`
+      : `Here: ${at}, Sun below the horizon`,
+    contacts: formatContacts(local.contacts),
+  };
+}
+
+export function EclipseModal({ onClose, onSelect, location, date }: EclipseModalProps) {
+  const [startYear, setStartYear] = useState(() => getLocalCalendarDate(date).year);
+  const [span, setSpan] = useState(SPANS[1]);
+
+  const eclipses = useMemo(() => {
+    const start = localCalendarDateToDate({ year: startYear, month: 1, day: 1, hour: 0, minute: 0, second: 0 });
+    const end = localCalendarDateToDate({ year: startYear + span, month: 1, day: 1, hour: 0, minute: 0, second: 0 });
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) return [];
+    return findEclipses(start, end, location);
+  }, [startYear, span, location]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const selectEclipse = (eclipse: Eclipse) => {
+    onSelect(eclipse);
+    onClose();
+  };
+
+  return (
+    <div className="eclipse-modal-overlay" onClick={onClose}>
+      <div className="eclipse-modal" onClick={e => e.stopPropagation()}>
+        <div className="eclipse-range">
+          <span className="eclipse-range-label">Eclipses from</span>
+          <input
+            type="number"
+            className="eclipse-year"
+            value={startYear}
+            onChange={e => {
+              const year = Number(e.target.value);
+              if (Number.isInteger(year)) setStartYear(year);
+            }}
+          />
+          <select
+            className="eclipse-span"
+            value={span}
+            onChange={e => setSpan(Number(e.target.value))}
+          >
+            {SPANS.map(years => (
+              <option key={years} value={years}>
+                {years === 1 ? '1 year' : `${years} years`}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {eclipses.length > 0 ? (
+          <div className="eclipse-results">
+            {eclipses.map(eclipse => {
+              const { title, subtitle, local, contacts } = describeEclipse(eclipse);
+              return (
+                <div
+                  key={`${eclipse.kind}-${eclipse.maximum.getTime()}`}
+                  className="eclipse-result"
+                  onClick={() => selectEclipse(eclipse)}
+                >
+                  <span className="eclipse-icon">{eclipse.kind === 'lunar' ? '🌕' : '🌑'}</span>
+                  <div className="eclipse-text">
+                    <span className="eclipse-name">{title}</span>
+                    <span className="eclipse-subtitle">{subtitle}</span>
+                    <span className="eclipse-local">{local}</span>
+                    {contacts && <span className="eclipse-contacts">{contacts}</span>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="eclipse-empty">No eclipses in this range</div>
+        )}
+      </div>
+    </div>
+  );
+}
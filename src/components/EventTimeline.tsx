@@ -0,0 +1,168 @@
+import { useState, useMemo } from 'react';
+import type { GeoLocation } from '../utils/astronomy';
+import { findSkyEvents, type OccultationContact, type SkyEvent } from '../utils/skyEvents';
+import type { StarData } from '../utils/starLoader';
+import { MONTH_NAMES, formatCalendarDate, formatYear, getLocalCalendarDate, localCalendarDateToDate } from '../utils/time';
+import './EventTimeline.css';
+
+interface EventTimelineProps {
+  onClose: () => void;
+  onSelect: (event: SkyEvent) => void;
+  starData: StarData | null;
+  location: GeoLocation;
+  date: Date;
+}
+
+// Length of the searched window, in months
+const SPANS = [1, 3, 6, 12];
+
+const EVENT_ICONS: Record<SkyEvent['kind'], string> = {
+  conjunction: '☌',
+  opposition: '☍',
+  elongation: '∠',
+  occultation: '●',
+};
+
+function formatTime(d: Date): string {
+  return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function formatContact(label: string, contact: OccultationContact): string {
+  const altitude = contact.altitude < 0 ? 'below horizon' : `${contact.altitude.toFixed(0)}°`;
+  return `${label} ${formatTime(contact.date)} (${altitude})`;
+}
+
+function describeEvent(event: SkyEvent): { title: string; detail: string } {
+  switch (event.kind) {
+    case 'conjunction':
+      return {
+        title: `${event.first} ${event.separation.toFixed(1)}° from ${event.second}`,
+        detail: 'Closest approach',
+      };
+    case 'opposition':
+      return {
+        title: `${event.body} at opposition`,
+        detail: `${event.distance.toFixed(3)} AU from Earth`,
+      };
+    case 'elongation':
+      return {
+        title: `${event.body} at greatest elongation`,
+        detail: `${event.elongation.toFixed(1)}° ${event.evening ? 'east (evening sky)' : 'west (morning sky)'}`,
+      };
+    case 'occultation':
+      return {
+        title: `Moon occults ${event.body}${event.mag !== undefined ? ` (mag ${event.mag.toFixed(1)})` : ''}`,
+        detail: [
+          formatContact('Disappears', event.disappearance),
+          formatContact('reappears', event.reappearance),
+          event.sunAltitude > -6 ? 'in twilight or daylight' : '',
+        ].filter(Boolean).join(', '),
+      };
+  }
+}
+
+interface Month {
+  year: number;   // Astronomical year
+  month: number;  // 1-12
+}
+
+function addMonths({ year, month }: Month, months: number): Month {
+  const index = year * 12 + month - 1 + months;
+  const shiftedYear = Math.floor(index / 12);
+  return { year: shiftedYear, month: index - shiftedYear * 12 + 1 };
+}
+
+// First instant of a month in the browser's time zone
+function startOfMonth({ year, month }: Month): Date {
+  return localCalendarDateToDate({ year, month, day: 1, hour: 0, minute: 0, second: 0 });
+}
+
+export function EventTimeline({ onClose, onSelect, starData, location, date }: EventTimelineProps) {
+  const [start, setStart] = useState((): Month => {
+    const local = getLocalCalendarDate(date);
+    return { year: local.year, month: local.month };
+  });
+  const [span, setSpan] = useState(SPANS[0]);
+
+  const events = useMemo(() => {
+    if (!starData) return [];
+    return findSkyEvents(
+      startOfMonth(start),
+      startOfMonth(addMonths(start, span)),
+      location,
+      starData.stars
+    );
+  }, [start, span, location, starData]);
+
+  // Events grouped under a heading for each month
+  const months = useMemo(() => {
+    const groups: { heading: string; events: SkyEvent[] }[] = [];
+    for (const event of events) {
+      const local = getLocalCalendarDate(event.date);
+      const heading = `${MONTH_NAMES[local.month - 1]} ${formatYear(local.year)}`;
+      if (groups.length === 0 || groups[groups.length - 1].heading !== heading) {
+        groups.push({ heading, events: [] });
+      }
+      groups[groups.length - 1].events.push(event);
+    }
+    return groups;
+  }, [events]);
+
+  return (
+    <div className="event-timeline">
+      <div className="event-timeline-header">
+        <span className="event-timeline-title">Sky Events</span>
+        <button className="event-timeline-close" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <div className="event-timeline-range">
+        <button className="event-timeline-nav" onClick={() => setStart(addMonths(start, -span))} title="Earlier">◀</button>
+        <span className="event-timeline-start">
+          {MONTH_NAMES[start.month - 1]} {formatYear(start.year)}
+        </span>
+        <select
+          className="event-timeline-span"
+          value={span}
+          onChange={e => setSpan(Number(e.target.value))}
+        >
+          {SPANS.map(months => (
+            <option key={months} value={months}>
+              {months === 1 ? '1 month' : `${months} months`}
+            </option>
+          ))}
+        </select>
+        <button className="event-timeline-nav" onClick={() => setStart(addMonths(start, span))} title="Later">▶</button>
+      </div>
+
+      <div className="event-timeline-list">
+        {months.map(({ heading, events: monthEvents }) => (
+          <div key={heading} className="event-timeline-month">
+            <div className="event-timeline-heading">{heading}</div>
+            {monthEvents.map(event => {
+              const { title, detail } = describeEvent(event);
+              return (
+                <div
+                  key={`${event.kind}-${title}-${event.date.getTime()}`}
+                  className={`event-timeline-event ${event.kind}`}
+                  onClick={() => onSelect(event)}
+                >
+                  <span className="event-timeline-icon">{EVENT_ICONS[event.kind]}</span>
+                  <div className="event-timeline-text">
+                    <span className="event-timeline-when">
+                      {formatCalendarDate(getLocalCalendarDate(event.date))} {formatTime(event.date)}
+                    </span>
+                    <span className="event-timeline-name">{title}</span>
+                    <span className="event-timeline-detail">{detail}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+        {events.length === 0 && (
+          <div className="event-timeline-empty">No events in this range</div>
+        )}
+      </div>
+    </div>
+  );
+}
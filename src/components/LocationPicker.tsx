@@ -1,50 +1,91 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
-import type { GeoLocation } from '../utils/astronomy';
+import { getStandardPressure, type AtmosphereConditions, type GeoLocation } from '../utils/astronomy';
 import './LocationPicker.css';
 
 interface LocationPickerProps {
   location: GeoLocation;
   onLocationChange: (location: GeoLocation) => void;
+  atmosphere: AtmosphereConditions;
+  onAtmosphereChange: (atmosphere: AtmosphereConditions) => void;
 }
 
 // Common locations for quick selection
 const PRESET_LOCATIONS: { name: string; location: GeoLocation }[] = [
-  { name: 'New York, USA', location: { lat: 40.7128, lon: -74.006 } },
-  { name: 'London, UK', location: { lat: 51.5074, lon: -0.1278 } },
-  { name: 'Tokyo, Japan', location: { lat: 35.6762, lon: 139.6503 } },
-  { name: 'Sydney, Australia', location: { lat: -33.8688, lon: 151.2093 } },
-  { name: 'Cairo, Egypt', location: { lat: 30.0444, lon: 31.2357 } },
-  { name: 'Rio de Janeiro, Brazil', location: { lat: -22.9068, lon: -43.1729 } },
-  { name: 'Reykjavik, Iceland', location: { lat: 64.1466, lon: -21.9426 } },
-  { name: 'Cape Town, South Africa', location: { lat: -33.9249, lon: 18.4241 } },
-  { name: 'Bend, Oregon', location: { lat: 44.0582, lon: -121.3153 } },
+  { name: 'New York, USA', location: { lat: 40.7128, lon: -74.006, elevation: 10 } },
+  { name: 'London, UK', location: { lat: 51.5074, lon: -0.1278, elevation: 11 } },
+  { name: 'Tokyo, Japan', location: { lat: 35.6762, lon: 139.6503, elevation: 40 } },
+  { name: 'Sydney, Australia', location: { lat: -33.8688, lon: 151.2093, elevation: 58 } },
+  { name: 'Cairo, Egypt', location: { lat: 30.0444, lon: 31.2357, elevation: 23 } },
+  { name: 'Rio de Janeiro, Brazil', location: { lat: -22.9068, lon: -43.1729, elevation: 5 } },
+  { name: 'Reykjavik, Iceland', location: { lat: 64.1466, lon: -21.9426, elevation: 20 } },
+  { name: 'Cape Town, South Africa', location: { lat: -33.9249, lon: 18.4241, elevation: 25 } },
+  { name: 'Bend, Oregon', location: { lat: 44.0582, lon: -121.3153, elevation: 1105 } },
+  { name: 'Mauna Kea, Hawaii', location: { lat: 19.8207, lon: -155.4681, elevation: 4205 } },
 ];
 
-export function LocationPicker({ location, onLocationChange }: LocationPickerProps) {
+// Heights above sea level accepted, in metres (Dead Sea shore to Everest)
+const MIN_ELEVATION = -500;
+const MAX_ELEVATION = 9000;
+
+export function LocationPicker({ location, onLocationChange, atmosphere, onAtmosphereChange }: LocationPickerProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [latInput, setLatInput] = useState(location.lat.toString());
   const [lonInput, setLonInput] = useState(location.lon.toString());
+  const [elevationInput, setElevationInput] = useState(location.elevation.toString());
+  const [temperatureInput, setTemperatureInput] = useState(atmosphere.temperature.toString());
+  const [pressureInput, setPressureInput] = useState(atmosphere.pressure.toString());
   const mapRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     setLatInput(location.lat.toFixed(4));
     setLonInput(location.lon.toFixed(4));
+    setElevationInput(Math.round(location.elevation).toString());
   }, [location]);
 
+  useEffect(() => {
+    setTemperatureInput(atmosphere.temperature.toString());
+    setPressureInput(atmosphere.pressure.toString());
+  }, [atmosphere]);
+
+  // Pressure left at the default for the old elevation follows the new one;
+  // a pressure the user entered is kept
+  const changeLocation = useCallback((next: GeoLocation) => {
+    onLocationChange(next);
+    if (
+      next.elevation !== location.elevation &&
+      Math.round(atmosphere.pressure) === Math.round(getStandardPressure(location.elevation))
+    ) {
+      onAtmosphereChange({ ...atmosphere, pressure: Math.round(getStandardPressure(next.elevation)) });
+    }
+  }, [location, atmosphere, onLocationChange, onAtmosphereChange]);
+
   const handleApply = useCallback(() => {
     const lat = parseFloat(latInput);
     const lon = parseFloat(lonInput);
+    const elevation = parseFloat(elevationInput);
+    
+    if (!isNaN(lat) && !isNaN(lon) && lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180 &&
+      !isNaN(elevation) && elevation >= MIN_ELEVATION && elevation <= MAX_ELEVATION) {
+      changeLocation({ lat, lon, elevation });
+      setIsOpen(false);
+    }
+  }, [latInput, lonInput, elevationInput, changeLocation]);
+
+  const handleAtmosphereApply = useCallback(() => {
+    const temperature = parseFloat(temperatureInput);
+    const pressure = parseFloat(pressureInput);
     
-    if (!isNaN(lat) && !isNaN(lon) && lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180) {
-      onLocationChange({ lat, lon });
+    // Reject values outside anything an observing site will see
+    if (!isNaN(temperature) && !isNaN(pressure) && temperature > -90 && temperature < 60 && pressure > 0 && pressure < 1100) {
+      onAtmosphereChange({ temperature, pressure });
       setIsOpen(false);
     }
-  }, [latInput, lonInput, onLocationChange]);
+  }, [temperatureInput, pressureInput, onAtmosphereChange]);
 
   const handlePresetClick = useCallback((preset: typeof PRESET_LOCATIONS[0]) => {
-    onLocationChange(preset.location);
+    changeLocation(preset.location);
     setIsOpen(false);
-  }, [onLocationChange]);
+  }, [changeLocation]);
 
   const handleMapClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
     if (!mapRef.current) return;
@@ -57,17 +98,19 @@ export function LocationPicker({ location, onLocationChange }: LocationPickerPro
     const lon = (x / rect.width) * 360 - 180;
     const lat = 90 - (y / rect.height) * 180;
     
-    onLocationChange({ lat, lon });
+    // The map gives no height; sea level until one is entered
+    changeLocation({ lat, lon, elevation: 0 });
     setIsOpen(false);
-  }, [onLocationChange]);
+  }, [changeLocation]);
 
   const handleUseMyLocation = useCallback(() => {
     if ('geolocation' in navigator) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          onLocationChange({
+          changeLocation({
             lat: position.coords.latitude,
             lon: position.coords.longitude,
+            elevation: position.coords.altitude ?? 0,
           });
           setIsOpen(false);
         },
@@ -79,7 +122,7 @@ export function LocationPicker({ location, onLocationChange }: LocationPickerPro
     } else {
       alert('Geolocation is not supported by your browser.');
     }
-  }, [onLocationChange]);
+  }, [changeLocation]);
 
   // Convert location to map position
   const markerX = ((location.lon + 180) / 360) * 100;
@@ -91,7 +134,7 @@ export function LocationPicker({ location, onLocationChange }: LocationPickerPro
         className="location-button"
         onClick={() => setIsOpen(!isOpen)}
       >
-        📍 {location.lat.toFixed(2)}°, {location.lon.toFixed(2)}°
+        📍 {location.lat.toFixed(2)}°, {location.lon.toFixed(2)}°{location.elevation !== 0 && `, ${Math.round(location.elevation)} m`}
       </button>
       
       {isOpen && (
@@ -138,9 +181,44 @@ export function LocationPicker({ location, onLocationChange }: LocationPickerPro
                   onChange={e => setLonInput(e.target.value)}
                 />
               </div>
+              <div className="coord-field">
+                <label>Elevation m</label>
+                <input
+                  type="number"
+                  min={MIN_ELEVATION}
+                  max={MAX_ELEVATION}
+                  step="1"
+                  value={elevationInput}
+                  onChange={e => setElevationInput(e.target.value)}
+                />
+              </div>
               <button className="apply-button" onClick={handleApply}>Apply</button>
             </div>
             
+            {/* Atmospheric conditions for refraction */}
+            <div className="coord-inputs">
+              <div className="coord-field">
+                <label>Temperature °C</label>
+                <input
+                  type="number"
+                  step="1"
+                  value={temperatureInput}
+                  onChange={e => setTemperatureInput(e.target.value)}
+                />
+              </div>
+              <div className="coord-field">
+                <label>Pressure hPa</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={pressureInput}
+                  onChange={e => setPressureInput(e.target.value)}
+                />
+              </div>
+              <button className="apply-button" onClick={handleAtmosphereApply}>Apply</button>
+            </div>
+            
             <button className="my-location-button" onClick={handleUseMyLocation}>
               🎯 Use My Location
             </button>
@@ -0,0 +1,136 @@
+import { useState, useMemo } from 'react';
+import type { GeoLocation } from '../utils/astronomy';
+import { CONSTELLATION_NAMES } from '../utils/constellationNames';
+import type { DeepSkyObject } from '../utils/deepSky';
+import { getNightWindow, planNight, type PlannerTarget } from '../utils/planner';
+import type { StarData } from '../utils/starLoader';
+import './ObservingPlanner.css';
+
+interface ObservingPlannerProps {
+  onClose: () => void;
+  onSelect: (ra: number, dec: number) => void;
+  starData: StarData | null;
+  deepSkyObjects: DeepSkyObject[];
+  location: GeoLocation;
+  date: Date;
+}
+
+const MIN_ALTITUDES = [20, 30, 45, 60];
+const MAX_MAGNITUDES = [1, 2, 3, 4, 5, 6, 8, 10, 12];
+
+// Rows shown after filtering
+const MAX_ROWS = 50;
+
+const CHART_WIDTH = 96;
+const CHART_HEIGHT = 28;
+
+const CONSTELLATION_OPTIONS = Object.entries(CONSTELLATION_NAMES).sort((a, b) => a[1].localeCompare(b[1]));
+
+function formatTime(d: Date): string {
+  return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function formatDuration(minutes: number): string {
+  const rounded = Math.round(minutes / 10) * 10;
+  return `${Math.floor(rounded / 60)}h ${String(rounded % 60).padStart(2, '0')}m`;
+}
+
+// Altitude through the night, with the chosen minimum altitude dashed
+function AltitudeChart({ altitudes, minAltitude }: { altitudes: number[]; minAltitude: number }) {
+  const x = (i: number) => (i / Math.max(1, altitudes.length - 1)) * CHART_WIDTH;
+  const y = (alt: number) => CHART_HEIGHT - (Math.max(0, alt) / 90) * CHART_HEIGHT;
+  const points = altitudes.map((alt, i) => `${x(i).toFixed(1)},${y(alt).toFixed(1)}`).join(' ');
+
+  return (
+    <svg className="planner-chart" width={CHART_WIDTH} height={CHART_HEIGHT} viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}>
+      <line className="planner-chart-limit" x1={0} x2={CHART_WIDTH} y1={y(minAltitude)} y2={y(minAltitude)} />
+      <polyline className="planner-chart-line" points={points} />
+    </svg>
+  );
+}
+
+export function ObservingPlanner({ onClose, onSelect, starData, deepSkyObjects, location, date }: ObservingPlannerProps) {
+  const [minAltitude, setMinAltitude] = useState(MIN_ALTITUDES[1]);
+  const [maxMagnitude, setMaxMagnitude] = useState(MAX_MAGNITUDES[2]);
+  const [constellation, setConstellation] = useState('');
+
+  // The night only needs working out again once the hour changes
+  const hour = Math.floor(date.getTime() / 3600000);
+  const night = useMemo(() => getNightWindow(new Date(hour * 3600000), location), [hour, location]);
+
+  const targets = useMemo(
+    () => (night && starData ? planNight(night, location, starData.stars, deepSkyObjects, minAltitude) : []),
+    [night, location, starData, deepSkyObjects, minAltitude]
+  );
+
+  const filtered = useMemo(() => targets
+    .filter(target => target.mag === null || target.mag <= maxMagnitude)
+    .filter(target => !constellation || target.constellation === constellation)
+    .slice(0, MAX_ROWS), [targets, maxMagnitude, constellation]);
+
+  const describe = (target: PlannerTarget) => {
+    const constellationName = CONSTELLATION_NAMES[target.constellation];
+    if (target.type === 'constellation') return 'Constellation';
+    return [target.subtitle, constellationName].filter(Boolean).join(' · ');
+  };
+
+  return (
+    <div className="planner">
+      <div className="planner-header">
+        <span className="planner-title">Tonight's Best</span>
+        <button className="planner-close" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <div className="planner-night">
+        {night
+          ? `Dark from ${formatTime(night.dusk)} to ${formatTime(night.dawn)}`
+          : 'No astronomical darkness tonight'}
+      </div>
+
+      <div className="planner-filters">
+        <label className="planner-filter">
+          <span>Above</span>
+          <select value={minAltitude} onChange={e => setMinAltitude(Number(e.target.value))}>
+            {MIN_ALTITUDES.map(alt => <option key={alt} value={alt}>{alt}°</option>)}
+          </select>
+        </label>
+        <label className="planner-filter">
+          <span>Mag ≤</span>
+          <select value={maxMagnitude} onChange={e => setMaxMagnitude(Number(e.target.value))}>
+            {MAX_MAGNITUDES.map(mag => <option key={mag} value={mag}>{mag}</option>)}
+          </select>
+        </label>
+        <label className="planner-filter">
+          <span>In</span>
+          <select value={constellation} onChange={e => setConstellation(e.target.value)}>
+            <option value="">All constellations</option>
+            {CONSTELLATION_OPTIONS.map(([abbr, name]) => <option key={abbr} value={abbr}>{name}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="planner-list">
+        {filtered.map(target => (
+          <div
+            key={target.id}
+            className="planner-target"
+            onClick={() => onSelect(target.position.ra, target.position.dec)}
+          >
+            <span className="planner-icon">{target.type === 'star' ? '★' : target.type === 'deepsky' ? '⬭' : '✧'}</span>
+            <div className="planner-text">
+              <span className="planner-name">{target.name}</span>
+              <span className="planner-subtitle">{describe(target)}</span>
+              <span className="planner-detail">
+                {formatDuration(target.minutesUp)} above {minAltitude}° · max {target.maxAltitude.toFixed(0)}° at {formatTime(target.maxTime)}
+              </span>
+            </div>
+            <AltitudeChart altitudes={target.altitudes} minAltitude={minAltitude} />
+          </div>
+        ))}
+        {night && filtered.length === 0 && (
+          <div className="planner-empty">Nothing matches these filters</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,15 @@ interface PlaybackControlsProps {
   onSpeedChange: (speed: number) => void;
 }
 
+// Seconds of sky time per real second
+const DAY = 86400;
+const YEAR = 365.25 * DAY;
+
 const SPEED_LABELS: Record<number, string> = {
+  [-1000 * YEAR]: '-1000y/s',
+  [-100 * YEAR]: '-100y/s',
+  [-YEAR]: '-1y/s',
+  [-DAY]: '-1d/s',
   [-3600]: '-1h/s',
   [-600]: '-10m/s',
   [-60]: '-1m/s',
@@ -17,9 +25,18 @@ const SPEED_LABELS: Record<number, string> = {
   60: '1m/s',
   600: '10m/s',
   3600: '1h/s',
+  [DAY]: '1d/s',
+  [YEAR]: '1y/s',
+  [100 * YEAR]: '100y/s',
+  [1000 * YEAR]: '1000y/s',
 };
 
-const SPEEDS = [-3600, -600, -60, -10, -1, 0, 1, 10, 60, 600, 3600];
+// Years-per-second speeds make stellar proper motion visible
+const SPEEDS = [
+  -1000 * YEAR, -100 * YEAR, -YEAR, -DAY,
+  -3600, -600, -60, -10, -1, 0, 1, 10, 60, 600, 3600,
+  DAY, YEAR, 100 * YEAR, 1000 * YEAR,
+];
 
 export function PlaybackControls({ speed, onSpeedChange }: PlaybackControlsProps) {
   const handleReverse = () => {
@@ -1,14 +1,19 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
-import type { StarData } from '../utils/starLoader';
-import { CONSTELLATION_NAMES } from '../utils/constellationNames';
+import { getStarPositionAt, type Star, type StarData } from '../utils/starLoader';
+import { cartesianToEquatorial, getEpochYears } from '../utils/astronomy';
+import { CONSTELLATION_COORDS, CONSTELLATION_NAMES } from '../utils/constellationNames';
+import type { SolarSystemBody } from '../utils/solarSystem';
+import { compactDesignation, DEEP_SKY_TYPE_NAMES, type DeepSkyObject } from '../utils/deepSky';
 import './SearchModal.css';
 
 interface SearchResult {
-  type: 'star' | 'constellation';
+  type: 'star' | 'constellation' | 'body' | 'deepsky';
   name: string;
   subtitle?: string;
+  designations?: string[];  // Catalog names, compacted (e.g., "m31", "ngc224")
   ra: number;  // hours for stars, hours for constellations
   dec: number; // degrees
+  star?: Star; // Stars move with proper motion, so their position depends on the date
 }
 
 interface SearchModalProps {
@@ -16,15 +21,26 @@ interface SearchModalProps {
   onClose: () => void;
   onSelect: (ra: number, dec: number) => void;
   starData: StarData | null;
+  bodies: SolarSystemBody[];
+  deepSkyObjects: DeepSkyObject[];
+  date: Date;
 }
 
-export function SearchModal({ isOpen, onClose, onSelect, starData }: SearchModalProps) {
+const BODY_SUBTITLES: Record<SolarSystemBody['type'], string> = {
+  sun: 'Star',
+  moon: 'Moon',
+  planet: 'Planet',
+  asteroid: 'Asteroid',
+  comet: 'Comet',
+};
+
+export function SearchModal({ isOpen, onClose, onSelect, starData, bodies, deepSkyObjects, date }: SearchModalProps) {
   const [query, setQuery] = useState('');
   const [selectedIndex, setSelectedIndex] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
   const resultsRef = useRef<HTMLDivElement>(null);
 
-  // Build searchable index from stars and constellations
+  // Build searchable index from stars, constellations and deep-sky objects
   const searchIndex = useMemo(() => {
     const results: SearchResult[] = [];
     
@@ -54,25 +70,56 @@ export function SearchModal({ isOpen, onClose, onSelect, starData }: SearchModal
             subtitle: star.bayer || `mag ${star.mag.toFixed(1)}`,
             ra: star.ra,
             dec: star.dec,
+            star,
           });
         }
       }
     }
     
+    // Add deep-sky objects, found by any of their catalog names
+    for (const object of deepSkyObjects) {
+      const otherNames = object.name ? object.designations : object.designations.slice(1);
+      results.push({
+        type: 'deepsky',
+        name: object.name ?? object.id,
+        subtitle: [...otherNames, DEEP_SKY_TYPE_NAMES[object.type]].join(' · '),
+        designations: object.designations.map(compactDesignation),
+        ra: object.ra,
+        dec: object.dec,
+      });
+    }
+    
     return results;
-  }, [starData]);
+  }, [starData, deepSkyObjects]);
+  
+  // Solar system bodies move quickly, so they are indexed at their current position
+  const bodyIndex = useMemo((): SearchResult[] => bodies.map(body => ({
+    type: 'body',
+    name: body.name,
+    subtitle: `${BODY_SUBTITLES[body.type]} · mag ${body.mag.toFixed(1)}`,
+    ra: body.ra,
+    dec: body.dec,
+  })), [bodies]);
 
   // Filter results based on query
   const filteredResults = useMemo(() => {
     if (!query.trim()) return [];
     
     const q = query.toLowerCase();
-    return searchIndex
+    const designation = compactDesignation(query);
+    const isExact = (r: SearchResult) => r.designations?.includes(designation) ?? false;
+    return [...bodyIndex, ...searchIndex]
       .filter(r => 
         r.name.toLowerCase().includes(q) || 
-        (r.subtitle && r.subtitle.toLowerCase().includes(q))
+        (r.subtitle && r.subtitle.toLowerCase().includes(q)) ||
+        r.designations?.some(d => d.startsWith(designation))
       )
       .sort((a, b) => {
+        // An exact catalog name first, so "M3" isn't lost among M30-M39
+        const aExact = isExact(a);
+        const bExact = isExact(b);
+        if (aExact && !bExact) return -1;
+        if (!aExact && bExact) return 1;
         // Prioritize starts-with matches
         const aStarts = a.name.toLowerCase().startsWith(q);
         const bStarts = b.name.toLowerCase().startsWith(q);
@@ -82,7 +129,7 @@ export function SearchModal({ isOpen, onClose, onSelect, starData }: SearchModal
         return a.name.localeCompare(b.name);
       })
       .slice(0, 20);
-  }, [query, searchIndex]);
+  }, [query, searchIndex, bodyIndex]);
 
   // Focus input when modal opens
   useEffect(() => {
@@ -110,6 +157,17 @@ export function SearchModal({ isOpen, onClose, onSelect, starData }: SearchModal
     }
   }, [selectedIndex]);
 
+  const selectResult = (result: SearchResult) => {
+    if (result.star) {
+      const [x, y, z] = getStarPositionAt(result.star, getEpochYears(date));
+      const { ra, dec } = cartesianToEquatorial(x, y, z);
+      onSelect(ra, dec);
+    } else {
+      onSelect(result.ra, result.dec);
+    }
+    onClose();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     switch (e.key) {
       case 'ArrowDown':
@@ -123,9 +181,7 @@ export function SearchModal({ isOpen, onClose, onSelect, starData }: SearchModal
       case 'Enter':
         e.preventDefault();
         if (filteredResults[selectedIndex]) {
-          const result = filteredResults[selectedIndex];
-          onSelect(result.ra, result.dec);
-          onClose();
+          selectResult(filteredResults[selectedIndex]);
         }
         break;
       case 'Escape':
@@ -136,8 +192,7 @@ export function SearchModal({ isOpen, onClose, onSelect, starData }: SearchModal
   };
 
   const handleResultClick = (result: SearchResult) => {
-    onSelect(result.ra, result.dec);
-    onClose();
+    selectResult(result);
   };
 
   if (!isOpen) return null;
@@ -149,7 +204,7 @@ export function SearchModal({ isOpen, onClose, onSelect, starData }: SearchModal
           ref={inputRef}
           type="text"
           className="search-input"
-          placeholder="Search stars and constellations..."
+          placeholder="Search stars, planets, constellations and deep-sky objects..."
           value={query}
           onChange={e => {
             setQuery(e.target.value);
@@ -162,13 +217,13 @@ export function SearchModal({ isOpen, onClose, onSelect, starData }: SearchModal
           <div className="search-results" ref={resultsRef}>
             {filteredResults.map((result, i) => (
               <div
-                key={`${result.type}-${result.name}`}
+                key={`${result.type}-${result.name}-${result.subtitle}`}
                 className={`search-result ${i === selectedIndex ? 'selected' : ''}`}
                 onClick={() => handleResultClick(result)}
                 onMouseEnter={() => setSelectedIndex(i)}
               >
                 <span className="result-icon">
-                  {result.type === 'star' ? '★' : '✧'}
+                  {result.type === 'star' ? '★' : result.type === 'body' ? '●' : result.type === 'deepsky' ? '⬭' : '✧'}
                 </span>
                 <div className="result-text">
                   <span className="result-name">{result.name}</span>
@@ -188,95 +243,3 @@ export function SearchModal({ isOpen, onClose, onSelect, starData }: SearchModal
     </div>
   );
 }
-
-// Approximate constellation center coordinates (RA in hours, Dec in degrees)
-const CONSTELLATION_COORDS: Record<string, { ra: number; dec: number }> = {
-  And: { ra: 0.8, dec: 38 },
-  Ant: { ra: 10.3, dec: -33 },
-  Aps: { ra: 16, dec: -75 },
-  Aqr: { ra: 22.3, dec: -11 },
-  Aql: { ra: 19.7, dec: 3 },
-  Ara: { ra: 17.3, dec: -55 },
-  Ari: { ra: 2.6, dec: 21 },
-  Aur: { ra: 6, dec: 42 },
-  Boo: { ra: 14.7, dec: 31 },
-  Cae: { ra: 4.7, dec: -38 },
-  Cam: { ra: 6, dec: 70 },
-  Cnc: { ra: 8.6, dec: 20 },
-  CVn: { ra: 13, dec: 40 },
-  CMa: { ra: 6.8, dec: -22 },
-  CMi: { ra: 7.6, dec: 6 },
-  Cap: { ra: 21, dec: -20 },
-  Car: { ra: 8.7, dec: -63 },
-  Cas: { ra: 1, dec: 60 },
-  Cen: { ra: 13, dec: -47 },
-  Cep: { ra: 22, dec: 70 },
-  Cet: { ra: 1.7, dec: -8 },
-  Cha: { ra: 10.5, dec: -79 },
-  Cir: { ra: 15, dec: -63 },
-  Col: { ra: 5.9, dec: -35 },
-  Com: { ra: 12.8, dec: 23 },
-  CrA: { ra: 18.6, dec: -41 },
-  CrB: { ra: 15.8, dec: 33 },
-  Crv: { ra: 12.4, dec: -18 },
-  Crt: { ra: 11.4, dec: -15 },
-  Cru: { ra: 12.4, dec: -60 },
-  Cyg: { ra: 20.6, dec: 42 },
-  Del: { ra: 20.7, dec: 12 },
-  Dor: { ra: 5.2, dec: -60 },
-  Dra: { ra: 15, dec: 65 },
-  Equ: { ra: 21.2, dec: 8 },
-  Eri: { ra: 3.3, dec: -29 },
-  For: { ra: 2.8, dec: -32 },
-  Gem: { ra: 7, dec: 23 },
-  Gru: { ra: 22.5, dec: -47 },
-  Her: { ra: 17.4, dec: 27 },
-  Hor: { ra: 3.3, dec: -53 },
-  Hya: { ra: 10, dec: -15 },
-  Hyi: { ra: 2.3, dec: -70 },
-  Ind: { ra: 21.5, dec: -58 },
-  Lac: { ra: 22.5, dec: 45 },
-  Leo: { ra: 10.7, dec: 15 },
-  LMi: { ra: 10.2, dec: 33 },
-  Lep: { ra: 5.5, dec: -19 },
-  Lib: { ra: 15.2, dec: -16 },
-  Lup: { ra: 15.3, dec: -43 },
-  Lyn: { ra: 8, dec: 48 },
-  Lyr: { ra: 18.9, dec: 37 },
-  Men: { ra: 5.5, dec: -77 },
-  Mic: { ra: 21, dec: -37 },
-  Mon: { ra: 7.1, dec: 0 },
-  Mus: { ra: 12.5, dec: -70 },
-  Nor: { ra: 16, dec: -52 },
-  Oct: { ra: 22, dec: -85 },
-  Oph: { ra: 17.4, dec: -7 },
-  Ori: { ra: 5.5, dec: 3 },
-  Pav: { ra: 19.6, dec: -65 },
-  Peg: { ra: 22.7, dec: 20 },
-  Per: { ra: 3.2, dec: 45 },
-  Phe: { ra: 0.9, dec: -48 },
-  Pic: { ra: 5.7, dec: -53 },
-  Psc: { ra: 0.5, dec: 12 },
-  PsA: { ra: 22.5, dec: -31 },
-  Pup: { ra: 7.3, dec: -31 },
-  Pyx: { ra: 8.9, dec: -27 },
-  Ret: { ra: 3.9, dec: -60 },
-  Sge: { ra: 19.8, dec: 18 },
-  Sgr: { ra: 19, dec: -28 },
-  Sco: { ra: 16.9, dec: -30 },
-  Scl: { ra: 0.4, dec: -33 },
-  Sct: { ra: 18.7, dec: -10 },
-  Ser: { ra: 16.9, dec: 6 },
-  Sex: { ra: 10.3, dec: -2 },
-  Tau: { ra: 4.7, dec: 16 },
-  Tel: { ra: 19, dec: -52 },
-  Tri: { ra: 2.2, dec: 32 },
-  TrA: { ra: 16, dec: -65 },
-  Tuc: { ra: 23.8, dec: -66 },
-  UMa: { ra: 11, dec: 55 },
-  UMi: { ra: 15, dec: 78 },
-  Vel: { ra: 9.4, dec: -47 },
-  Vir: { ra: 13.4, dec: -3 },
-  Vol: { ra: 7.8, dec: -69 },
-  Vul: { ra: 20.2, dec: 25 },
-};
@@ -1,8 +1,34 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
-import { useSkyRenderer } from '../hooks/useSkyRenderer';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { getLimitingMagnitude, useSkyRenderer } from '../hooks/useSkyRenderer';
 import { useGridRenderer, type GridOptions } from '../hooks/useGridRenderer';
-import type { StarData, Star } from '../utils/starLoader';
-import { azimuthToCardinal, getCelestialRotationMatrix, equatorialToHorizontal, type GeoLocation } from '../utils/astronomy';
+import { useBodyRenderer } from '../hooks/useBodyRenderer';
+import { useMinorBodyRenderer } from '../hooks/useMinorBodyRenderer';
+import { useSatelliteRenderer } from '../hooks/useSatelliteRenderer';
+import { DEEP_SKY_SYMBOL_SIZE, useDeepSkyRenderer } from '../hooks/useDeepSkyRenderer';
+import { findStarsNear, getStarPositionAt, type StarData, type Star } from '../utils/starLoader';
+import { getStarMagnitudeAt } from '../utils/variableStars';
+import {
+  apparentToJ2000,
+  azimuthToCardinal,
+  cartesianToHorizontal,
+  getCelestialRotationMatrix,
+  getEpochYears,
+  equatorialToCartesian,
+  equatorialToHorizontal,
+  horizontalToCartesian,
+  horizontalToEquatorial,
+  j2000ToApparent,
+  refractHorizontalVector,
+  type AtmosphereConditions,
+  type EquatorialCoords,
+  type GeoLocation,
+  type HorizontalCoords,
+  type Vec3,
+} from '../utils/astronomy';
+import { isSolarSystemBody, type SolarSystemBody } from '../utils/solarSystem';
+import { isSatellite, type Satellite } from '../utils/satellites';
+import { isConstellationCenter, type ConstellationCenter } from '../utils/constellationNames';
+import { getDeepSkyMagnitude, isDeepSkyObject, type DeepSkyObject } from '../utils/deepSky';
 import { StarInfo } from './StarInfo';
 import './SkyCanvas.css';
 
@@ -11,6 +37,59 @@ interface ConstellationLabel {
   x: number;
   y: number;
   distance: number;
+  constellation: ConstellationCenter;
+}
+
+// Anything that can be hovered or selected in the sky
+type SkyObject = Star | SolarSystemBody | ConstellationCenter | Satellite | DeepSkyObject;
+
+const NO_DEEP_SKY: DeepSkyObject[] = [];
+
+// Labels fade in as their constellation approaches the centre of the view
+// (distance 0 = centre, 1 = edge): hidden beyond the start, opaque within the end
+const LABEL_FADE_START = 0.9;
+const LABEL_FADE_END = 0.35;
+
+// Stars are hit within 20 CSS pixels, more for bright ones; the growth stops
+// at Sirius so the few brighter catalog entries don't widen every search
+const STAR_HIT_RADIUS = 20;
+const STAR_HIT_BRIGHTEST = -1.5;
+
+function getStarHitRadius(mag: number): number {
+  return STAR_HIT_RADIUS * (1 + Math.max(0, (4 - Math.max(mag, STAR_HIT_BRIGHTEST)) * 0.5));
+}
+
+interface ReticulePosition {
+  x: number;
+  y: number;
+  size?: number;  // Overrides the default reticule size, in CSS pixels
+}
+
+// Sky position under the mouse cursor
+interface CursorCoords {
+  horizontal: HorizontalCoords;  // Observed (refracted when enabled)
+  j2000: EquatorialCoords;
+  ofDate: EquatorialCoords;
+}
+
+function stopPropagation(e: React.SyntheticEvent) {
+  e.stopPropagation();
+}
+
+function formatRA(ra: number): string {
+  const totalSeconds = Math.round(ra * 3600) % 86400;
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return `${h}h ${String(m).padStart(2, '0')}m ${String(s).padStart(2, '0')}s`;
+}
+
+function formatDec(dec: number): string {
+  const totalSeconds = Math.round(Math.abs(dec) * 3600);
+  const d = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return `${dec < 0 ? '-' : '+'}${d}° ${String(m).padStart(2, '0')}′ ${String(s).padStart(2, '0')}″`;
 }
 
 interface NavigateTarget {
@@ -20,37 +99,54 @@ interface NavigateTarget {
 
 interface SkyCanvasProps {
   starData: StarData | null;
+  bodies: SolarSystemBody[];
+  minorBodies: SolarSystemBody[];
+  satellites: Satellite[];
+  deepSkyObjects: DeepSkyObject[];
   location: GeoLocation;
   date: Date;
+  atmosphere: AtmosphereConditions;
   gridOptions: GridOptions;
+  limitingMagnitude: number;  // Faintest star drawn under a dark sky
+  starSaturation: number;     // Star colour saturation, 1 for blackbody colours
+  deepSkyMagnitude: number;   // Faintest deep-sky object drawn under a dark sky
   onViewChange?: (yaw: number, pitch: number) => void;
   navigateTarget?: NavigateTarget | null;
   onNavigateComplete?: () => void;
 }
 
-export function SkyCanvas({ starData, location, date, gridOptions, onViewChange, navigateTarget, onNavigateComplete }: SkyCanvasProps) {
+export function SkyCanvas({ starData, bodies, minorBodies, satellites, deepSkyObjects, location, date, atmosphere, gridOptions, limitingMagnitude, starSaturation, deepSkyMagnitude, onViewChange, navigateTarget, onNavigateComplete }: SkyCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const infoLayerRef = useRef<HTMLDivElement>(null);
   
   const [isDragging, setIsDragging] = useState(false);
   const [viewState, setViewState] = useState({ yaw: 0, pitch: Math.PI / 4 });
   const [fov] = useState(60); // Field of view in degrees
   const [constellationLabels, setConstellationLabels] = useState<ConstellationLabel[]>([]);
-  const [hoveredStar, setHoveredStar] = useState<Star | null>(null);
-  const [selectedStar, setSelectedStar] = useState<Star | null>(null);
-  const [selectedStarScreenPos, setSelectedStarScreenPos] = useState<{x: number, y: number} | null>(null);
-  const [hoveredStarScreenPos, setHoveredStarScreenPos] = useState<{x: number, y: number} | null>(null);
+  const constellationLabelsRef = useRef<ConstellationLabel[]>([]);
+  const [hoveredObject, setHoveredObject] = useState<SkyObject | null>(null);
+  const [selectedObject, setSelectedObject] = useState<SkyObject | null>(null);
+  const [selectedScreenPos, setSelectedScreenPos] = useState<ReticulePosition | null>(null);
+  const [hoveredScreenPos, setHoveredScreenPos] = useState<ReticulePosition | null>(null);
+  const [cursorCoords, setCursorCoords] = useState<CursorCoords | null>(null);
   const lastMouseRef = useRef({ x: 0, y: 0 });
   const mousePositionRef = useRef({ x: 0, y: 0 });
   const didDragRef = useRef(false);
   const viewRef = useRef({ yaw: 0, pitch: Math.PI / 4 }); // Start looking at 45° altitude
   
-  const { render: renderStars, setView, handleResize } = useSkyRenderer(
+  // Atmospheric conditions used for refraction, or null when it is switched off
+  const refraction = gridOptions.refraction ? atmosphere : null;
+  
+  // The Sun's altitude sets the sky colour and how faint a star can still be seen
+  const sunAltitude = bodies.find(body => body.type === 'sun')?.alt ?? null;
+  
+  const { render: renderStars, setView, unproject, handleResize } = useSkyRenderer(
     canvasRef,
     starData,
     location,
     date,
-    { fov, lightMode: gridOptions.lightMode, nightMode: gridOptions.nightMode, magnitudeScale: 10, pixelStars: gridOptions.pixelStars }
+    { fov, lightMode: gridOptions.lightMode, nightMode: gridOptions.nightMode, magnitudeScale: 10, pixelStars: gridOptions.pixelStars, refraction, sunAltitude, limitingMagnitude, colorSaturation: starSaturation }
   );
   
   const { render: renderGrid, getConstellationLabels } = useGridRenderer(
@@ -59,26 +155,76 @@ export function SkyCanvas({ starData, location, date, gridOptions, onViewChange,
     date,
     viewRef,
     gridOptions,
-    fov
+    fov,
+    refraction
+  );
+  
+  const deepSky = useMemo(
+    () => (gridOptions.showDeepSky ? deepSkyObjects : NO_DEEP_SKY),
+    [gridOptions.showDeepSky, deepSkyObjects]
+  );
+  
+  const { render: renderDeepSky } = useDeepSkyRenderer(
+    canvasRef,
+    deepSky,
+    location,
+    date,
+    viewRef,
+    { fov, lightMode: gridOptions.lightMode, nightMode: gridOptions.nightMode, refraction, sunAltitude, limitingMagnitude: deepSkyMagnitude }
+  );
+  
+  const { render: renderMinorBodies } = useMinorBodyRenderer(
+    canvasRef,
+    minorBodies,
+    location,
+    date,
+    viewRef,
+    { fov, lightMode: gridOptions.lightMode, nightMode: gridOptions.nightMode, magnitudeScale: 10, refraction, sunAltitude, limitingMagnitude }
+  );
+  
+  const { render: renderBodies } = useBodyRenderer(
+    canvasRef,
+    bodies,
+    location,
+    date,
+    viewRef,
+    { fov, lightMode: gridOptions.lightMode, nightMode: gridOptions.nightMode, magnitudeScale: 10, refraction }
   );
 
-  // Project star to screen coordinates
-  const projectStarToScreen = useCallback((star: Star): {x: number, y: number} | null => {
+  const { render: renderSatellites } = useSatelliteRenderer(
+    canvasRef,
+    satellites,
+    viewRef,
+    { fov, lightMode: gridOptions.lightMode, nightMode: gridOptions.nightMode, refraction }
+  );
+
+  // Bodies move with the date; always show the current state of a selected one
+  const resolveObject = useCallback((object: SkyObject | null): SkyObject | null => {
+    if (object && isSatellite(object)) {
+      return satellites.find(satellite => satellite.id === object.id) ?? null;
+    }
+    if (!object || !isSolarSystemBody(object)) return object;
+    return bodies.find(body => body.id === object.id) ??
+      minorBodies.find(body => body.id === object.id) ?? null;
+  }, [bodies, minorBodies, satellites]);
+  const hovered = resolveObject(hoveredObject);
+  const selected = resolveObject(selectedObject);
+
+  // Project a direction in the horizon frame (x = East, y = Up, z = North) to screen coordinates
+  const projectHorizonToScreen = useCallback((position: Vec3): {x: number, y: number} | null => {
     const canvas = canvasRef.current;
     if (!canvas) return null;
     
     const dpr = window.devicePixelRatio || 1;
     const aspect = canvas.width / canvas.height;
     
-    // Get celestial rotation
-    const celestialRotation = getCelestialRotationMatrix(location, date);
-    
-    // Transform star position to observer frame
-    const rx = celestialRotation[0] * star.x + celestialRotation[4] * star.y + celestialRotation[8] * star.z;
-    const ry = celestialRotation[1] * star.x + celestialRotation[5] * star.y + celestialRotation[9] * star.z;
-    const rz = celestialRotation[2] * star.x + celestialRotation[6] * star.y + celestialRotation[10] * star.z;
+    let observed = position;
+    if (refraction) {
+      observed = refractHorizontalVector(observed, refraction);
+    }
+    const [rx, ry, rz] = observed;
     
-    // Apply view rotation
+    // Apply view rotation (same as createViewMatrix in the renderers)
     const yaw = viewRef.current.yaw;
     const pitch = viewRef.current.pitch;
     const cy = Math.cos(yaw), sy = Math.sin(yaw);
@@ -86,16 +232,15 @@ export function SkyCanvas({ starData, location, date, gridOptions, onViewChange,
     
     const vx = cy * rx + sy * rz;
     const vy = sy * sp * rx + cp * ry - cy * sp * rz;
-    const vz = -sy * cp * rx + sp * ry + cy * cp * rz;
+    const vz = sy * cp * rx - sp * ry - cy * cp * rz;
     
-    // Behind camera?
-    // Note: vz sign is inverted from GPU convention, so skip behind-camera check
-    // Stars behind camera will project outside screen bounds anyway
+    // Behind camera? (camera looks down -z)
+    if (vz >= 0) return null;
     
-    // Project to screen - X negated to match GPU projection
+    // Project to screen
     const f = 1.0 / Math.tan((fov * Math.PI / 180) / 2);
-    const screenX = -(f / aspect) * (vx / vz);
-    const screenY = -f * (vy / vz);
+    const screenX = (f / aspect) * (vx / -vz);
+    const screenY = f * (vy / -vz);
     
     // Convert to CSS pixels
     const cssX = ((screenX + 1) * 0.5 * canvas.width) / dpr;
@@ -110,23 +255,87 @@ export function SkyCanvas({ starData, location, date, gridOptions, onViewChange,
     }
     
     return { x: cssX, y: cssY };
-  }, [location, date, fov]);
+  }, [fov, refraction]);
+  
+  // Celestial rotation (J2000 -> apparent place -> observer frame), shared by
+  // every projection at this time rather than rebuilt per object
+  const celestialRotation = useMemo(() => getCelestialRotationMatrix(location, date), [location, date]);
+  
+  // Project a J2000 direction to screen coordinates
+  const projectToScreen = useCallback((position: Vec3): {x: number, y: number} | null => {
+    const m = celestialRotation;
+    const [px, py, pz] = position;
+    
+    // The translation column carries aberration; only the direction matters
+    return projectHorizonToScreen([
+      m[0] * px + m[4] * py + m[8] * pz + m[12],
+      m[1] * px + m[5] * py + m[9] * pz + m[13],
+      m[2] * px + m[6] * py + m[10] * pz + m[14],
+    ]);
+  }, [celestialRotation, projectHorizonToScreen]);
+  
+  // Project a star (at the displayed epoch) or body to screen coordinates
+  const projectObjectToScreen = useCallback((object: SkyObject): {x: number, y: number} | null => {
+    if (isSatellite(object)) return projectHorizonToScreen(horizontalToCartesian(object));
+    if (isSolarSystemBody(object) || isConstellationCenter(object) || isDeepSkyObject(object)) {
+      return projectToScreen([object.x, object.y, object.z]);
+    }
+    return projectToScreen(getStarPositionAt(object, getEpochYears(date)));
+  }, [projectToScreen, projectHorizonToScreen, date]);
+  
+  // Place a reticule on an object; those around the Sun, Moon and deep-sky
+  // objects grow to frame them
+  const getReticulePosition = useCallback((object: SkyObject): ReticulePosition | null => {
+    const pos = projectObjectToScreen(object);
+    const canvas = canvasRef.current;
+    if (!pos || !canvas) return pos;
+    
+    const pixelsPerRadian = canvas.clientHeight / 2 / Math.tan(fov * Math.PI / 360);
+    const extent = isSolarSystemBody(object) ? object.angularDiameter
+      : isDeepSkyObject(object) ? object.major / 60
+      : null;
+    if (extent === null) return pos;
+    return { ...pos, size: Math.max(24, extent * Math.PI / 180 * pixelsPerRadian + 8) };
+  }, [projectObjectToScreen, fov]);
+
+  // Sky coordinates under a point on the screen
+  const getCoordsAtPosition = useCallback((clientX: number, clientY: number): CursorCoords | null => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    
+    const direction = unproject(clientX - rect.left, clientY - rect.top);
+    if (!direction) return null;
+    
+    const horizontal = cartesianToHorizontal(direction);
+    const ofDate = horizontalToEquatorial(horizontal, location, date, refraction);
+    return { horizontal, ofDate, j2000: apparentToJ2000(ofDate, date) };
+  }, [unproject, location, date, refraction]);
 
   // Initial setup and resize handling
   useEffect(() => {
+    // The star renderer keeps its own copy of the view
+    setView(viewRef.current.yaw, viewRef.current.pitch);
     handleResize();
     renderStars();
+    renderDeepSky();
     renderGrid();
+    renderMinorBodies();
+    renderBodies();
+    renderSatellites();
     
     const onResize = () => {
       handleResize();
       renderStars();
+      renderDeepSky();
       renderGrid();
+      renderMinorBodies();
+      renderBodies();
+      renderSatellites();
     };
     
     window.addEventListener('resize', onResize);
     return () => window.removeEventListener('resize', onResize);
-  }, [handleResize, renderStars, renderGrid]);
+  }, [setView, handleResize, renderStars, renderDeepSky, renderGrid, renderMinorBodies, renderBodies, renderSatellites]);
 
   // Animation loop for smooth updates
   useEffect(() => {
@@ -134,25 +343,31 @@ export function SkyCanvas({ starData, location, date, gridOptions, onViewChange,
     
     const animate = () => {
       renderStars();
+      renderDeepSky();
       renderGrid();
+      renderMinorBodies();
+      renderBodies();
+      renderSatellites();
       
       // Update constellation labels every frame for smooth tracking
       if (gridOptions.showConstellations) {
-        setConstellationLabels(getConstellationLabels());
+        constellationLabelsRef.current = getConstellationLabels();
+        setConstellationLabels(constellationLabelsRef.current);
       } else if (constellationLabels.length > 0) {
+        constellationLabelsRef.current = [];
         setConstellationLabels([]);
       }
       
-      // Update selected star position
-      if (selectedStar) {
-        setSelectedStarScreenPos(projectStarToScreen(selectedStar));
+      // Update selected object position
+      if (selected) {
+        setSelectedScreenPos(getReticulePosition(selected));
       }
       
-      // Update hovered star position
-      if (hoveredStar) {
-        setHoveredStarScreenPos(projectStarToScreen(hoveredStar));
+      // Update hovered object position
+      if (hovered) {
+        setHoveredScreenPos(getReticulePosition(hovered));
       } else {
-        setHoveredStarScreenPos(null);
+        setHoveredScreenPos(null);
       }
       
       frameId = requestAnimationFrame(animate);
@@ -160,7 +375,7 @@ export function SkyCanvas({ starData, location, date, gridOptions, onViewChange,
     
     frameId = requestAnimationFrame(animate);
     return () => cancelAnimationFrame(frameId);
-  }, [renderStars, renderGrid, getConstellationLabels, gridOptions.showConstellations, constellationLabels.length, selectedStar, hoveredStar, projectStarToScreen]);
+  }, [renderStars, renderDeepSky, renderGrid, renderMinorBodies, renderBodies, renderSatellites, getConstellationLabels, gridOptions.showConstellations, constellationLabels.length, selected, hovered, getReticulePosition]);
 
   // Mouse drag for view rotation
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
@@ -169,22 +384,127 @@ export function SkyCanvas({ starData, location, date, gridOptions, onViewChange,
     lastMouseRef.current = { x: e.clientX, y: e.clientY };
   }, []);
 
-  // Find star under cursor
-  // Find star at screen position by projecting all visible stars and finding closest
-  const findStarAtPosition = useCallback((clientX: number, clientY: number): Star | null => {
+  // Find object under cursor
+  // Bodies are hit anywhere on their disk and take precedence over stars behind them
+  const findObjectAtPosition = useCallback((clientX: number, clientY: number): SkyObject | null => {
     const canvas = canvasRef.current;
-    if (!canvas || !starData) return null;
+    if (!canvas) return null;
     
     const rect = canvas.getBoundingClientRect();
     const clickX = clientX - rect.left;
     const clickY = clientY - rect.top;
+    const baseThreshold = 20; // pixels
+    
+    // CSS pixels per radian at the centre of the view
+    const pixelsPerRadian = rect.height / 2 / Math.tan(fov * Math.PI / 360);
+    for (const body of bodies) {
+      const pos = projectObjectToScreen(body);
+      if (!pos) continue;
+      
+      const radius = Math.max(baseThreshold, body.angularDiameter / 2 * Math.PI / 180 * pixelsPerRadian);
+      const dx = pos.x - clickX;
+      const dy = pos.y - clickY;
+      if (dx * dx + dy * dy < radius * radius) return body;
+    }
+    
+    // Satellites above the horizon, nearest first
+    let closestSatellite: Satellite | null = null;
+    let closestSatelliteDistSq = baseThreshold * baseThreshold;
+    for (const satellite of satellites) {
+      if (satellite.alt < 0) continue;
+      const pos = projectObjectToScreen(satellite);
+      if (!pos) continue;
+      
+      const dx = pos.x - clickX;
+      const dy = pos.y - clickY;
+      const distSq = dx * dx + dy * dy;
+      if (distSq < closestSatelliteDistSq) {
+        closestSatelliteDistSq = distSq;
+        closestSatellite = satellite;
+      }
+    }
+    if (closestSatellite) return closestSatellite;
+    
+    // Comets, asteroids and stars only when bright enough to be drawn
+    const drawnMagnitude = getLimitingMagnitude(sunAltitude, limitingMagnitude);
+    let closestMinor: SolarSystemBody | null = null;
+    let closestMinorDistSq = baseThreshold * baseThreshold;
+    for (const body of minorBodies) {
+      if (body.mag > drawnMagnitude) continue;
+      const pos = projectObjectToScreen(body);
+      if (!pos) continue;
+      
+      const dx = pos.x - clickX;
+      const dy = pos.y - clickY;
+      const distSq = dx * dx + dy * dy;
+      if (distSq < closestMinorDistSq) {
+        closestMinorDistSq = distSq;
+        closestMinor = body;
+      }
+    }
+    if (closestMinor) return closestMinor;
+    
+    // Deep-sky objects are hit on their symbol; those larger on screen also
+    // anywhere inside, unless a star there is hit first
+    const drawnDeepSky = getLimitingMagnitude(sunAltitude, deepSkyMagnitude);
+    let closestDeepSky: DeepSkyObject | null = null;
+    let closestDeepSkyDistSq = DEEP_SKY_SYMBOL_SIZE * DEEP_SKY_SYMBOL_SIZE;
+    let insideDeepSky: DeepSkyObject | null = null;
+    for (const object of deepSky) {
+      if (getDeepSkyMagnitude(object) > drawnDeepSky) continue;
+      const pos = projectObjectToScreen(object);
+      if (!pos) continue;
+      
+      const dx = pos.x - clickX;
+      const dy = pos.y - clickY;
+      const distSq = dx * dx + dy * dy;
+      if (distSq < closestDeepSkyDistSq) {
+        closestDeepSkyDistSq = distSq;
+        closestDeepSky = object;
+      }
+      
+      const radius = object.major / 120 * Math.PI / 180 * pixelsPerRadian;
+      if (distSq < radius * radius && (!insideDeepSky || object.major < insideDeepSky.major)) {
+        insideDeepSky = object;
+      }
+    }
+    if (closestDeepSky) return closestDeepSky;
+    
+    // Constellations are picked by their visible label
+    for (const label of constellationLabelsRef.current) {
+      if (label.distance >= LABEL_FADE_START) continue;
+      const labelWidth = label.name.length * 8.5;
+      if (clickX >= label.x && clickX <= label.x + labelWidth &&
+          clickY >= label.y - 2 && clickY <= label.y + 16) {
+        return label.constellation;
+      }
+    }
+    
+    if (!starData || starData.count === 0) return insideDeepSky;
+    
+    const cursor = getCoordsAtPosition(clientX, clientY);
+    if (!cursor) return insideDeepSky;
+    
+    // Only stars in a cone around the cursor can be hit: wide enough for the
+    // largest hit radius at the centre of the view (the projection only
+    // stretches away from it), with room for refraction squeezing the sky
+    // near the horizon
+    const maxThreshold = getStarHitRadius(starData.magnitudes[0]);
+    const searchRadius = 1.25 * maxThreshold / pixelsPerRadian * 180 / Math.PI + 0.1;
+    const candidates = findStarsNear(
+      starData,
+      equatorialToCartesian(cursor.j2000.ra, cursor.j2000.dec),
+      searchRadius,
+      getEpochYears(date)
+    );
     
     let closestStar: Star | null = null;
     let closestDistSq = Infinity;
-    const baseThreshold = 20; // pixels
     
-    for (const star of starData.stars) {
-      const pos = projectStarToScreen(star);
+    for (const star of candidates) {
+      const mag = getStarMagnitudeAt(star, date);
+      if (mag > drawnMagnitude) continue;
+      const pos = projectObjectToScreen(star);
       if (!pos) continue;
       
       const dx = pos.x - clickX;
@@ -192,8 +512,7 @@ export function SkyCanvas({ starData, location, date, gridOptions, onViewChange,
       const distSq = dx * dx + dy * dy;
       
       // Brighter stars get larger hit radius
-      const magFactor = 1 + Math.max(0, (4 - star.mag) * 0.5);
-      const threshold = baseThreshold * magFactor;
+      const threshold = getStarHitRadius(mag);
       const thresholdSq = threshold * threshold;
       
       if (distSq < thresholdSq && distSq < closestDistSq) {
@@ -202,8 +521,16 @@ export function SkyCanvas({ starData, location, date, gridOptions, onViewChange,
       }
     }
     
-    return closestStar;
-  }, [starData, projectStarToScreen]);
+    return closestStar ?? insideDeepSky;
+  }, [starData, bodies, minorBodies, satellites, deepSky, sunAltitude, limitingMagnitude, deepSkyMagnitude, fov, date, projectObjectToScreen, getCoordsAtPosition]);
+
+  // The info panel lets the mouse through, so it is found by its bounds
+  const isOverInfoPanel = useCallback((clientX: number, clientY: number): boolean => {
+    const panel = infoLayerRef.current?.firstElementChild;
+    if (!panel) return false;
+    const rect = panel.getBoundingClientRect();
+    return clientX >= rect.left && clientX <= rect.right && clientY >= rect.top && clientY <= rect.bottom;
+  }, []);
 
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
     mousePositionRef.current = { x: e.clientX, y: e.clientY };
@@ -221,7 +548,7 @@ export function SkyCanvas({ starData, location, date, gridOptions, onViewChange,
       
       // Update view angles
       const sensitivity = 0.005;
-      viewRef.current.yaw -= dx * sensitivity;
+      viewRef.current.yaw += dx * sensitivity;
       viewRef.current.pitch = Math.max(
         -Math.PI / 2 + 0.01,
         Math.min(Math.PI / 2 - 0.01, viewRef.current.pitch + dy * sensitivity)
@@ -230,33 +557,36 @@ export function SkyCanvas({ starData, location, date, gridOptions, onViewChange,
       setView(viewRef.current.yaw, viewRef.current.pitch);
       setViewState({ ...viewRef.current });
       onViewChange?.(viewRef.current.yaw, viewRef.current.pitch);
-      setHoveredStar(null);
-    } else {
-      // Check for star hover
-      const star = findStarAtPosition(e.clientX, e.clientY);
-      setHoveredStar(star);
+      setHoveredObject(null);
+    } else if (!isOverInfoPanel(e.clientX, e.clientY)) {
+      // Check for star or body hover; over the info panel the hover holds, so
+      // the copy buttons of a hovered star stay within reach
+      setHoveredObject(findObjectAtPosition(e.clientX, e.clientY));
     }
-  }, [isDragging, setView, onViewChange, findStarAtPosition]);
+    
+    setCursorCoords(getCoordsAtPosition(e.clientX, e.clientY));
+  }, [isDragging, setView, onViewChange, findObjectAtPosition, isOverInfoPanel, getCoordsAtPosition]);
 
   const handleMouseUp = useCallback((e: React.MouseEvent) => {
     setIsDragging(false);
     
-    // If it was a click (not a drag), select/deselect star
+    // If it was a click (not a drag), select/deselect star or body
     if (!didDragRef.current) {
-      const star = findStarAtPosition(e.clientX, e.clientY);
-      if (star) {
-        setSelectedStar(star);
-        setSelectedStarScreenPos(projectStarToScreen(star));
+      const object = findObjectAtPosition(e.clientX, e.clientY);
+      if (object) {
+        setSelectedObject(object);
+        setSelectedScreenPos(getReticulePosition(object));
       } else {
-        setSelectedStar(null);
-        setSelectedStarScreenPos(null);
+        setSelectedObject(null);
+        setSelectedScreenPos(null);
       }
     }
-  }, [findStarAtPosition, projectStarToScreen]);
+  }, [findObjectAtPosition, getReticulePosition]);
 
   const handleMouseLeave = useCallback(() => {
     setIsDragging(false);
-    setHoveredStar(null);
+    setHoveredObject(null);
+    setCursorCoords(null);
   }, []);
 
   // Touch support
@@ -275,7 +605,7 @@ export function SkyCanvas({ starData, location, date, gridOptions, onViewChange,
     lastMouseRef.current = { x: e.touches[0].clientX, y: e.touches[0].clientY };
     
     const sensitivity = 0.005;
-    viewRef.current.yaw -= dx * sensitivity;
+    viewRef.current.yaw += dx * sensitivity;
     viewRef.current.pitch = Math.max(
       -Math.PI / 2 + 0.01,
       Math.min(Math.PI / 2 - 0.01, viewRef.current.pitch + dy * sensitivity)
@@ -293,11 +623,12 @@ export function SkyCanvas({ starData, location, date, gridOptions, onViewChange,
   useEffect(() => {
     if (!navigateTarget) return;
     
-    // Convert RA/Dec to Alt/Az for current location and time
+    // Convert catalog RA/Dec to apparent Alt/Az for current location and time
     const horizontal = equatorialToHorizontal(
-      { ra: navigateTarget.ra, dec: navigateTarget.dec },
+      j2000ToApparent({ ra: navigateTarget.ra, dec: navigateTarget.dec }, date),
       location,
-      date
+      date,
+      refraction
     );
     
     // Convert to yaw/pitch (radians)
@@ -318,7 +649,7 @@ export function SkyCanvas({ starData, location, date, gridOptions, onViewChange,
     
     // Notify completion
     onNavigateComplete?.();
-  }, [navigateTarget, location, date, setView, onNavigateComplete]);
+  }, [navigateTarget, location, date, refraction, setView, onNavigateComplete]);
 
   // Block scroll wheel (no zoom)
   const handleWheel = useCallback((e: React.WheelEvent) => {
@@ -346,15 +677,11 @@ export function SkyCanvas({ starData, location, date, gridOptions, onViewChange,
       
       {/* Constellation labels */}
       {gridOptions.showConstellations && constellationLabels.map((label, i) => {
-        // Fade in as constellation approaches center (distance 0 = center, 1 = edge)
-        // Start fading in at distance 0.8, fully visible at 0.3
-        const fadeStart = 0.9;
-        const fadeEnd = 0.35;
-        const opacity = label.distance >= fadeStart 
+        const opacity = label.distance >= LABEL_FADE_START 
           ? 0 
-          : label.distance <= fadeEnd 
+          : label.distance <= LABEL_FADE_END 
             ? 1 
-            : 1 - (label.distance - fadeEnd) / (fadeStart - fadeEnd);
+            : 1 - (label.distance - LABEL_FADE_END) / (LABEL_FADE_START - LABEL_FADE_END);
         
         if (opacity <= 0.05) return null;
         
@@ -379,18 +706,43 @@ export function SkyCanvas({ starData, location, date, gridOptions, onViewChange,
         <span className="compass-direction">{azimuthToCardinal(viewAzimuth)}</span>
         <span className="compass-degrees">{viewAzimuth.toFixed(0)}°</span>
         <span className="compass-altitude">Alt: {viewAltitude.toFixed(0)}°</span>
+        {cursorCoords && (
+          <div className="compass-cursor">
+            <span>
+              Alt {cursorCoords.horizontal.alt.toFixed(1)}° Az {cursorCoords.horizontal.az.toFixed(1)}°
+            </span>
+            <span>
+              J2000 {formatRA(cursorCoords.j2000.ra)} {formatDec(cursorCoords.j2000.dec)}
+            </span>
+            <span>
+              Date {formatRA(cursorCoords.ofDate.ra)} {formatDec(cursorCoords.ofDate.dec)}
+            </span>
+          </div>
+        )}
       </div>
       
-      {/* Star info panel */}
-      <StarInfo star={hoveredStar || selectedStar} />
+      {/* Star info panel; the mouse passes through it except on the
+          identifiers, where copying neither drags nor selects */}
+      <div
+        ref={infoLayerRef}
+        className="star-info-layer"
+        onMouseDown={stopPropagation}
+        onMouseMove={stopPropagation}
+        onMouseUp={stopPropagation}
+        onTouchStart={stopPropagation}
+      >
+        <StarInfo object={hovered || selected} location={location} date={date} />
+      </div>
       
       {/* Hover reticule */}
-      {hoveredStar && hoveredStarScreenPos && hoveredStar !== selectedStar && (
+      {hovered && hoveredScreenPos && hovered !== selected && (
         <div 
           className="star-reticule hover"
           style={{
-            left: hoveredStarScreenPos.x,
-            top: hoveredStarScreenPos.y,
+            left: hoveredScreenPos.x,
+            top: hoveredScreenPos.y,
+            width: hoveredScreenPos.size,
+            height: hoveredScreenPos.size,
           }}
         >
           <div className="reticule-corner tl" />
@@ -401,12 +753,14 @@ export function SkyCanvas({ starData, location, date, gridOptions, onViewChange,
       )}
       
       {/* Selection reticule */}
-      {selectedStar && selectedStarScreenPos && (
+      {selected && selectedScreenPos && (
         <div 
           className="star-reticule selected"
           style={{
-            left: selectedStarScreenPos.x,
-            top: selectedStarScreenPos.y,
+            left: selectedScreenPos.x,
+            top: selectedScreenPos.y,
+            width: selectedScreenPos.size,
+            height: selectedScreenPos.size,
           }}
         >
           <div className="reticule-corner tl" />
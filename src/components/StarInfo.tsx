@@ -1,15 +1,61 @@
-import type { Star } from '../utils/starLoader';
+import { useMemo, useState } from 'react';
+import { getStarPositionAt, type Star } from '../utils/starLoader';
+import {
+  AU_KM,
+  azimuthToCardinal,
+  HORIZON_REFRACTION,
+  cartesianToEquatorial,
+  equatorialToEcliptic,
+  equatorialToGalactic,
+  equatorialToHorizontal,
+  getAirmass,
+  getEpochYears,
+  getHourAngle,
+  getRiseTransitSet,
+  j2000ToApparent,
+  type EquatorialCoords,
+  type GeoLocation,
+} from '../utils/astronomy';
+import { getBodyPosition, isSolarSystemBody, type SolarSystemBody } from '../utils/solarSystem';
+import { getSatellitePasses, isSatellite, type PassPoint, type Satellite } from '../utils/satellites';
+import { isConstellationCenter, type ConstellationCenter } from '../utils/constellationNames';
+import { DEEP_SKY_TYPE_NAMES, formatDeepSkySize, isDeepSkyObject, type DeepSkyObject } from '../utils/deepSky';
+import {
+  getMagnitudeAtPhase,
+  getVariableElements,
+  getVariablePhase,
+  VARIABLE_TYPE_NAMES,
+  type VariableStarElements,
+} from '../utils/variableStars';
+import { dateToJD } from '../utils/time';
 import './StarInfo.css';
 
+type InfoObject = Star | SolarSystemBody | ConstellationCenter | DeepSkyObject;
+
+const LIGHT_YEARS_PER_PARSEC = 3.26156;
+
 interface StarInfoProps {
-  star: Star | null;
+  object: InfoObject | Satellite | null;
+  location: GeoLocation;
+  date: Date;
 }
 
-export function StarInfo({ star }: StarInfoProps) {
-  if (!star) return null;
+export function StarInfo({ object, location, date }: StarInfoProps) {
+  if (!object) return null;
+  if (isSatellite(object)) return <SatelliteInfo satellite={object} location={location} date={date} />;
+  if (isSolarSystemBody(object)) return <BodyInfo body={object} location={location} date={date} />;
+  if (isDeepSkyObject(object)) return <DeepSkyInfo object={object} location={location} date={date} />;
+  if (isConstellationCenter(object)) {
+    return <ConstellationInfo constellation={object} location={location} date={date} />;
+  }
 
+  const star = object;
   const formatMagnitude = (mag: number) => mag.toFixed(2);
   
+  const variable = getVariableElements(star);
+  const phase = variable ? getVariablePhase(variable, dateToJD(date)) : 0;
+  
+  // Class guessed from the colour when the catalog has no spectral type
   const getSpectralType = (ci: number) => {
     if (ci < -0.3) return 'O (Blue)';
     if (ci < -0.02) return 'B (Blue-White)';
@@ -19,21 +65,39 @@ export function StarInfo({ star }: StarInfoProps) {
     if (ci < 1.4) return 'K (Orange)';
     return 'M (Red)';
   };
+  
+  const formatDistance = (parsecs: number) => {
+    const lightYears = parsecs * LIGHT_YEARS_PER_PARSEC;
+    const digits = parsecs < 10 ? 2 : parsecs < 100 ? 1 : 0;
+    return `${lightYears.toFixed(digits)} ly / ${parsecs.toFixed(digits)} pc`;
+  };
+  
+  const formatLuminosity = (lum: number) => {
+    if (lum >= 10000 || lum < 0.001) return `${lum.toExponential(1)} L☉`;
+    return `${lum.toPrecision(3)} L☉`;
+  };
+  
+  // Catalog names for the star, each with the text that gets copied
+  const identifiers: [label: string, value: string][] = [];
+  if (star.bayer && star.constellation) identifiers.push(['Bayer', `${star.bayer} ${star.constellation}`]);
+  if (star.flam && star.constellation) identifiers.push(['Flamsteed', `${star.flam} ${star.constellation}`]);
+  if (star.hip) identifiers.push(['Hipparcos', `HIP ${star.hip}`]);
+  if (star.hd) identifiers.push(['Henry Draper', `HD ${star.hd}`]);
+  if (star.hr) identifiers.push(['Bright Star', `HR ${star.hr}`]);
+  if (star.gl) identifiers.push(['Gliese', star.gl]);
+  if (!star.designation) {
+    identifiers.push(['HYG', `HYG ${star.id}`]);
+  } else if (!identifiers.some(([, value]) => value === star.designation)) {
+    identifiers.push(['Catalog', star.designation]);
+  }
 
   return (
     <div className="star-info-panel">
       <div className="star-info-header">
-        {star.proper || star.bayer || `HYG ${star.id}`}
+        {star.proper || star.bayer || star.designation || `HYG ${star.id}`}
       </div>
       
       <div className="star-info-rows">
-        {star.proper && star.bayer && (
-          <div className="star-info-row">
-            <span className="star-info-label">Designation</span>
-            <span className="star-info-value">{star.bayer}</span>
-          </div>
-        )}
-        
         {star.constellation && (
           <div className="star-info-row">
             <span className="star-info-label">Constellation</span>
@@ -42,22 +106,555 @@ export function StarInfo({ star }: StarInfoProps) {
         )}
         
         <div className="star-info-row">
-          <span className="star-info-label">Magnitude</span>
-          <span className="star-info-value">{formatMagnitude(star.mag)}</span>
+          <span className="star-info-label">Magnitude{star.band && ` (${star.band})`}</span>
+          <span className="star-info-value">
+            {formatMagnitude(variable ? getMagnitudeAtPhase(variable, phase) : star.mag)}
+          </span>
         </div>
         
+        {star.absmag !== undefined && (
+          <div className="star-info-row">
+            <span className="star-info-label">Abs. Magnitude</span>
+            <span className="star-info-value">{formatMagnitude(star.absmag)}</span>
+          </div>
+        )}
+        
         <div className="star-info-row">
           <span className="star-info-label">Spectral</span>
-          <span className="star-info-value">{getSpectralType(star.ci)}</span>
+          <span className="star-info-value">{star.spect ?? getSpectralType(star.ci)}</span>
         </div>
         
+        {star.lum !== undefined && (
+          <div className="star-info-row">
+            <span className="star-info-label">Luminosity</span>
+            <span className="star-info-value">{formatLuminosity(star.lum)}</span>
+          </div>
+        )}
+        
+        {star.dist !== undefined && (
+          <div className="star-info-row">
+            <span className="star-info-label">Distance</span>
+            <span className="star-info-value">{formatDistance(star.dist)}</span>
+          </div>
+        )}
+        
         <div className="star-info-row">
           <span className="star-info-label">RA / Dec</span>
           <span className="star-info-value">
             {star.ra.toFixed(2)}h / {star.dec.toFixed(1)}°
           </span>
         </div>
+        
+        <FrameCoordinates coords={star} date={date} />
+      </div>
+      
+      {variable ? (
+        <VariableInfo elements={variable} phase={phase} />
+      ) : (star.variable || star.varMin !== undefined) && (
+        <div className="star-info-rows star-info-section">
+          <div className="star-info-row">
+            <span className="star-info-label">Variable</span>
+            <span className="star-info-value">{star.variable ?? 'Yes'}</span>
+          </div>
+          {star.varMin !== undefined && star.varMax !== undefined && (
+            <div className="star-info-row">
+              <span className="star-info-label">Range</span>
+              <span className="star-info-value">
+                {formatMagnitude(Math.min(star.varMin, star.varMax))}–{formatMagnitude(Math.max(star.varMin, star.varMax))}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+      
+      <StarIdentifiers identifiers={identifiers} />
+      
+      <VisibilityInfo object={star} location={location} date={date} />
+    </div>
+  );
+}
+
+// Sparkline size in SVG units, and the light curve samples across it
+const LIGHT_CURVE_WIDTH = 160;
+const LIGHT_CURVE_HEIGHT = 32;
+const LIGHT_CURVE_SAMPLES = 120;
+
+/**
+ * Type, range and period of a variable star, with its light curve over one
+ * period and the current phase marked. Brighter is up; eclipsing binaries
+ * are drawn with primary minimum in the middle.
+ */
+function VariableInfo({ elements, phase }: { elements: VariableStarElements; phase: number }) {
+  const start = elements.type === 'eclipsing' ? 0.5 : 0;
+  const lowest = elements.minMag + (elements.minMag - elements.maxMag) * 0.05;
+  const highest = elements.maxMag - (elements.minMag - elements.maxMag) * 0.05;
+  
+  const toX = (t: number) => t * LIGHT_CURVE_WIDTH;
+  const toY = (mag: number) => (mag - highest) / (lowest - highest) * LIGHT_CURVE_HEIGHT;
+  
+  const curve = Array.from({ length: LIGHT_CURVE_SAMPLES + 1 }, (_, i) => {
+    const t = i / LIGHT_CURVE_SAMPLES;
+    return `${toX(t).toFixed(1)},${toY(getMagnitudeAtPhase(elements, (start + t) % 1)).toFixed(1)}`;
+  }).join(' ');
+  
+  const markerX = toX((phase - start + 1) % 1);
+  const markerY = toY(getMagnitudeAtPhase(elements, phase));
+  const formatPeriod = (days: number) => `${days.toFixed(days < 10 ? 3 : 0)} days`;
+
+  return (
+    <div className="star-info-rows star-info-section">
+      <div className="star-info-row">
+        <span className="star-info-label">Variable</span>
+        <span className="star-info-value">{VARIABLE_TYPE_NAMES[elements.type]}</span>
+      </div>
+      <div className="star-info-row">
+        <span className="star-info-label">Range</span>
+        <span className="star-info-value">
+          {elements.maxMag.toFixed(2)}–{elements.minMag.toFixed(2)}
+        </span>
+      </div>
+      <div className="star-info-row">
+        <span className="star-info-label">Period / Phase</span>
+        <span className="star-info-value">
+          {elements.type === 'semiregular' && '~'}{formatPeriod(elements.period)} / {phase.toFixed(2)}
+        </span>
+      </div>
+      <svg
+        className="star-info-lightcurve"
+        viewBox={`0 0 ${LIGHT_CURVE_WIDTH} ${LIGHT_CURVE_HEIGHT}`}
+      >
+        <polyline points={curve} />
+        <line x1={markerX} x2={markerX} y1={0} y2={LIGHT_CURVE_HEIGHT} />
+        <circle cx={markerX} cy={markerY} r={2.5} />
+      </svg>
+    </div>
+  );
+}
+
+/**
+ * Cross-identifications, each with a button copying it to the clipboard
+ */
+function StarIdentifiers({ identifiers }: { identifiers: [label: string, value: string][] }) {
+  const [copied, setCopied] = useState<string | null>(null);
+  
+  const copy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(value);
+      setTimeout(() => setCopied(current => (current === value ? null : current)), 1500);
+    } catch (e) {
+      console.warn('Failed to copy to clipboard:', e);
+    }
+  };
+  
+  return (
+    <div className="star-info-rows star-info-section star-info-ids">
+      {identifiers.map(([label, value]) => (
+        <div key={label} className="star-info-row">
+          <span className="star-info-label">{label}</span>
+          <span className="star-info-value">
+            {value}
+            <button
+              className="star-info-copy"
+              onClick={() => copy(value)}
+              title={`Copy ${value}`}
+            >
+              {copied === value ? '✓' : '⧉'}
+            </button>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface DetailProps {
+  location: GeoLocation;
+  date: Date;
+}
+
+function ConstellationInfo({ constellation, location, date }: DetailProps & { constellation: ConstellationCenter }) {
+  return (
+    <div className="star-info-panel">
+      <div className="star-info-header">{constellation.name}</div>
+      
+      <div className="star-info-rows">
+        <div className="star-info-row">
+          <span className="star-info-label">Abbreviation</span>
+          <span className="star-info-value">{constellation.id}</span>
+        </div>
+        
+        <div className="star-info-row">
+          <span className="star-info-label">RA / Dec</span>
+          <span className="star-info-value">
+            {constellation.ra.toFixed(2)}h / {constellation.dec.toFixed(1)}°
+          </span>
+        </div>
+        
+        <FrameCoordinates coords={constellation} date={date} />
+      </div>
+      
+      <VisibilityInfo object={constellation} location={location} date={date} />
+    </div>
+  );
+}
+
+function DeepSkyInfo({ object, location, date }: DetailProps & { object: DeepSkyObject }) {
+  return (
+    <div className="star-info-panel">
+      <div className="star-info-header">
+        {object.name ? `${object.name} (${object.id})` : object.id}
+      </div>
+      
+      <div className="star-info-rows">
+        <div className="star-info-row">
+          <span className="star-info-label">Type</span>
+          <span className="star-info-value">{DEEP_SKY_TYPE_NAMES[object.type]}</span>
+        </div>
+        
+        {object.designations.length > 1 && (
+          <div className="star-info-row">
+            <span className="star-info-label">Catalog</span>
+            <span className="star-info-value">{object.designations.slice(1).join(', ')}</span>
+          </div>
+        )}
+        
+        {object.mag !== null && (
+          <div className="star-info-row">
+            <span className="star-info-label">Magnitude</span>
+            <span className="star-info-value">{object.mag.toFixed(1)}</span>
+          </div>
+        )}
+        
+        <div className="star-info-row">
+          <span className="star-info-label">Size</span>
+          <span className="star-info-value">
+            {formatDeepSkySize(object)}
+            {object.minor !== object.major && ` at ${object.pa}°`}
+          </span>
+        </div>
+        
+        <div className="star-info-row">
+          <span className="star-info-label">RA / Dec</span>
+          <span className="star-info-value">
+            {object.ra.toFixed(2)}h / {object.dec.toFixed(1)}°
+          </span>
+        </div>
+        
+        <FrameCoordinates coords={object} date={date} />
+      </div>
+      
+      <VisibilityInfo object={object} location={location} date={date} />
+    </div>
+  );
+}
+
+function BodyInfo({ body, location, date }: DetailProps & { body: SolarSystemBody }) {
+  // Eight named phases, each centred on its quarter or half-quarter of the lunation
+  const getPhaseName = (age: number) => {
+    const names = [
+      'New Moon', 'Waxing Crescent', 'First Quarter', 'Waxing Gibbous',
+      'Full Moon', 'Waning Gibbous', 'Last Quarter', 'Waning Crescent',
+    ];
+    return names[Math.round(age / 29.530588853 * 8) % 8];
+  };
+  
+  // Nearby bodies read better in kilometres
+  const formatDistance = (au: number) => {
+    if (au < 0.01) return `${Math.round(au * AU_KM).toLocaleString()} km`;
+    return `${au.toFixed(3)} AU`;
+  };
+  
+  const formatDiameter = (degrees: number) => {
+    if (degrees < 1 / 60) return `${(degrees * 3600).toFixed(1)}″`;
+    return `${(degrees * 60).toFixed(1)}′`;
+  };
+
+  return (
+    <div className="star-info-panel">
+      <div className="star-info-header">{body.name}</div>
+      
+      <div className="star-info-rows">
+        {body.age !== undefined && (
+          <div className="star-info-row">
+            <span className="star-info-label">Phase</span>
+            <span className="star-info-value">{getPhaseName(body.age)}</span>
+          </div>
+        )}
+        
+        {body.illumination !== undefined && (
+          <div className="star-info-row">
+            <span className="star-info-label">Illumination</span>
+            <span className="star-info-value">{(body.illumination * 100).toFixed(0)}%</span>
+          </div>
+        )}
+        
+        {body.elongation !== undefined && (
+          <div className="star-info-row">
+            <span className="star-info-label">Elongation</span>
+            <span className="star-info-value">{body.elongation.toFixed(1)}°</span>
+          </div>
+        )}
+        
+        {body.age !== undefined && (
+          <div className="star-info-row">
+            <span className="star-info-label">Age</span>
+            <span className="star-info-value">{body.age.toFixed(1)} days</span>
+          </div>
+        )}
+        
+        <div className="star-info-row">
+          <span className="star-info-label">Magnitude</span>
+          <span className="star-info-value">{body.mag.toFixed(2)}</span>
+        </div>
+
+        {body.orbit && (
+          <div className="star-info-row">
+            <span className="star-info-label">{body.orbit.type === 'comet' ? 'g / k' : 'H / G'}</span>
+            <span className="star-info-value">
+              {body.orbit.absoluteMagnitude.toFixed(1)} / {body.orbit.slope.toFixed(2)}
+            </span>
+          </div>
+        )}
+
+        <div className="star-info-row">
+          <span className="star-info-label">Distance</span>
+          <span className="star-info-value">{formatDistance(body.distance)}</span>
+        </div>
+        
+        {body.angularDiameter > 0 && (
+          <div className="star-info-row">
+            <span className="star-info-label">Diameter</span>
+            <span className="star-info-value">{formatDiameter(body.angularDiameter)}</span>
+          </div>
+        )}
+        
+        <div className="star-info-row">
+          <span className="star-info-label">RA / Dec</span>
+          <span className="star-info-value">
+            {body.ra.toFixed(2)}h / {body.dec.toFixed(1)}°
+          </span>
+        </div>
+        
+        <FrameCoordinates coords={body} date={date} />
+      </div>
+      
+      <VisibilityInfo object={body} location={location} date={date} />
+    </div>
+  );
+}
+
+function SatelliteInfo({ satellite, location, date }: DetailProps & { satellite: Satellite }) {
+  // Passes are searched from the start of the current minute so playback doesn't redo them every frame
+  const minute = Math.floor(date.getTime() / 60000);
+  const passes = useMemo(
+    () => getSatellitePasses(satellite.record, location, new Date(minute * 60000)),
+    [satellite.record, location, minute]
+  );
+  
+  const formatTime = (time: Date) => time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const formatPoint = (point: PassPoint) =>
+    `${formatTime(point.date)} ${azimuthToCardinal(point.az)}${point.sunlit ? '' : ' (shadow)'}`;
+
+  return (
+    <div className="star-info-panel">
+      <div className="star-info-header">{satellite.name}</div>
+      
+      <div className="star-info-rows">
+        <div className="star-info-row">
+          <span className="star-info-label">NORAD</span>
+          <span className="star-info-value">{satellite.catalogNumber}</span>
+        </div>
+        
+        <div className="star-info-row">
+          <span className="star-info-label">Alt / Az</span>
+          <span className="star-info-value">
+            {satellite.alt.toFixed(1)}° / {satellite.az.toFixed(1)}°
+          </span>
+        </div>
+        
+        <div className="star-info-row">
+          <span className="star-info-label">Range</span>
+          <span className="star-info-value">{Math.round(satellite.range).toLocaleString()} km</span>
+        </div>
+        
+        <div className="star-info-row">
+          <span className="star-info-label">Height</span>
+          <span className="star-info-value">{Math.round(satellite.height).toLocaleString()} km</span>
+        </div>
+        
+        <div className="star-info-row">
+          <span className="star-info-label">Illumination</span>
+          <span className="star-info-value">{satellite.sunlit ? 'Sunlit' : 'Eclipsed'}</span>
+        </div>
+      </div>
+      
+      <div className="star-info-rows star-info-section">
+        {passes.length === 0 && (
+          <div className="star-info-row">
+            <span className="star-info-label">Passes</span>
+            <span className="star-info-value">None in 24h</span>
+          </div>
+        )}
+        {passes.map(pass => (
+          <div key={pass.start.date.getTime()} className="star-info-pass">
+            <div className="star-info-row">
+              <span className="star-info-label">{pass.visible ? 'Visible pass' : 'Pass'}</span>
+              <span className="star-info-value">
+                max {pass.max.alt.toFixed(0)}° at {formatTime(pass.max.date)}
+              </span>
+            </div>
+            <div className="star-info-row">
+              <span className="star-info-label">From / To</span>
+              <span className="star-info-value">
+                {formatPoint(pass.start)} → {formatPoint(pass.end)}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Ecliptic (of date) and galactic coordinates of a J2000 position
+ */
+function FrameCoordinates({ coords, date }: { coords: EquatorialCoords; date: Date }) {
+  const ecliptic = equatorialToEcliptic(j2000ToApparent(coords, date), date);
+  const galactic = equatorialToGalactic(coords);
+  
+  return (
+    <>
+      <div className="star-info-row">
+        <span className="star-info-label">Ecl. λ / β</span>
+        <span className="star-info-value">
+          {ecliptic.lon.toFixed(1)}° / {ecliptic.lat.toFixed(1)}°
+        </span>
       </div>
+      
+      <div className="star-info-row">
+        <span className="star-info-label">Gal. l / b</span>
+        <span className="star-info-value">
+          {galactic.l.toFixed(1)}° / {galactic.b.toFixed(1)}°
+        </span>
+      </div>
+    </>
+  );
+}
+
+/**
+ * How to follow an object through time for rise and set: its J2000 position
+ * at any instant, and the altitude of its centre when its upper limb touches
+ * the refracted horizon
+ */
+function getTracking(object: InfoObject, location: GeoLocation): {
+  getPosition: (date: Date) => EquatorialCoords;
+  horizonAltitude: number;
+} {
+  if (isSolarSystemBody(object)) {
+    return {
+      getPosition: date => getBodyPosition(object, date, location),
+      horizonAltitude: -HORIZON_REFRACTION - object.angularDiameter / 2,
+    };
+  }
+  if (isConstellationCenter(object) || isDeepSkyObject(object)) {
+    return { getPosition: () => object, horizonAltitude: -HORIZON_REFRACTION };
+  }
+  return {
+    getPosition: date => {
+      const [x, y, z] = getStarPositionAt(object, getEpochYears(date));
+      return cartesianToEquatorial(x, y, z);
+    },
+    horizonAltitude: -HORIZON_REFRACTION,
+  };
+}
+
+function VisibilityInfo({ object, location, date }: DetailProps & { object: InfoObject }) {
+  const visibility = useMemo(() => {
+    const { getPosition, horizonAltitude } = getTracking(object, location);
+    const apparent = j2000ToApparent(getPosition(date), date);
+    return {
+      horizontal: equatorialToHorizontal(apparent, location, date),
+      hourAngle: getHourAngle(apparent, location, date),
+      events: getRiseTransitSet(getPosition, location, date, horizonAltitude),
+    };
+  }, [object, location, date]);
+  
+  const { horizontal, hourAngle, events } = visibility;
+  const airmass = getAirmass(horizontal.alt);
+  
+  const formatHourAngle = (hours: number) => {
+    const totalMinutes = Math.round(Math.abs(hours) * 60);
+    const sign = hours < 0 ? '-' : '+';
+    return `${sign}${Math.floor(totalMinutes / 60)}h ${String(totalMinutes % 60).padStart(2, '0')}m`;
+  };
+  
+  // Local clock time, flagged when the event falls on another day
+  const formatEvent = (event: Date | null) => {
+    if (!event) return '—';
+    const time = event.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const dayOffset = Math.round(
+      (new Date(event).setHours(0, 0, 0, 0) - new Date(date).setHours(0, 0, 0, 0)) / 86400000
+    );
+    if (dayOffset === 0) return time;
+    return `${time} (${dayOffset > 0 ? '+' : ''}${dayOffset}d)`;
+  };
+
+  return (
+    <div className="star-info-rows star-info-section">
+      <div className="star-info-row">
+        <span className="star-info-label">Alt / Az</span>
+        <span className="star-info-value">
+          {horizontal.alt.toFixed(1)}° / {horizontal.az.toFixed(1)}°
+        </span>
+      </div>
+      
+      <div className="star-info-row">
+        <span className="star-info-label">Hour Angle</span>
+        <span className="star-info-value">{formatHourAngle(hourAngle)}</span>
+      </div>
+      
+      <div className="star-info-row">
+        <span className="star-info-label">Airmass</span>
+        <span className="star-info-value">{airmass !== null ? airmass.toFixed(2) : '—'}</span>
+      </div>
+      
+      {events.status === 'normal' ? (
+        <>
+          <div className="star-info-row">
+            <span className="star-info-label">Rise</span>
+            <span className="star-info-value">{formatEvent(events.rise)}</span>
+          </div>
+          <div className="star-info-row">
+            <span className="star-info-label">Transit</span>
+            <span className="star-info-value">
+              {formatEvent(events.transit)} ({events.transitAltitude.toFixed(0)}°)
+            </span>
+          </div>
+          <div className="star-info-row">
+            <span className="star-info-label">Set</span>
+            <span className="star-info-value">{formatEvent(events.set)}</span>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="star-info-row">
+            <span className="star-info-label">Rise / Set</span>
+            <span className="star-info-value">
+              {events.status === 'circumpolar' ? 'Circumpolar' : 'Never rises'}
+            </span>
+          </div>
+          {events.status === 'circumpolar' && (
+            <div className="star-info-row">
+              <span className="star-info-label">Transit</span>
+              <span className="star-info-value">
+                {formatEvent(events.transit)} ({events.transitAltitude.toFixed(0)}°)
+              </span>
+            </div>
+          )}
+        </>
+      )}
     </div>
   );
 }
@@ -1,41 +1,101 @@
 import { useState, useCallback, useEffect } from 'react';
+import { getTwilightPhase, type TwilightPhase } from '../utils/astronomy';
+import {
+  MONTH_NAMES,
+  clampTime,
+  dateToJD,
+  formatCalendarDate,
+  getCalendar,
+  getDeltaTAt,
+  getLocalCalendarDate,
+  isValidCalendarDate,
+  localCalendarDateToDate,
+  type Calendar,
+} from '../utils/time';
 import './TimePicker.css';
 
+const TWILIGHT_LABELS: Record<TwilightPhase, string> = {
+  day: 'Day',
+  civil: 'Civil Twilight',
+  nautical: 'Nautical Twilight',
+  astronomical: 'Astro Twilight',
+  night: 'Night',
+};
+
+type Era = 'CE' | 'BCE';
+
+// Calendar used to read and enter dates; 'auto' switches to Gregorian on 1582 Oct 15
+type CalendarChoice = 'auto' | Calendar;
+
+function formatDeltaT(seconds: number): string {
+  const abs = Math.abs(seconds);
+  const sign = seconds < 0 ? '-' : '';
+  if (abs < 120) return `${sign}${abs.toFixed(0)}s`;
+  if (abs < 7200) return `${sign}${Math.floor(abs / 60)}m ${Math.round(abs % 60)}s`;
+  return `${sign}${Math.floor(abs / 3600)}h ${Math.round((abs % 3600) / 60)}m`;
+}
+
 interface TimePickerProps {
   date: Date;
   onDateChange: (date: Date) => void;
   isRealtime: boolean;
   onRealtimeChange: (realtime: boolean) => void;
+  sunAltitude?: number;  // Solar altitude in degrees at the observer
 }
 
-export function TimePicker({ date, onDateChange, isRealtime, onRealtimeChange }: TimePickerProps) {
+export function TimePicker({ date, onDateChange, isRealtime, onRealtimeChange, sunAltitude }: TimePickerProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const [dateInput, setDateInput] = useState('');
+  const [yearInput, setYearInput] = useState('');
+  const [eraInput, setEraInput] = useState<Era>('CE');
+  const [monthInput, setMonthInput] = useState('1');
+  const [dayInput, setDayInput] = useState('');
   const [timeInput, setTimeInput] = useState('');
+  const [calendarChoice, setCalendarChoice] = useState<CalendarChoice>('auto');
+
+  const calendar = calendarChoice === 'auto' ? undefined : calendarChoice;
 
   useEffect(() => {
-    // Format date for input
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    const hours = String(date.getHours()).padStart(2, '0');
-    const minutes = String(date.getMinutes()).padStart(2, '0');
+    // Format date for input, in the chosen calendar
+    const local = getLocalCalendarDate(date, calendar);
+    const hours = String(local.hour).padStart(2, '0');
+    const minutes = String(local.minute).padStart(2, '0');
     
-    setDateInput(`${year}-${month}-${day}`);
+    setYearInput(String(local.year > 0 ? local.year : 1 - local.year));
+    setEraInput(local.year > 0 ? 'CE' : 'BCE');
+    setMonthInput(String(local.month));
+    setDayInput(String(local.day));
     setTimeInput(`${hours}:${minutes}`);
-  }, [date]);
+  }, [date, calendar]);
 
   const handleApply = useCallback(() => {
-    const [year, month, day] = dateInput.split('-').map(Number);
+    const year = Number(yearInput);
+    const month = Number(monthInput);
+    const day = Number(dayInput);
     const [hours, minutes] = timeInput.split(':').map(Number);
     
-    if (!isNaN(year) && !isNaN(month) && !isNaN(day) && !isNaN(hours) && !isNaN(minutes)) {
-      const newDate = new Date(year, month - 1, day, hours, minutes);
-      onDateChange(newDate);
-      onRealtimeChange(false);
-      setIsOpen(false);
+    if (!Number.isInteger(year) || year < 1 || isNaN(hours) || isNaN(minutes)) {
+      return;
     }
-  }, [dateInput, timeInput, onDateChange, onRealtimeChange]);
+    
+    // Days past the end of the month, or skipped by the 1582 switch, would
+    // roll into other dates
+    const local = {
+      year: eraInput === 'BCE' ? 1 - year : year,
+      month,
+      day,
+      hour: hours,
+      minute: minutes,
+      second: 0,
+    };
+    if (!isValidCalendarDate(local, calendar)) return;
+    
+    const newDate = localCalendarDateToDate(local, calendar);
+    if (isNaN(newDate.getTime())) return;
+    
+    onDateChange(newDate);
+    onRealtimeChange(false);
+    setIsOpen(false);
+  }, [yearInput, eraInput, monthInput, dayInput, timeInput, calendar, onDateChange, onRealtimeChange]);
 
   const handleNow = useCallback(() => {
     onDateChange(new Date());
@@ -44,7 +104,7 @@ export function TimePicker({ date, onDateChange, isRealtime, onRealtimeChange }:
   }, [onDateChange, onRealtimeChange]);
 
   const handleTimeShift = useCallback((hours: number) => {
-    const newDate = new Date(date.getTime() + hours * 60 * 60 * 1000);
+    const newDate = new Date(clampTime(date.getTime() + hours * 60 * 60 * 1000));
     onDateChange(newDate);
     onRealtimeChange(false);
   }, [date, onDateChange, onRealtimeChange]);
@@ -53,10 +113,13 @@ export function TimePicker({ date, onDateChange, isRealtime, onRealtimeChange }:
     return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  // Calendar in civil use at the time, so historical dates read as they were recorded
   const formatDate = (d: Date) => {
-    return d.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+    return formatCalendarDate(getLocalCalendarDate(d));
   };
 
+  const twilight = sunAltitude !== undefined ? getTwilightPhase(sunAltitude) : null;
+
   return (
     <div className="time-picker">
       <button 
@@ -70,6 +133,14 @@ export function TimePicker({ date, onDateChange, isRealtime, onRealtimeChange }:
           {formatDate(date)}
         </span>
         {isRealtime && <span className="realtime-badge">LIVE</span>}
+        {twilight && (
+          <span
+            className={`twilight-badge ${twilight}`}
+            title={`Sun altitude ${sunAltitude!.toFixed(1)}°`}
+          >
+            {TWILIGHT_LABELS[twilight]}
+          </span>
+        )}
       </button>
 
       {isOpen && (
@@ -82,11 +153,51 @@ export function TimePicker({ date, onDateChange, isRealtime, onRealtimeChange }:
 
             <div className="time-inputs">
               <div className="time-field">
-                <label>Date</label>
+                <label>Year</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={yearInput}
+                  onChange={e => setYearInput(e.target.value)}
+                />
+              </div>
+              <div className="time-field">
+                <label>Era</label>
+                <select value={eraInput} onChange={e => setEraInput(e.target.value as Era)}>
+                  <option value="CE">CE</option>
+                  <option value="BCE">BCE</option>
+                </select>
+              </div>
+              <div className="time-field">
+                <label>Calendar</label>
+                <select
+                  value={calendarChoice}
+                  onChange={e => setCalendarChoice(e.target.value as CalendarChoice)}
+                >
+                  <option value="auto">Auto</option>
+                  <option value="julian">Julian</option>
+                  <option value="gregorian">Gregorian</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="time-inputs">
+              <div className="time-field">
+                <label>Month</label>
+                <select value={monthInput} onChange={e => setMonthInput(e.target.value)}>
+                  {MONTH_NAMES.map((name, i) => (
+                    <option key={name} value={i + 1}>{name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="time-field">
+                <label>Day</label>
                 <input
-                  type="date"
-                  value={dateInput}
-                  onChange={e => setDateInput(e.target.value)}
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={dayInput}
+                  onChange={e => setDayInput(e.target.value)}
                 />
               </div>
               <div className="time-field">
@@ -99,6 +210,18 @@ export function TimePicker({ date, onDateChange, isRealtime, onRealtimeChange }:
               </div>
             </div>
 
+            <div className="calendar-info">
+              {getCalendar(dateToJD(date)) === 'julian' ? 'Julian' : 'Gregorian'} calendar
+              {' · '}ΔT {formatDeltaT(getDeltaTAt(date))}
+            </div>
+
+            {twilight && (
+              <div className="twilight-info">
+                <span className={`twilight-badge ${twilight}`}>{TWILIGHT_LABELS[twilight]}</span>
+                <span className="twilight-altitude">Sun {sunAltitude!.toFixed(1)}°</span>
+              </div>
+            )}
+
             <div className="time-actions">
               <button className="apply-button" onClick={handleApply}>
                 Apply
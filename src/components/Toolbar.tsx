@@ -1,20 +1,34 @@
+import { useRef } from 'react';
 import './Toolbar.css';
 
 export interface ToolbarOptions {
   showAltAzGrid: boolean;
   showEquatorialGrid: boolean;
+  showEcliptic: boolean;
+  showEclipticGrid: boolean;
+  showGalacticEquator: boolean;
+  showGalacticGrid: boolean;
   showConstellations: boolean;
+  showDeepSky: boolean;
   showHorizon: boolean;
   showCardinals: boolean;
   lightMode: boolean;
   nightMode: boolean;
   pixelStars: boolean;
+  refraction: boolean;
+  showColorLegend: boolean;
 }
 
 interface ToolbarProps {
   options: ToolbarOptions;
   onOptionsChange: (options: ToolbarOptions) => void;
   onSearch: () => void;
+  onEclipses: () => void;
+  onEvents: () => void;
+  onPlanner: () => void;
+  onLoadMinorBodies: (file: File) => void;
+  onLoadSatellites: (file: File) => void;
+  onLoadStarCatalog: (file: File) => void;
 }
 
 interface ToolbarButton {
@@ -29,12 +43,62 @@ const buttons: ToolbarButton[] = [
   { key: 'pixelStars', icon: '▪', label: 'Pixel Stars' },
   { key: 'showAltAzGrid', icon: '◎', label: 'Alt/Az Grid' },
   { key: 'showEquatorialGrid', icon: '⊕', label: 'RA/Dec Grid' },
+  { key: 'showEcliptic', icon: '♈︎', label: 'Ecliptic' },
+  { key: 'showEclipticGrid', icon: '◐', label: 'Ecliptic Grid' },
+  { key: 'showGalacticEquator', icon: '∿', label: 'Galactic Equator' },
+  { key: 'showGalacticGrid', icon: '◑', label: 'Galactic Grid' },
   { key: 'showConstellations', icon: '✧', label: 'Constellations' },
+  { key: 'showDeepSky', icon: '⬭', label: 'Deep-Sky Objects' },
   { key: 'showHorizon', icon: '―', label: 'Horizon Line' },
   { key: 'showCardinals', icon: '✦', label: 'Cardinal Points' },
+  { key: 'refraction', icon: '≈', label: 'Atmospheric Refraction' },
+  { key: 'showColorLegend', icon: '🌡', label: 'Star Colour Legend' },
 ];
 
-export function Toolbar({ options, onOptionsChange, onSearch }: ToolbarProps) {
+// Opens a local text file through a hidden file input
+function FileButton({ icon, title, accept = '.txt,.dat,.tle,.DAT', onLoad }: {
+  icon: string;
+  title: string;
+  accept?: string;
+  onLoad: (file: File) => void;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <button
+        className="toolbar-btn"
+        onClick={() => inputRef.current?.click()}
+        title={title}
+      >
+        {icon}
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept}
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onLoad(file);
+          e.target.value = '';  // Allow reloading the same file
+        }}
+      />
+    </>
+  );
+}
+
+export function Toolbar({
+  options,
+  onOptionsChange,
+  onSearch,
+  onEclipses,
+  onEvents,
+  onPlanner,
+  onLoadMinorBodies,
+  onLoadSatellites,
+  onLoadStarCatalog,
+}: ToolbarProps) {
   const toggle = (key: keyof ToolbarOptions) => {
     onOptionsChange({ ...options, [key]: !options[key] });
   };
@@ -48,6 +112,43 @@ export function Toolbar({ options, onOptionsChange, onSearch }: ToolbarProps) {
       >
         🔍
       </button>
+      <button
+        className="toolbar-btn"
+        onClick={onEclipses}
+        title="Eclipses"
+      >
+        🌘
+      </button>
+      <button
+        className="toolbar-btn"
+        onClick={onEvents}
+        title="Conjunctions & Occultations"
+      >
+        ☌
+      </button>
+      <button
+        className="toolbar-btn"
+        onClick={onPlanner}
+        title="Tonight's Best Targets"
+      >
+        🔭
+      </button>
+      <FileButton
+        icon="☄"
+        title="Load Comets & Asteroids (MPCORB / CometEls)"
+        onLoad={onLoadMinorBodies}
+      />
+      <FileButton
+        icon="🛰"
+        title="Load Satellites (TLE)"
+        onLoad={onLoadSatellites}
+      />
+      <FileButton
+        icon="★"
+        title="Load Star Catalog (HYG, Yale BSC, Gaia DR3 or CSV)"
+        accept=".csv,.tsv,.txt"
+        onLoad={onLoadStarCatalog}
+      />
       <div className="toolbar-divider" />
       {buttons.map(({ key, icon, label }) => (
         <button
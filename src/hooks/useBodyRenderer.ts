@@ -0,0 +1,361 @@
+/**
+ * WebGL Solar System Body Renderer
+ * Renders the Sun, Moon and planets as disks sized to their true angular diameter,
+ * shading the phase of bodies lit by the Sun
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import {
+  getCelestialRotationMatrix,
+  getRefractionScale,
+  type AtmosphereConditions,
+  type GeoLocation,
+  type Vec3,
+} from '../utils/astronomy';
+import type { SolarSystemBody } from '../utils/solarSystem';
+import { getLimitingMagnitude, REFRACTION_GLSL } from './useSkyRenderer';
+
+const vertexShaderSource = `#version 300 es
+precision highp float;
+
+uniform mat4 u_viewProjection;
+uniform mat4 u_celestialRotation;
+uniform vec3 u_position;
+uniform float u_pointSize;
+${REFRACTION_GLSL}
+void main() {
+  vec4 rotatedPos = u_celestialRotation * vec4(u_position, 1.0);
+  gl_Position = u_viewProjection * vec4(applyRefraction(rotatedPos.xyz), 1.0);
+  gl_PointSize = u_pointSize;
+}
+`;
+
+const fragmentShaderSource = `#version 300 es
+precision highp float;
+
+uniform vec3 u_color;
+uniform float u_diskRadius;  // Disk radius as a fraction of the sprite radius
+uniform float u_glow;
+uniform float u_visibility;
+uniform float u_phaseAngle;     // Radians; negative for self-luminous bodies
+uniform vec2 u_limbDirection;   // Screen direction towards the Sun (y up)
+uniform lowp int u_lightMode;
+uniform lowp int u_nightMode;
+
+out vec4 fragColor;
+
+void main() {
+  vec2 coord = (gl_PointCoord - vec2(0.5)) * 2.0;
+  float dist = length(coord);
+  if (dist > 1.0) discard;
+
+  float disk = 1.0 - smoothstep(u_diskRadius * 0.9, u_diskRadius, dist);
+  float glow = u_glow * exp(-max(dist - u_diskRadius, 0.0) * 6.0) * (1.0 - dist) * (1.0 - disk);
+  float alpha = clamp(disk + glow, 0.0, 1.0) * u_visibility;
+
+  vec3 color = u_color;
+  if (u_phaseAngle >= 0.0) {
+    // Light a sphere seen from the observer by a Sun at the phase angle
+    vec2 p = vec2(coord.x, -coord.y) / u_diskRadius;
+    vec3 normal = vec3(p, sqrt(max(0.0, 1.0 - dot(p, p))));
+    vec3 light = vec3(u_limbDirection * sin(u_phaseAngle), cos(u_phaseAngle));
+    float lit = smoothstep(-0.04, 0.04, dot(normal, light));
+    color *= mix(0.03, 1.0, lit);  // Faint earthshine on the dark side
+  }
+  if (u_nightMode == 1) {
+    float luminance = dot(color, vec3(0.299, 0.587, 0.114));
+    color = vec3(luminance, luminance * 0.15, luminance * 0.1);
+  } else if (u_lightMode == 1) {
+    color *= 0.6;
+  }
+
+  fragColor = vec4(color, alpha);
+}
+`;
+
+function createShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader | null {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    console.error('Body shader error:', gl.getShaderInfoLog(shader));
+    gl.deleteShader(shader);
+    return null;
+  }
+  return shader;
+}
+
+function createProgram(gl: WebGL2RenderingContext, vs: WebGLShader, fs: WebGLShader): WebGLProgram | null {
+  const program = gl.createProgram();
+  if (!program) return null;
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error('Body program error:', gl.getProgramInfoLog(program));
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+}
+
+// Create view projection matrix (same as star renderer)
+function createProjectionMatrix(fov: number, aspect: number): Float32Array {
+  const f = 1.0 / Math.tan(fov * Math.PI / 360);
+  const near = 0.1;
+  const far = 10.0;
+  const rangeInv = 1.0 / (near - far);
+  return new Float32Array([
+    f / aspect, 0, 0, 0,
+    0, f, 0, 0,
+    0, 0, (near + far) * rangeInv, -1,
+    0, 0, near * far * rangeInv * 2, 0
+  ]);
+}
+
+function createViewMatrix(yaw: number, pitch: number): Float32Array {
+  const cy = Math.cos(yaw);
+  const sy = Math.sin(yaw);
+  const cp = Math.cos(pitch);
+  const sp = Math.sin(pitch);
+  return new Float32Array([
+    cy, sy * sp, sy * cp, 0,
+    0, cp, -sp, 0,
+    sy, -cy * sp, -cy * cp, 0,
+    0, 0, 0, 1
+  ]);
+}
+
+function multiplyMatrices(a: Float32Array, b: Float32Array): Float32Array {
+  const result = new Float32Array(16);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      result[col * 4 + row] =
+        a[0 * 4 + row] * b[col * 4 + 0] +
+        a[1 * 4 + row] * b[col * 4 + 1] +
+        a[2 * 4 + row] * b[col * 4 + 2] +
+        a[3 * 4 + row] * b[col * 4 + 3];
+    }
+  }
+  return result;
+}
+
+/**
+ * Project a celestial direction to device pixels (y up); null if behind the camera
+ */
+function projectToPixels(transform: Float32Array, v: Vec3, width: number, height: number): [number, number] | null {
+  const [x, y, z] = v;
+  const cx = transform[0] * x + transform[4] * y + transform[8] * z + transform[12];
+  const cy = transform[1] * x + transform[5] * y + transform[9] * z + transform[13];
+  const cw = transform[3] * x + transform[7] * y + transform[11] * z + transform[15];
+  if (cw <= 0) return null;
+  return [cx / cw * width / 2, cy / cw * height / 2];
+}
+
+/**
+ * Screen direction from a body towards the Sun, i.e. the centre of its bright limb
+ */
+function getLimbDirection(
+  transform: Float32Array,
+  body: SolarSystemBody,
+  sun: SolarSystemBody,
+  width: number,
+  height: number
+): [number, number] {
+  // Step a little from the body along the great circle towards the Sun
+  const dot = body.x * sun.x + body.y * sun.y + body.z * sun.z;
+  const tx = sun.x - dot * body.x;
+  const ty = sun.y - dot * body.y;
+  const tz = sun.z - dot * body.z;
+  const len = Math.sqrt(tx * tx + ty * ty + tz * tz) || 1;
+  const step = 1e-3 / len;
+  
+  const from = projectToPixels(transform, [body.x, body.y, body.z], width, height);
+  const to = projectToPixels(transform, [body.x + tx * step, body.y + ty * step, body.z + tz * step], width, height);
+  if (!from || !to) return [0, 1];
+  
+  const dx = to[0] - from[0];
+  const dy = to[1] - from[1];
+  const d = Math.sqrt(dx * dx + dy * dy) || 1;
+  return [dx / d, dy / d];
+}
+
+// Smallest disk drawn, in device pixels, so small bodies stay visible
+const MIN_DISK_PIXELS = 6;
+
+export interface BodyRendererOptions {
+  fov?: number;
+  magnitudeScale?: number;
+  lightMode?: boolean;
+  nightMode?: boolean;
+  refraction?: AtmosphereConditions | null;  // null disables refraction
+}
+
+export function useBodyRenderer(
+  canvasRef: React.RefObject<HTMLCanvasElement | null>,
+  bodies: SolarSystemBody[],
+  location: GeoLocation,
+  date: Date,
+  viewRef: React.RefObject<{ yaw: number; pitch: number }>,
+  options: BodyRendererOptions = {}
+) {
+  const { fov = 60, magnitudeScale = 15, lightMode = false, nightMode = false, refraction = null } = options;
+
+  const glRef = useRef<WebGL2RenderingContext | null>(null);
+  const programRef = useRef<WebGLProgram | null>(null);
+  const vaoRef = useRef<WebGLVertexArrayObject | null>(null);
+  const uniformsRef = useRef<{
+    viewProjection: WebGLUniformLocation | null;
+    celestialRotation: WebGLUniformLocation | null;
+    position: WebGLUniformLocation | null;
+    pointSize: WebGLUniformLocation | null;
+    color: WebGLUniformLocation | null;
+    diskRadius: WebGLUniformLocation | null;
+    glow: WebGLUniformLocation | null;
+    visibility: WebGLUniformLocation | null;
+    phaseAngle: WebGLUniformLocation | null;
+    limbDirection: WebGLUniformLocation | null;
+    lightMode: WebGLUniformLocation | null;
+    nightMode: WebGLUniformLocation | null;
+    refraction: WebGLUniformLocation | null;
+    refractionScale: WebGLUniformLocation | null;
+  } | null>(null);
+
+  // Initialize
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const gl = canvas.getContext('webgl2');
+    if (!gl) return;
+
+    const vs = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+    const fs = createShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource);
+    if (!vs || !fs) return;
+
+    const program = createProgram(gl, vs, fs);
+    if (!program) return;
+
+    uniformsRef.current = {
+      viewProjection: gl.getUniformLocation(program, 'u_viewProjection'),
+      celestialRotation: gl.getUniformLocation(program, 'u_celestialRotation'),
+      position: gl.getUniformLocation(program, 'u_position'),
+      pointSize: gl.getUniformLocation(program, 'u_pointSize'),
+      color: gl.getUniformLocation(program, 'u_color'),
+      diskRadius: gl.getUniformLocation(program, 'u_diskRadius'),
+      glow: gl.getUniformLocation(program, 'u_glow'),
+      visibility: gl.getUniformLocation(program, 'u_visibility'),
+      phaseAngle: gl.getUniformLocation(program, 'u_phaseAngle'),
+      limbDirection: gl.getUniformLocation(program, 'u_limbDirection'),
+      lightMode: gl.getUniformLocation(program, 'u_lightMode'),
+      nightMode: gl.getUniformLocation(program, 'u_nightMode'),
+      refraction: gl.getUniformLocation(program, 'u_refraction'),
+      refractionScale: gl.getUniformLocation(program, 'u_refractionScale'),
+    };
+
+    // Bodies are positioned by uniforms; an empty VAO keeps other renderers' attributes out
+    const vao = gl.createVertexArray();
+
+    glRef.current = gl;
+    programRef.current = program;
+    vaoRef.current = vao;
+
+    return () => {
+      gl.deleteVertexArray(vao);
+      gl.deleteProgram(program);
+      gl.deleteShader(vs);
+      gl.deleteShader(fs);
+    };
+  }, [canvasRef]);
+
+  const render = useCallback(() => {
+    const gl = glRef.current;
+    const program = programRef.current;
+    const uniforms = uniformsRef.current;
+    const canvas = canvasRef.current;
+
+    if (!gl || !program || !uniforms || !canvas || bodies.length === 0) return;
+
+    gl.useProgram(program);
+    gl.bindVertexArray(vaoRef.current);
+    gl.enable(gl.BLEND);
+    if (lightMode) {
+      gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    } else {
+      gl.blendFunc(gl.SRC_ALPHA, gl.ONE);
+    }
+
+    const aspect = canvas.width / canvas.height;
+    const projection = createProjectionMatrix(fov, aspect);
+    const currentView = viewRef.current || { yaw: 0, pitch: 0 };
+    const view = createViewMatrix(currentView.yaw, currentView.pitch);
+
+    const viewProjection = multiplyMatrices(projection, view);
+    const celestialRotation = getCelestialRotationMatrix(location, date);
+    const transform = multiplyMatrices(viewProjection, celestialRotation);
+    
+    gl.uniformMatrix4fv(uniforms.viewProjection, false, viewProjection);
+    gl.uniformMatrix4fv(uniforms.celestialRotation, false, celestialRotation);
+    gl.uniform1i(uniforms.lightMode, lightMode ? 1 : 0);
+    gl.uniform1i(uniforms.nightMode, nightMode ? 1 : 0);
+    gl.uniform1i(uniforms.refraction, refraction ? 1 : 0);
+    gl.uniform1f(uniforms.refractionScale, refraction ? getRefractionScale(refraction) : 1);
+
+    // Device pixels per radian at the centre of the view
+    const pixelsPerRadian = canvas.height / 2 / Math.tan(fov * Math.PI / 360);
+    const maxPointSize = gl.getParameter(gl.ALIASED_POINT_SIZE_RANGE)[1];
+    const pointScale = Math.min(canvas.width, canvas.height) / 800;
+    const sun = bodies.find(body => body.type === 'sun');
+    const limitingMagnitude = getLimitingMagnitude(sun ? sun.alt : null);
+
+    for (const body of bodies) {
+      const truePixels = body.angularDiameter * Math.PI / 180 * pixelsPerRadian;
+      let diskPixels = Math.max(MIN_DISK_PIXELS, truePixels);
+      let diskRadius = 1.0;
+      let glow = 0.0;
+      let visibility = 1.0;
+      
+      if (body.type === 'sun' && !lightMode) {
+        // The Sun gets a halo around its disk
+        diskRadius = 0.3;
+        glow = 0.6;
+      } else if (body.type === 'planet') {
+        // Planets are sized like stars of the same magnitude until their disk is resolved
+        const magNorm = Math.min(1, Math.max(0, (6 - body.mag) / 7));
+        const starPixels = Math.min(15, Math.max(1, magnitudeScale * (0.3 + magNorm * 1.2) * pointScale));
+        if (truePixels < starPixels) {
+          diskPixels = starPixels;
+          diskRadius = 0.6;
+          glow = 0.3;
+        } else {
+          diskPixels = truePixels;
+        }
+        // Fade with the stars as the sky brightens
+        const t = Math.min(1, Math.max(0, body.mag - (limitingMagnitude - 1)));
+        visibility = 1 - t * t * (3 - 2 * t);
+        if (visibility <= 0) continue;
+      }
+
+      gl.uniform3f(uniforms.position, body.x, body.y, body.z);
+      gl.uniform1f(uniforms.pointSize, Math.min(maxPointSize, diskPixels / diskRadius));
+      gl.uniform3fv(uniforms.color, body.color);
+      gl.uniform1f(uniforms.diskRadius, diskRadius);
+      gl.uniform1f(uniforms.glow, glow);
+      gl.uniform1f(uniforms.visibility, visibility);
+      
+      // Phases only show once the disk is drawn at its true size
+      if (body.phaseAngle !== undefined && sun && diskPixels <= Math.max(MIN_DISK_PIXELS, truePixels)) {
+        gl.uniform1f(uniforms.phaseAngle, body.phaseAngle * Math.PI / 180);
+        gl.uniform2fv(uniforms.limbDirection, getLimbDirection(transform, body, sun, canvas.width, canvas.height));
+      } else {
+        gl.uniform1f(uniforms.phaseAngle, -1);
+      }
+      gl.drawArrays(gl.POINTS, 0, 1);
+    }
+
+    gl.bindVertexArray(null);
+  }, [canvasRef, bodies, location, date, viewRef, fov, magnitudeScale, lightMode, nightMode, refraction]);
+
+  return { render };
+}
@@ -0,0 +1,395 @@
+/**
+ * WebGL Deep-Sky Renderer
+ * Draws galaxies, clusters and nebulae as chart symbols: an outline of each
+ * object's true size and shape, never smaller than a minimum symbol, styled by
+ * type - ellipses for galaxies, dashed for open clusters, crossed for
+ * globulars, rectangles for nebulae and ticked for planetary nebulae
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import {
+  getCelestialRotationMatrix,
+  getRefractionScale,
+  type AtmosphereConditions,
+  type GeoLocation,
+} from '../utils/astronomy';
+import { getDeepSkyMagnitude, type DeepSkyObject, type DeepSkyType } from '../utils/deepSky';
+import { getLimitingMagnitude, REFRACTION_GLSL } from './useSkyRenderer';
+
+// Smallest symbol drawn, CSS pixels across
+export const DEEP_SKY_SYMBOL_SIZE = 12;
+
+// Symbol shapes, as numbered in the fragment shader
+const GALAXY = 0;
+const OPEN_CLUSTER = 1;
+const GLOBULAR_CLUSTER = 2;
+const NEBULA = 3;
+const PLANETARY_NEBULA = 4;
+
+const SYMBOLS: Record<DeepSkyType, { symbol: number; color: [number, number, number] }> = {
+  'G': { symbol: GALAXY, color: [1.0, 0.55, 0.5] },
+  'OCl': { symbol: OPEN_CLUSTER, color: [1.0, 0.9, 0.45] },
+  '*Ass': { symbol: OPEN_CLUSTER, color: [1.0, 0.9, 0.45] },
+  '**': { symbol: OPEN_CLUSTER, color: [1.0, 0.9, 0.45] },
+  'GCl': { symbol: GLOBULAR_CLUSTER, color: [1.0, 0.8, 0.4] },
+  'Cl+N': { symbol: NEBULA, color: [0.45, 0.95, 0.6] },
+  'HII': { symbol: NEBULA, color: [0.45, 0.95, 0.6] },
+  'RfN': { symbol: NEBULA, color: [0.45, 0.95, 0.6] },
+  'SNR': { symbol: NEBULA, color: [0.45, 0.95, 0.6] },
+  'DrkN': { symbol: NEBULA, color: [0.6, 0.6, 0.6] },
+  'PN': { symbol: PLANETARY_NEBULA, color: [0.4, 0.9, 0.95] },
+};
+
+const vertexShaderSource = `#version 300 es
+precision highp float;
+
+in vec3 a_position;
+in float a_magnitude;
+in vec3 a_shape;    // Major and minor axes (arcmin), position angle (degrees)
+in float a_symbol;
+in vec3 a_color;
+
+uniform mat4 u_viewProjection;
+uniform mat4 u_celestialRotation;
+uniform vec2 u_viewport;
+uniform float u_pixelsPerRadian;
+uniform float u_pixelRatio;
+uniform float u_symbolSize;
+uniform float u_limitingMagnitude;
+
+out vec3 v_color;
+out float v_visibility;
+out float v_symbol;
+out vec2 v_axis;    // Major axis direction on screen, y up
+out vec2 v_radii;   // Semi-axes in pixels
+out float v_size;
+${REFRACTION_GLSL}
+vec4 project(vec3 position) {
+  vec4 rotatedPos = u_celestialRotation * vec4(position, 1.0);
+  return u_viewProjection * vec4(applyRefraction(rotatedPos.xyz), 1.0);
+}
+
+void main() {
+  gl_Position = project(a_position);
+
+  // The major axis on screen: project a point a little way along it from
+  // north towards east
+  vec3 north = vec3(0.0, 1.0, 0.0) - a_position * a_position.y;
+  vec3 east = vec3(-a_position.z, 0.0, a_position.x);
+  vec3 axis = length(east) > 1e-6
+    ? cos(radians(a_shape.z)) * normalize(north) + sin(radians(a_shape.z)) * normalize(east)
+    : vec3(1.0, 0.0, 0.0);
+  vec4 tip = project(a_position + axis * 0.001);
+  vec2 toward = (tip.xy / tip.w - gl_Position.xy / gl_Position.w) * u_viewport;
+  v_axis = length(toward) > 0.0 ? normalize(toward) : vec2(0.0, 1.0);
+
+  // True size, enlarged to the minimum symbol with the axis ratio kept
+  // (elongated galaxies no thinner than a quarter)
+  float major = radians(a_shape.x / 60.0) * u_pixelsPerRadian;
+  float ratio = max(a_shape.y / max(a_shape.x, 1e-6), 0.25);
+  float drawn = max(major, u_symbolSize * u_pixelRatio);
+  v_radii = vec2(drawn, drawn * ratio) * 0.5;
+
+  // Room around the outline for the planetary nebula ticks
+  v_size = drawn + 12.0 * u_pixelRatio;
+  gl_PointSize = v_size;
+
+  v_color = a_color;
+  v_symbol = a_symbol;
+  v_visibility = 1.0 - smoothstep(u_limitingMagnitude - 1.0, u_limitingMagnitude, a_magnitude);
+  if (v_visibility <= 0.0) {
+    gl_Position = vec4(2.0, 2.0, 2.0, 1.0); // Outside the clip volume
+  }
+}
+`;
+
+const fragmentShaderSource = `#version 300 es
+precision highp float;
+
+in vec3 v_color;
+in float v_visibility;
+in float v_symbol;
+in vec2 v_axis;
+in vec2 v_radii;
+in float v_size;
+
+uniform float u_pixelRatio;
+uniform lowp int u_lightMode;
+uniform lowp int u_nightMode;
+
+out vec4 fragColor;
+
+// Coverage of a line at a distance in pixels from its centre
+float stroke(float distance) {
+  return 1.0 - smoothstep(0.5 * u_pixelRatio, 1.2 * u_pixelRatio, abs(distance));
+}
+
+void main() {
+  // Pixels from the centre along the major and minor axes
+  vec2 p = (gl_PointCoord - 0.5) * vec2(1.0, -1.0) * v_size;
+  vec2 q = vec2(dot(p, v_axis), dot(p, vec2(-v_axis.y, v_axis.x)));
+  int symbol = int(v_symbol + 0.5);
+
+  float line;
+  if (symbol == ${NEBULA}) {
+    vec2 d = abs(q) - v_radii;
+    line = stroke(length(max(d, 0.0)) + min(max(d.x, d.y), 0.0));
+  } else {
+    // Distance to the ellipse, to first order
+    float k = length(q / v_radii);
+    float edge = (k - 1.0) * k / max(length(q / (v_radii * v_radii)), 1e-6);
+    line = stroke(edge);
+
+    if (symbol == ${OPEN_CLUSTER}) {
+      float angle = atan(q.y / v_radii.y, q.x / v_radii.x);
+      line *= step(0.4, fract(angle * 16.0 / 6.2831853));
+    } else if (symbol == ${GLOBULAR_CLUSTER} && k < 1.0) {
+      line = max(line, stroke(min(abs(q.x), abs(q.y))));
+    } else if (symbol == ${PLANETARY_NEBULA} && edge > 0.0 && edge < 5.0 * u_pixelRatio) {
+      line = max(line, stroke(min(abs(q.x), abs(q.y))));
+    }
+  }
+
+  float alpha = line * v_visibility * 0.85;
+  if (alpha <= 0.0) discard;
+
+  vec3 color = v_color;
+  if (u_nightMode == 1) {
+    float luminance = dot(color, vec3(0.299, 0.587, 0.114));
+    color = vec3(luminance, luminance * 0.15, luminance * 0.1);
+  } else if (u_lightMode == 1) {
+    color *= 0.5;
+  }
+
+  fragColor = vec4(color, alpha);
+}
+`;
+
+function createShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader | null {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    console.error('Deep-sky shader error:', gl.getShaderInfoLog(shader));
+    gl.deleteShader(shader);
+    return null;
+  }
+  return shader;
+}
+
+function createProgram(gl: WebGL2RenderingContext, vs: WebGLShader, fs: WebGLShader): WebGLProgram | null {
+  const program = gl.createProgram();
+  if (!program) return null;
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error('Deep-sky program error:', gl.getProgramInfoLog(program));
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+}
+
+// Create view projection matrix (same as star renderer)
+function createProjectionMatrix(fov: number, aspect: number): Float32Array {
+  const f = 1.0 / Math.tan(fov * Math.PI / 360);
+  const near = 0.1;
+  const far = 10.0;
+  const rangeInv = 1.0 / (near - far);
+  return new Float32Array([
+    f / aspect, 0, 0, 0,
+    0, f, 0, 0,
+    0, 0, (near + far) * rangeInv, -1,
+    0, 0, near * far * rangeInv * 2, 0
+  ]);
+}
+
+function createViewMatrix(yaw: number, pitch: number): Float32Array {
+  const cy = Math.cos(yaw);
+  const sy = Math.sin(yaw);
+  const cp = Math.cos(pitch);
+  const sp = Math.sin(pitch);
+  return new Float32Array([
+    cy, sy * sp, sy * cp, 0,
+    0, cp, -sp, 0,
+    sy, -cy * sp, -cy * cp, 0,
+    0, 0, 0, 1
+  ]);
+}
+
+function multiplyMatrices(a: Float32Array, b: Float32Array): Float32Array {
+  const result = new Float32Array(16);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      result[col * 4 + row] =
+        a[0 * 4 + row] * b[col * 4 + 0] +
+        a[1 * 4 + row] * b[col * 4 + 1] +
+        a[2 * 4 + row] * b[col * 4 + 2] +
+        a[3 * 4 + row] * b[col * 4 + 3];
+    }
+  }
+  return result;
+}
+
+export interface DeepSkyRendererOptions {
+  fov?: number;
+  lightMode?: boolean;
+  nightMode?: boolean;
+  refraction?: AtmosphereConditions | null;  // null disables refraction
+  sunAltitude?: number | null;  // Solar altitude in degrees; null keeps the night sky
+  limitingMagnitude?: number;   // Faintest object drawn under a dark sky
+}
+
+export function useDeepSkyRenderer(
+  canvasRef: React.RefObject<HTMLCanvasElement | null>,
+  objects: DeepSkyObject[],
+  location: GeoLocation,
+  date: Date,
+  viewRef: React.RefObject<{ yaw: number; pitch: number }>,
+  options: DeepSkyRendererOptions = {}
+) {
+  const { fov = 60, lightMode = false, nightMode = false, refraction = null, sunAltitude = null, limitingMagnitude } = options;
+
+  const glRef = useRef<WebGL2RenderingContext | null>(null);
+  const programRef = useRef<WebGLProgram | null>(null);
+  const vaoRef = useRef<WebGLVertexArrayObject | null>(null);
+  const bufferRef = useRef<WebGLBuffer | null>(null);
+  const uniformsRef = useRef<{
+    viewProjection: WebGLUniformLocation | null;
+    celestialRotation: WebGLUniformLocation | null;
+    viewport: WebGLUniformLocation | null;
+    pixelsPerRadian: WebGLUniformLocation | null;
+    pixelRatio: WebGLUniformLocation | null;
+    symbolSize: WebGLUniformLocation | null;
+    limitingMagnitude: WebGLUniformLocation | null;
+    lightMode: WebGLUniformLocation | null;
+    nightMode: WebGLUniformLocation | null;
+    refraction: WebGLUniformLocation | null;
+    refractionScale: WebGLUniformLocation | null;
+  } | null>(null);
+
+  // Initialize
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const gl = canvas.getContext('webgl2');
+    if (!gl) return;
+
+    const vs = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+    const fs = createShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource);
+    if (!vs || !fs) return;
+
+    const program = createProgram(gl, vs, fs);
+    if (!program) return;
+
+    uniformsRef.current = {
+      viewProjection: gl.getUniformLocation(program, 'u_viewProjection'),
+      celestialRotation: gl.getUniformLocation(program, 'u_celestialRotation'),
+      viewport: gl.getUniformLocation(program, 'u_viewport'),
+      pixelsPerRadian: gl.getUniformLocation(program, 'u_pixelsPerRadian'),
+      pixelRatio: gl.getUniformLocation(program, 'u_pixelRatio'),
+      symbolSize: gl.getUniformLocation(program, 'u_symbolSize'),
+      limitingMagnitude: gl.getUniformLocation(program, 'u_limitingMagnitude'),
+      lightMode: gl.getUniformLocation(program, 'u_lightMode'),
+      nightMode: gl.getUniformLocation(program, 'u_nightMode'),
+      refraction: gl.getUniformLocation(program, 'u_refraction'),
+      refractionScale: gl.getUniformLocation(program, 'u_refractionScale'),
+    };
+
+    // One interleaved buffer: position (3), magnitude, shape (3), symbol, color (3)
+    const vao = gl.createVertexArray();
+    const buffer = gl.createBuffer();
+    gl.bindVertexArray(vao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    const stride = 11 * 4;
+    const attributes: [string, number, number][] = [
+      ['a_position', 3, 0],
+      ['a_magnitude', 1, 3],
+      ['a_shape', 3, 4],
+      ['a_symbol', 1, 7],
+      ['a_color', 3, 8],
+    ];
+    for (const [name, size, offset] of attributes) {
+      const loc = gl.getAttribLocation(program, name);
+      gl.enableVertexAttribArray(loc);
+      gl.vertexAttribPointer(loc, size, gl.FLOAT, false, stride, offset * 4);
+    }
+    gl.bindVertexArray(null);
+
+    glRef.current = gl;
+    programRef.current = program;
+    vaoRef.current = vao;
+    bufferRef.current = buffer;
+
+    return () => {
+      gl.deleteBuffer(buffer);
+      gl.deleteVertexArray(vao);
+      gl.deleteProgram(program);
+      gl.deleteShader(vs);
+      gl.deleteShader(fs);
+    };
+  }, [canvasRef]);
+
+  // The catalog is fixed on the sky, so the buffer only changes with the objects
+  useEffect(() => {
+    const gl = glRef.current;
+    if (!gl || !bufferRef.current) return;
+
+    const data = new Float32Array(objects.length * 11);
+    objects.forEach((object, i) => {
+      const { symbol, color } = SYMBOLS[object.type] ?? SYMBOLS['HII'];
+      data.set([
+        object.x, object.y, object.z,
+        getDeepSkyMagnitude(object),
+        object.major, object.minor, object.pa,
+        symbol,
+        ...color,
+      ], i * 11);
+    });
+    gl.bindBuffer(gl.ARRAY_BUFFER, bufferRef.current);
+    gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
+  }, [objects]);
+
+  const render = useCallback(() => {
+    const gl = glRef.current;
+    const program = programRef.current;
+    const uniforms = uniformsRef.current;
+    const canvas = canvasRef.current;
+
+    if (!gl || !program || !uniforms || !canvas || objects.length === 0) return;
+
+    gl.useProgram(program);
+    gl.bindVertexArray(vaoRef.current);
+    gl.enable(gl.BLEND);
+    if (lightMode) {
+      gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    } else {
+      gl.blendFunc(gl.SRC_ALPHA, gl.ONE);
+    }
+
+    const aspect = canvas.width / canvas.height;
+    const projection = createProjectionMatrix(fov, aspect);
+    const currentView = viewRef.current || { yaw: 0, pitch: 0 };
+    const view = createViewMatrix(currentView.yaw, currentView.pitch);
+
+    gl.uniformMatrix4fv(uniforms.viewProjection, false, multiplyMatrices(projection, view));
+    gl.uniformMatrix4fv(uniforms.celestialRotation, false, getCelestialRotationMatrix(location, date));
+    gl.uniform2f(uniforms.viewport, canvas.width, canvas.height);
+    gl.uniform1f(uniforms.pixelsPerRadian, canvas.height / 2 / Math.tan(fov * Math.PI / 360));
+    gl.uniform1f(uniforms.pixelRatio, window.devicePixelRatio || 1);
+    gl.uniform1f(uniforms.symbolSize, DEEP_SKY_SYMBOL_SIZE);
+    gl.uniform1f(uniforms.limitingMagnitude, getLimitingMagnitude(sunAltitude, limitingMagnitude));
+    gl.uniform1i(uniforms.lightMode, lightMode ? 1 : 0);
+    gl.uniform1i(uniforms.nightMode, nightMode ? 1 : 0);
+    gl.uniform1i(uniforms.refraction, refraction ? 1 : 0);
+    gl.uniform1f(uniforms.refractionScale, refraction ? getRefractionScale(refraction) : 1);
+
+    gl.drawArrays(gl.POINTS, 0, objects.length);
+    gl.bindVertexArray(null);
+  }, [canvasRef, objects, location, date, viewRef, fov, lightMode, nightMode, refraction, sunAltitude, limitingMagnitude]);
+
+  return { render };
+}
@@ -1,12 +1,21 @@
 /**
  * WebGL Grid Renderer
- * Renders Alt/Az and Equatorial coordinate grid lines
+ * Renders Alt/Az, Equatorial, Ecliptic and Galactic coordinate grid lines
  */
 
 import { useCallback, useEffect, useRef } from 'react';
-import type { GeoLocation } from '../utils/astronomy';
-import { getCelestialRotationMatrix } from '../utils/astronomy';
+import type { AtmosphereConditions, GeoLocation, Vec3 } from '../utils/astronomy';
+import {
+  getCelestialRotationMatrix,
+  getEclipticRotationMatrix,
+  getGalacticRotationMatrix,
+  getHorizonDip,
+  getHorizonRotationMatrix,
+  getRefractionScale,
+  refractHorizontalVector,
+} from '../utils/astronomy';
 import { calculateConstellationCenters, type ConstellationCenter } from '../utils/constellationNames';
+import { REFRACTION_GLSL } from './useSkyRenderer';
 
 const vertexShaderSource = `#version 300 es
 precision highp float;
@@ -15,10 +24,10 @@ in vec3 a_position;
 
 uniform mat4 u_viewProjection;
 uniform mat4 u_transform;
-
+${REFRACTION_GLSL}
 void main() {
   vec4 pos = u_transform * vec4(a_position, 1.0);
-  gl_Position = u_viewProjection * pos;
+  gl_Position = u_viewProjection * vec4(applyRefraction(pos.xyz), 1.0);
 }
 `;
 
@@ -155,9 +164,9 @@ function createViewMatrix(yaw: number, pitch: number): Float32Array {
   const cp = Math.cos(pitch);
   const sp = Math.sin(pitch);
   return new Float32Array([
-    cy, sy * sp, -sy * cp, 0,
-    0, cp, sp, 0,
-    sy, -cy * sp, cy * cp, 0,
+    cy, sy * sp, sy * cp, 0,
+    0, cp, -sp, 0,
+    sy, -cy * sp, -cy * cp, 0,
     0, 0, 0, 1
   ]);
 }
@@ -183,15 +192,33 @@ const IDENTITY_MATRIX = new Float32Array([
   0, 0, 0, 1
 ]);
 
+// Lowers the altitude-0 circle to an altitude of -dip degrees
+function horizonDipMatrix(dip: number): Float32Array {
+  const c = Math.cos(dip * Math.PI / 180);
+  const s = Math.sin(dip * Math.PI / 180);
+  return new Float32Array([
+    c, 0, 0, 0,
+    0, 1, 0, 0,
+    0, 0, c, 0,
+    0, -s, 0, 1
+  ]);
+}
+
 export interface GridOptions {
   showAltAzGrid: boolean;
   showEquatorialGrid: boolean;
+  showEcliptic: boolean;
+  showEclipticGrid: boolean;
+  showGalacticEquator: boolean;
+  showGalacticGrid: boolean;
   showConstellations: boolean;
+  showDeepSky?: boolean;
   showHorizon: boolean;
   showCardinals: boolean;
   lightMode: boolean;
   nightMode: boolean;
   pixelStars?: boolean;
+  refraction?: boolean;
 }
 
 // Convert celestial coordinates (RA in degrees, Dec in degrees) to 3D cartesian
@@ -212,7 +239,8 @@ export function useGridRenderer(
   date: Date,
   viewRef: React.RefObject<{ yaw: number; pitch: number }>,
   options: GridOptions,
-  fov: number = 60
+  fov: number = 60,
+  refraction: AtmosphereConditions | null = null
 ) {
   const glRef = useRef<WebGL2RenderingContext | null>(null);
   const programRef = useRef<WebGLProgram | null>(null);
@@ -220,6 +248,8 @@ export function useGridRenderer(
     viewProjection: WebGLUniformLocation | null;
     transform: WebGLUniformLocation | null;
     color: WebGLUniformLocation | null;
+    refraction: WebGLUniformLocation | null;
+    refractionScale: WebGLUniformLocation | null;
   } | null>(null);
   
   // Pre-generated grid geometry
@@ -227,6 +257,11 @@ export function useGridRenderer(
   const azArcsRef = useRef<{ buffer: WebGLBuffer; count: number }[]>([]);
   const decCirclesRef = useRef<{ buffer: WebGLBuffer; count: number }[]>([]);
   const raCirclesRef = useRef<{ buffer: WebGLBuffer; count: number }[]>([]);
+  // Ecliptic and galactic grids share one geometry (great circle plus lat/lon grid),
+  // rotated into place by their frame's matrix
+  const fundamentalCircleRef = useRef<{ buffer: WebGLBuffer; count: number } | null>(null);
+  const latitudeCirclesRef = useRef<{ buffer: WebGLBuffer; count: number }[]>([]);
+  const longitudeCirclesRef = useRef<{ buffer: WebGLBuffer; count: number }[]>([]);
   const horizonRef = useRef<{ buffer: WebGLBuffer; count: number } | null>(null);
   const constellationLinesRef = useRef<{ buffer: WebGLBuffer; count: number }[]>([]);
   const constellationsLoadedRef = useRef(false);
@@ -251,6 +286,8 @@ export function useGridRenderer(
       viewProjection: gl.getUniformLocation(program, 'u_viewProjection'),
       transform: gl.getUniformLocation(program, 'u_transform'),
       color: gl.getUniformLocation(program, 'u_color'),
+      refraction: gl.getUniformLocation(program, 'u_refraction'),
+      refractionScale: gl.getUniformLocation(program, 'u_refractionScale'),
     };
     
     glRef.current = gl;
@@ -276,7 +313,7 @@ export function useGridRenderer(
       return { buffer, count: vertices.length / 3 };
     });
     
-    // Horizon line (thicker, at 0 altitude)
+    // Horizon line (thicker, at 0 altitude; lowered by the dip when drawn)
     const horizonVertices = generateAltitudeCircle(0, 144);
     const horizonBuffer = gl.createBuffer()!;
     gl.bindBuffer(gl.ARRAY_BUFFER, horizonBuffer);
@@ -303,6 +340,32 @@ export function useGridRenderer(
       return { buffer, count: vertices.length / 3 };
     });
     
+    // Generate ecliptic/galactic geometry in the same axes, latitude along y
+    const fundamentalVertices = generateDeclinationCircle(0, 144);
+    const fundamentalBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, fundamentalBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, fundamentalVertices, gl.STATIC_DRAW);
+    fundamentalCircleRef.current = { buffer: fundamentalBuffer, count: fundamentalVertices.length / 3 };
+    
+    const latitudes = [-60, -30, 30, 60];
+    const longitudes = [0, 2, 4, 6, 8, 10, 12, 14, 16, 18, 20, 22]; // Every 30°, in hours
+    
+    latitudeCirclesRef.current = latitudes.map(lat => {
+      const vertices = generateDeclinationCircle(lat);
+      const buffer = gl.createBuffer()!;
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.STATIC_DRAW);
+      return { buffer, count: vertices.length / 3 };
+    });
+    
+    longitudeCirclesRef.current = longitudes.map(lon => {
+      const vertices = generateRACircle(lon);
+      const buffer = gl.createBuffer()!;
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.STATIC_DRAW);
+      return { buffer, count: vertices.length / 3 };
+    });
+    
     // Load constellation data
     fetch(`${import.meta.env.BASE_URL}data/constellations.json`)
       .then(res => res.json())
@@ -345,6 +408,9 @@ export function useGridRenderer(
       azArcsRef.current.forEach(c => gl.deleteBuffer(c.buffer));
       decCirclesRef.current.forEach(c => gl.deleteBuffer(c.buffer));
       raCirclesRef.current.forEach(c => gl.deleteBuffer(c.buffer));
+      latitudeCirclesRef.current.forEach(c => gl.deleteBuffer(c.buffer));
+      longitudeCirclesRef.current.forEach(c => gl.deleteBuffer(c.buffer));
+      if (fundamentalCircleRef.current) gl.deleteBuffer(fundamentalCircleRef.current.buffer);
       constellationLinesRef.current.forEach(c => gl.deleteBuffer(c.buffer));
       if (horizonRef.current) gl.deleteBuffer(horizonRef.current.buffer);
     };
@@ -357,7 +423,8 @@ export function useGridRenderer(
     const canvas = canvasRef.current;
     
     if (!gl || !program || !uniforms || !canvas) return;
-    if (!options.showAltAzGrid && !options.showEquatorialGrid && !options.showHorizon && !options.showConstellations) return;
+    if (!options.showAltAzGrid && !options.showEquatorialGrid && !options.showHorizon && !options.showConstellations &&
+        !options.showEcliptic && !options.showEclipticGrid && !options.showGalacticEquator && !options.showGalacticGrid) return;
     
     gl.useProgram(program);
     gl.bindVertexArray(null); // Unbind any VAO to avoid corrupting star renderer's VAO
@@ -371,12 +438,15 @@ export function useGridRenderer(
     const viewProjection = multiplyMatrices(projection, view);
     
     gl.uniformMatrix4fv(uniforms.viewProjection, false, viewProjection);
+    gl.uniform1f(uniforms.refractionScale, refraction ? getRefractionScale(refraction) : 1);
     
     const posLoc = gl.getAttribLocation(program, 'a_position');
     
-    const drawLines = (items: { buffer: WebGLBuffer; count: number }[], color: number[], transform: Float32Array) => {
+    // Refraction applies to celestial lines only; Alt/Az lines are fixed to the observer
+    const drawLines = (items: { buffer: WebGLBuffer; count: number }[], color: number[], transform: Float32Array, celestial = false) => {
       gl.uniformMatrix4fv(uniforms.transform, false, transform);
       gl.uniform4fv(uniforms.color, color);
+      gl.uniform1i(uniforms.refraction, celestial && refraction ? 1 : 0);
       
       items.forEach(item => {
         gl.bindBuffer(gl.ARRAY_BUFFER, item.buffer);
@@ -388,6 +458,7 @@ export function useGridRenderer(
     
     // Colors for light vs dark vs night mode
     let altAzColor: number[], altAzColorDim: number[], horizonColor: number[], eqColor: number[], eqColorDim: number[];
+    let eclipticColor: number[], eclipticColorDim: number[], galacticColor: number[], galacticColorDim: number[];
     
     if (options.nightMode) {
       // Night mode: all red for night vision preservation
@@ -396,18 +467,30 @@ export function useGridRenderer(
       horizonColor = [0.8, 0.15, 0.1, 0.7];
       eqColor = [0.6, 0.1, 0.1, 0.4];
       eqColorDim = [0.5, 0.1, 0.1, 0.3];
+      eclipticColor = [0.7, 0.15, 0.1, 0.6];
+      eclipticColorDim = [0.5, 0.1, 0.1, 0.3];
+      galacticColor = [0.6, 0.1, 0.15, 0.5];
+      galacticColorDim = [0.5, 0.1, 0.1, 0.25];
     } else if (options.lightMode) {
       altAzColor = [0.2, 0.4, 0.7, 0.5];
       altAzColorDim = [0.2, 0.4, 0.7, 0.35];
       horizonColor = [0.6, 0.3, 0.1, 0.8];
       eqColor = [0.5, 0.2, 0.5, 0.4];
       eqColorDim = [0.5, 0.2, 0.5, 0.3];
+      eclipticColor = [0.7, 0.5, 0.0, 0.7];
+      eclipticColorDim = [0.7, 0.5, 0.0, 0.35];
+      galacticColor = [0.1, 0.5, 0.4, 0.6];
+      galacticColorDim = [0.1, 0.5, 0.4, 0.3];
     } else {
       altAzColor = [0.3, 0.5, 0.8, 0.4];
       altAzColorDim = [0.3, 0.5, 0.8, 0.3];
       horizonColor = [0.8, 0.4, 0.2, 0.7];
       eqColor = [0.6, 0.3, 0.6, 0.3];
       eqColorDim = [0.6, 0.3, 0.6, 0.25];
+      eclipticColor = [0.9, 0.75, 0.3, 0.6];
+      eclipticColorDim = [0.9, 0.75, 0.3, 0.25];
+      galacticColor = [0.4, 0.8, 0.7, 0.5];
+      galacticColorDim = [0.4, 0.8, 0.7, 0.2];
     }
     
     // Draw Alt/Az grid (in observer frame - identity transform)
@@ -416,32 +499,54 @@ export function useGridRenderer(
       drawLines(azArcsRef.current, altAzColorDim, IDENTITY_MATRIX);
     }
     
-    // Draw horizon line
+    // Draw horizon line, where the sea-level horizon appears from the observer's height
     if (options.showHorizon && horizonRef.current) {
-      gl.uniformMatrix4fv(uniforms.transform, false, IDENTITY_MATRIX);
+      const dip = getHorizonDip(location.elevation, refraction !== null);
+      gl.uniformMatrix4fv(uniforms.transform, false, horizonDipMatrix(dip));
       gl.uniform4fv(uniforms.color, horizonColor);
+      gl.uniform1i(uniforms.refraction, 0);
       gl.bindBuffer(gl.ARRAY_BUFFER, horizonRef.current.buffer);
       gl.enableVertexAttribArray(posLoc);
       gl.vertexAttribPointer(posLoc, 3, gl.FLOAT, false, 0, 0);
       gl.drawArrays(gl.LINE_STRIP, 0, horizonRef.current.count);
     }
     
-    // Draw equatorial grid (needs celestial rotation)
+    // Draw equatorial grid (equator and equinox of date)
     if (options.showEquatorialGrid) {
-      const celestialRotation = getCelestialRotationMatrix(location, date);
-      drawLines(decCirclesRef.current, eqColor, celestialRotation);
-      drawLines(raCirclesRef.current, eqColorDim, celestialRotation);
+      const horizonRotation = getHorizonRotationMatrix(location, date);
+      drawLines(decCirclesRef.current, eqColor, horizonRotation, true);
+      drawLines(raCirclesRef.current, eqColorDim, horizonRotation, true);
+    }
+    
+    // Draw ecliptic grid (ecliptic and equinox of date)
+    if ((options.showEcliptic || options.showEclipticGrid) && fundamentalCircleRef.current) {
+      const eclipticRotation = getEclipticRotationMatrix(location, date);
+      if (options.showEclipticGrid) {
+        drawLines(latitudeCirclesRef.current, eclipticColorDim, eclipticRotation, true);
+        drawLines(longitudeCirclesRef.current, eclipticColorDim, eclipticRotation, true);
+      }
+      drawLines([fundamentalCircleRef.current], eclipticColor, eclipticRotation, true);
     }
     
-    // Draw constellation lines (needs celestial rotation)
+    // Draw galactic grid (fixed to the J2000 catalog frame)
+    if ((options.showGalacticEquator || options.showGalacticGrid) && fundamentalCircleRef.current) {
+      const galacticRotation = getGalacticRotationMatrix(location, date);
+      if (options.showGalacticGrid) {
+        drawLines(latitudeCirclesRef.current, galacticColorDim, galacticRotation, true);
+        drawLines(longitudeCirclesRef.current, galacticColorDim, galacticRotation, true);
+      }
+      drawLines([fundamentalCircleRef.current], galacticColor, galacticRotation, true);
+    }
+    
+    // Draw constellation lines (J2000 catalog frame, same transform as stars)
     if (options.showConstellations && constellationLinesRef.current.length > 0) {
       const celestialRotation = getCelestialRotationMatrix(location, date);
       const constColor = options.nightMode ? [0.8, 0.2, 0.15, 0.6] : 
                          options.lightMode ? [0.3, 0.3, 0.5, 0.6] : [0.4, 0.6, 0.8, 0.5];
-      drawLines(constellationLinesRef.current, constColor, celestialRotation);
+      drawLines(constellationLinesRef.current, constColor, celestialRotation, true);
     }
     
-  }, [canvasRef, location, date, viewRef, options, fov]);
+  }, [canvasRef, location, date, viewRef, options, fov, refraction]);
 
   // Get visible constellation labels with screen positions
   const getConstellationLabels = useCallback(() => {
@@ -459,27 +564,32 @@ export function useGridRenderer(
     const projection = createProjectionMatrix(fov, aspect);
     const view = createViewMatrix(currentView.yaw, currentView.pitch);
     const viewProjection = multiplyMatrices(projection, view);
-    const celestialRotation = getCelestialRotationMatrix(location, date);
-    
-    // Combined matrix: viewProjection * celestialRotation
-    const mvp = multiplyMatrices(viewProjection, celestialRotation);
+    const m = getCelestialRotationMatrix(location, date);
     
     const labels: Array<{
       name: string;
       x: number;
       y: number;
       distance: number;
+      constellation: ConstellationCenter;
     }> = [];
     
     for (const constellation of constellationCentersRef.current) {
-      const cx = constellation.x;
-      const cy = constellation.y;
-      const cz = constellation.z;
+      // Rotate into the observer frame (including aberration), then refract
+      let observed: Vec3 = [
+        m[0] * constellation.x + m[4] * constellation.y + m[8] * constellation.z + m[12],
+        m[1] * constellation.x + m[5] * constellation.y + m[9] * constellation.z + m[13],
+        m[2] * constellation.x + m[6] * constellation.y + m[10] * constellation.z + m[14],
+      ];
+      if (refraction) {
+        observed = refractHorizontalVector(observed, refraction);
+      }
+      const [cx, cy, cz] = observed;
       
-      // Transform through combined MVP matrix (column-major)
-      const clipX = mvp[0] * cx + mvp[4] * cy + mvp[8] * cz + mvp[12];
-      const clipY = mvp[1] * cx + mvp[5] * cy + mvp[9] * cz + mvp[13];
-      const clipW = mvp[3] * cx + mvp[7] * cy + mvp[11] * cz + mvp[15];
+      // Transform through view-projection matrix (column-major)
+      const clipX = viewProjection[0] * cx + viewProjection[4] * cy + viewProjection[8] * cz + viewProjection[12];
+      const clipY = viewProjection[1] * cx + viewProjection[5] * cy + viewProjection[9] * cz + viewProjection[13];
+      const clipW = viewProjection[3] * cx + viewProjection[7] * cy + viewProjection[11] * cz + viewProjection[15];
       
       // Behind camera?
       if (clipW <= 0.01) continue;
@@ -516,13 +626,14 @@ export function useGridRenderer(
           x: labelX,
           y: labelY,
           distance,
+          constellation,
         });
       }
     }
     
     labels.sort((a, b) => a.distance - b.distance);
     return labels.slice(0, 10);
-  }, [canvasRef, location, date, viewRef, fov]);
+  }, [canvasRef, location, date, viewRef, fov, refraction]);
 
   return { render, getConstellationLabels };
 }
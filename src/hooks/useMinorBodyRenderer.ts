@@ -0,0 +1,310 @@
+/**
+ * WebGL Minor Body Renderer
+ * Renders comets and asteroids as a point layer: asteroids look like faint stars,
+ * comets get a diffuse coma
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import {
+  getCelestialRotationMatrix,
+  getRefractionScale,
+  type AtmosphereConditions,
+  type GeoLocation,
+} from '../utils/astronomy';
+import type { SolarSystemBody } from '../utils/solarSystem';
+import { getLimitingMagnitude, REFRACTION_GLSL } from './useSkyRenderer';
+
+const vertexShaderSource = `#version 300 es
+precision highp float;
+
+in vec3 a_position;
+in float a_magnitude;
+in float a_comet;
+in vec3 a_color;
+
+uniform mat4 u_viewProjection;
+uniform mat4 u_celestialRotation;
+uniform float u_pointScale;
+uniform float u_magnitudeScale;
+uniform float u_limitingMagnitude;
+
+out vec3 v_color;
+out float v_brightness;
+out float v_visibility;
+out float v_comet;
+${REFRACTION_GLSL}
+void main() {
+  vec4 rotatedPos = u_celestialRotation * vec4(a_position, 1.0);
+  gl_Position = u_viewProjection * vec4(applyRefraction(rotatedPos.xyz), 1.0);
+
+  // Same magnitude scale as the stars; comae are drawn larger and softer
+  float magNorm = clamp((6.0 - a_magnitude) / 7.0, 0.0, 1.0);
+  float size = u_magnitudeScale * (0.3 + magNorm * 1.2) * u_pointScale;
+  if (a_comet > 0.5) size *= 2.5;
+  gl_PointSize = clamp(size, 2.0, 40.0);
+
+  v_color = a_color;
+  v_brightness = 0.3 + magNorm * 0.7;
+  v_comet = a_comet;
+
+  v_visibility = 1.0 - smoothstep(u_limitingMagnitude - 1.0, u_limitingMagnitude, a_magnitude);
+  if (v_visibility <= 0.0) {
+    gl_Position = vec4(2.0, 2.0, 2.0, 1.0); // Outside the clip volume
+  }
+}
+`;
+
+const fragmentShaderSource = `#version 300 es
+precision highp float;
+
+in vec3 v_color;
+in float v_brightness;
+in float v_visibility;
+in float v_comet;
+
+uniform lowp int u_lightMode;
+uniform lowp int u_nightMode;
+
+out vec4 fragColor;
+
+void main() {
+  vec2 coord = gl_PointCoord - vec2(0.5);
+  float dist = length(coord);
+  if (dist > 0.5) discard;
+
+  float alpha;
+  if (v_comet > 0.5) {
+    // Condensed nucleus inside a gaussian coma
+    alpha = exp(-dist * dist * 40.0) * 0.7 + (1.0 - smoothstep(0.0, 0.06, dist)) * 0.5;
+  } else {
+    alpha = 1.0 - smoothstep(0.3, 0.5, dist);
+  }
+  alpha = clamp(alpha, 0.0, 1.0) * v_visibility * v_brightness;
+
+  vec3 color = v_color;
+  if (u_nightMode == 1) {
+    float luminance = dot(color, vec3(0.299, 0.587, 0.114));
+    color = vec3(luminance, luminance * 0.15, luminance * 0.1);
+  } else if (u_lightMode == 1) {
+    color *= 0.4;
+  }
+
+  fragColor = vec4(color, alpha);
+}
+`;
+
+function createShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader | null {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    console.error('Minor body shader error:', gl.getShaderInfoLog(shader));
+    gl.deleteShader(shader);
+    return null;
+  }
+  return shader;
+}
+
+function createProgram(gl: WebGL2RenderingContext, vs: WebGLShader, fs: WebGLShader): WebGLProgram | null {
+  const program = gl.createProgram();
+  if (!program) return null;
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error('Minor body program error:', gl.getProgramInfoLog(program));
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+}
+
+// Create view projection matrix (same as star renderer)
+function createProjectionMatrix(fov: number, aspect: number): Float32Array {
+  const f = 1.0 / Math.tan(fov * Math.PI / 360);
+  const near = 0.1;
+  const far = 10.0;
+  const rangeInv = 1.0 / (near - far);
+  return new Float32Array([
+    f / aspect, 0, 0, 0,
+    0, f, 0, 0,
+    0, 0, (near + far) * rangeInv, -1,
+    0, 0, near * far * rangeInv * 2, 0
+  ]);
+}
+
+function createViewMatrix(yaw: number, pitch: number): Float32Array {
+  const cy = Math.cos(yaw);
+  const sy = Math.sin(yaw);
+  const cp = Math.cos(pitch);
+  const sp = Math.sin(pitch);
+  return new Float32Array([
+    cy, sy * sp, sy * cp, 0,
+    0, cp, -sp, 0,
+    sy, -cy * sp, -cy * cp, 0,
+    0, 0, 0, 1
+  ]);
+}
+
+function multiplyMatrices(a: Float32Array, b: Float32Array): Float32Array {
+  const result = new Float32Array(16);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      result[col * 4 + row] =
+        a[0 * 4 + row] * b[col * 4 + 0] +
+        a[1 * 4 + row] * b[col * 4 + 1] +
+        a[2 * 4 + row] * b[col * 4 + 2] +
+        a[3 * 4 + row] * b[col * 4 + 3];
+    }
+  }
+  return result;
+}
+
+export interface MinorBodyRendererOptions {
+  fov?: number;
+  magnitudeScale?: number;
+  lightMode?: boolean;
+  nightMode?: boolean;
+  refraction?: AtmosphereConditions | null;  // null disables refraction
+  sunAltitude?: number | null;  // Solar altitude in degrees; null keeps the night sky
+  limitingMagnitude?: number;   // Faintest body drawn under a dark sky
+}
+
+export function useMinorBodyRenderer(
+  canvasRef: React.RefObject<HTMLCanvasElement | null>,
+  bodies: SolarSystemBody[],
+  location: GeoLocation,
+  date: Date,
+  viewRef: React.RefObject<{ yaw: number; pitch: number }>,
+  options: MinorBodyRendererOptions = {}
+) {
+  const { fov = 60, magnitudeScale = 15, lightMode = false, nightMode = false, refraction = null, sunAltitude = null, limitingMagnitude } = options;
+
+  const glRef = useRef<WebGL2RenderingContext | null>(null);
+  const programRef = useRef<WebGLProgram | null>(null);
+  const vaoRef = useRef<WebGLVertexArrayObject | null>(null);
+  const bufferRef = useRef<WebGLBuffer | null>(null);
+  const uniformsRef = useRef<{
+    viewProjection: WebGLUniformLocation | null;
+    celestialRotation: WebGLUniformLocation | null;
+    pointScale: WebGLUniformLocation | null;
+    magnitudeScale: WebGLUniformLocation | null;
+    limitingMagnitude: WebGLUniformLocation | null;
+    lightMode: WebGLUniformLocation | null;
+    nightMode: WebGLUniformLocation | null;
+    refraction: WebGLUniformLocation | null;
+    refractionScale: WebGLUniformLocation | null;
+  } | null>(null);
+
+  // Initialize
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const gl = canvas.getContext('webgl2');
+    if (!gl) return;
+
+    const vs = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+    const fs = createShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource);
+    if (!vs || !fs) return;
+
+    const program = createProgram(gl, vs, fs);
+    if (!program) return;
+
+    uniformsRef.current = {
+      viewProjection: gl.getUniformLocation(program, 'u_viewProjection'),
+      celestialRotation: gl.getUniformLocation(program, 'u_celestialRotation'),
+      pointScale: gl.getUniformLocation(program, 'u_pointScale'),
+      magnitudeScale: gl.getUniformLocation(program, 'u_magnitudeScale'),
+      limitingMagnitude: gl.getUniformLocation(program, 'u_limitingMagnitude'),
+      lightMode: gl.getUniformLocation(program, 'u_lightMode'),
+      nightMode: gl.getUniformLocation(program, 'u_nightMode'),
+      refraction: gl.getUniformLocation(program, 'u_refraction'),
+      refractionScale: gl.getUniformLocation(program, 'u_refractionScale'),
+    };
+
+    // One interleaved buffer: position (3), magnitude, comet flag, color (3)
+    const vao = gl.createVertexArray();
+    const buffer = gl.createBuffer();
+    gl.bindVertexArray(vao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    const stride = 8 * 4;
+    const attributes: [string, number, number][] = [
+      ['a_position', 3, 0],
+      ['a_magnitude', 1, 3],
+      ['a_comet', 1, 4],
+      ['a_color', 3, 5],
+    ];
+    for (const [name, size, offset] of attributes) {
+      const loc = gl.getAttribLocation(program, name);
+      gl.enableVertexAttribArray(loc);
+      gl.vertexAttribPointer(loc, size, gl.FLOAT, false, stride, offset * 4);
+    }
+    gl.bindVertexArray(null);
+
+    glRef.current = gl;
+    programRef.current = program;
+    vaoRef.current = vao;
+    bufferRef.current = buffer;
+
+    return () => {
+      gl.deleteBuffer(buffer);
+      gl.deleteVertexArray(vao);
+      gl.deleteProgram(program);
+      gl.deleteShader(vs);
+      gl.deleteShader(fs);
+    };
+  }, [canvasRef]);
+
+  // Positions change with the date, so the buffer is refilled with the bodies
+  useEffect(() => {
+    const gl = glRef.current;
+    if (!gl || !bufferRef.current) return;
+
+    const data = new Float32Array(bodies.length * 8);
+    bodies.forEach((body, i) => {
+      data.set([body.x, body.y, body.z, body.mag, body.type === 'comet' ? 1 : 0, ...body.color], i * 8);
+    });
+    gl.bindBuffer(gl.ARRAY_BUFFER, bufferRef.current);
+    gl.bufferData(gl.ARRAY_BUFFER, data, gl.DYNAMIC_DRAW);
+  }, [bodies]);
+
+  const render = useCallback(() => {
+    const gl = glRef.current;
+    const program = programRef.current;
+    const uniforms = uniformsRef.current;
+    const canvas = canvasRef.current;
+
+    if (!gl || !program || !uniforms || !canvas || bodies.length === 0) return;
+
+    gl.useProgram(program);
+    gl.bindVertexArray(vaoRef.current);
+    gl.enable(gl.BLEND);
+    if (lightMode) {
+      gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    } else {
+      gl.blendFunc(gl.SRC_ALPHA, gl.ONE);
+    }
+
+    const aspect = canvas.width / canvas.height;
+    const projection = createProjectionMatrix(fov, aspect);
+    const currentView = viewRef.current || { yaw: 0, pitch: 0 };
+    const view = createViewMatrix(currentView.yaw, currentView.pitch);
+
+    gl.uniformMatrix4fv(uniforms.viewProjection, false, multiplyMatrices(projection, view));
+    gl.uniformMatrix4fv(uniforms.celestialRotation, false, getCelestialRotationMatrix(location, date));
+    gl.uniform1f(uniforms.pointScale, Math.min(canvas.width, canvas.height) / 800);
+    gl.uniform1f(uniforms.magnitudeScale, magnitudeScale);
+    gl.uniform1f(uniforms.limitingMagnitude, getLimitingMagnitude(sunAltitude, limitingMagnitude));
+    gl.uniform1i(uniforms.lightMode, lightMode ? 1 : 0);
+    gl.uniform1i(uniforms.nightMode, nightMode ? 1 : 0);
+    gl.uniform1i(uniforms.refraction, refraction ? 1 : 0);
+    gl.uniform1f(uniforms.refractionScale, refraction ? getRefractionScale(refraction) : 1);
+
+    gl.drawArrays(gl.POINTS, 0, bodies.length);
+    gl.bindVertexArray(null);
+  }, [canvasRef, bodies, location, date, viewRef, fov, magnitudeScale, lightMode, nightMode, refraction, sunAltitude, limitingMagnitude]);
+
+  return { render };
+}
@@ -0,0 +1,305 @@
+/**
+ * WebGL Satellite Renderer
+ * Renders artificial satellites as points in the horizon frame, with fading trails
+ * of their recent track; satellites in the Earth's shadow are drawn dim
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { getRefractionScale, horizontalToCartesian, type AtmosphereConditions } from '../utils/astronomy';
+import type { Satellite } from '../utils/satellites';
+import { REFRACTION_GLSL } from './useSkyRenderer';
+
+const vertexShaderSource = `#version 300 es
+precision highp float;
+
+in vec3 a_position;   // Horizon frame, any length
+in float a_alpha;
+in float a_sunlit;
+
+uniform mat4 u_viewProjection;
+uniform float u_pointSize;
+
+out float v_alpha;
+out float v_sunlit;
+${REFRACTION_GLSL}
+void main() {
+  gl_Position = u_viewProjection * vec4(applyRefraction(a_position), 1.0);
+  gl_PointSize = u_pointSize;
+  v_alpha = a_alpha;
+  v_sunlit = a_sunlit;
+}
+`;
+
+const fragmentShaderSource = `#version 300 es
+precision highp float;
+
+in float v_alpha;
+in float v_sunlit;
+
+uniform lowp int u_points;
+uniform lowp int u_lightMode;
+uniform lowp int u_nightMode;
+
+out vec4 fragColor;
+
+void main() {
+  float alpha = v_alpha;
+  if (u_points == 1) {
+    float dist = length(gl_PointCoord - vec2(0.5));
+    if (dist > 0.5) discard;
+    alpha *= 1.0 - smoothstep(0.3, 0.5, dist);
+  }
+
+  vec3 color = mix(vec3(0.45, 0.5, 0.6), vec3(1.0, 1.0, 0.92), v_sunlit);
+  if (v_sunlit < 0.5) alpha *= 0.6;
+  if (u_nightMode == 1) {
+    float luminance = dot(color, vec3(0.299, 0.587, 0.114));
+    color = vec3(luminance, luminance * 0.15, luminance * 0.1);
+  } else if (u_lightMode == 1) {
+    color *= 0.3;
+  }
+
+  fragColor = vec4(color, alpha);
+}
+`;
+
+// Opacity of the newest end of a trail
+const TRAIL_ALPHA = 0.5;
+
+function createShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader | null {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    console.error('Satellite shader error:', gl.getShaderInfoLog(shader));
+    gl.deleteShader(shader);
+    return null;
+  }
+  return shader;
+}
+
+function createProgram(gl: WebGL2RenderingContext, vs: WebGLShader, fs: WebGLShader): WebGLProgram | null {
+  const program = gl.createProgram();
+  if (!program) return null;
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error('Satellite program error:', gl.getProgramInfoLog(program));
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+}
+
+// Create view projection matrix (same as star renderer)
+function createProjectionMatrix(fov: number, aspect: number): Float32Array {
+  const f = 1.0 / Math.tan(fov * Math.PI / 360);
+  const near = 0.1;
+  const far = 10.0;
+  const rangeInv = 1.0 / (near - far);
+  return new Float32Array([
+    f / aspect, 0, 0, 0,
+    0, f, 0, 0,
+    0, 0, (near + far) * rangeInv, -1,
+    0, 0, near * far * rangeInv * 2, 0
+  ]);
+}
+
+function createViewMatrix(yaw: number, pitch: number): Float32Array {
+  const cy = Math.cos(yaw);
+  const sy = Math.sin(yaw);
+  const cp = Math.cos(pitch);
+  const sp = Math.sin(pitch);
+  return new Float32Array([
+    cy, sy * sp, sy * cp, 0,
+    0, cp, -sp, 0,
+    sy, -cy * sp, -cy * cp, 0,
+    0, 0, 0, 1
+  ]);
+}
+
+function multiplyMatrices(a: Float32Array, b: Float32Array): Float32Array {
+  const result = new Float32Array(16);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      result[col * 4 + row] =
+        a[0 * 4 + row] * b[col * 4 + 0] +
+        a[1 * 4 + row] * b[col * 4 + 1] +
+        a[2 * 4 + row] * b[col * 4 + 2] +
+        a[3 * 4 + row] * b[col * 4 + 3];
+    }
+  }
+  return result;
+}
+
+export interface SatelliteRendererOptions {
+  fov?: number;
+  lightMode?: boolean;
+  nightMode?: boolean;
+  refraction?: AtmosphereConditions | null;  // null disables refraction
+}
+
+export function useSatelliteRenderer(
+  canvasRef: React.RefObject<HTMLCanvasElement | null>,
+  satellites: Satellite[],
+  viewRef: React.RefObject<{ yaw: number; pitch: number }>,
+  options: SatelliteRendererOptions = {}
+) {
+  const { fov = 60, lightMode = false, nightMode = false, refraction = null } = options;
+
+  const glRef = useRef<WebGL2RenderingContext | null>(null);
+  const programRef = useRef<WebGLProgram | null>(null);
+  const pointsRef = useRef<{ vao: WebGLVertexArrayObject; buffer: WebGLBuffer; count: number } | null>(null);
+  const trailsRef = useRef<{ vao: WebGLVertexArrayObject; buffer: WebGLBuffer; count: number } | null>(null);
+  const uniformsRef = useRef<{
+    viewProjection: WebGLUniformLocation | null;
+    pointSize: WebGLUniformLocation | null;
+    points: WebGLUniformLocation | null;
+    lightMode: WebGLUniformLocation | null;
+    nightMode: WebGLUniformLocation | null;
+    refraction: WebGLUniformLocation | null;
+    refractionScale: WebGLUniformLocation | null;
+  } | null>(null);
+
+  // Initialize
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const gl = canvas.getContext('webgl2');
+    if (!gl) return;
+
+    const vs = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+    const fs = createShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource);
+    if (!vs || !fs) return;
+
+    const program = createProgram(gl, vs, fs);
+    if (!program) return;
+
+    uniformsRef.current = {
+      viewProjection: gl.getUniformLocation(program, 'u_viewProjection'),
+      pointSize: gl.getUniformLocation(program, 'u_pointSize'),
+      points: gl.getUniformLocation(program, 'u_points'),
+      lightMode: gl.getUniformLocation(program, 'u_lightMode'),
+      nightMode: gl.getUniformLocation(program, 'u_nightMode'),
+      refraction: gl.getUniformLocation(program, 'u_refraction'),
+      refractionScale: gl.getUniformLocation(program, 'u_refractionScale'),
+    };
+
+    // Points and trail segments share one layout: position (3), alpha, sunlit flag
+    const createGeometry = () => {
+      const vao = gl.createVertexArray();
+      const buffer = gl.createBuffer();
+      gl.bindVertexArray(vao);
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      const attributes: [string, number, number][] = [
+        ['a_position', 3, 0],
+        ['a_alpha', 1, 3],
+        ['a_sunlit', 1, 4],
+      ];
+      for (const [name, size, offset] of attributes) {
+        const loc = gl.getAttribLocation(program, name);
+        gl.enableVertexAttribArray(loc);
+        gl.vertexAttribPointer(loc, size, gl.FLOAT, false, 5 * 4, offset * 4);
+      }
+      gl.bindVertexArray(null);
+      return { vao, buffer, count: 0 };
+    };
+
+    const points = createGeometry();
+    const trails = createGeometry();
+
+    glRef.current = gl;
+    programRef.current = program;
+    pointsRef.current = points;
+    trailsRef.current = trails;
+
+    return () => {
+      for (const { vao, buffer } of [points, trails]) {
+        gl.deleteBuffer(buffer);
+        gl.deleteVertexArray(vao);
+      }
+      gl.deleteProgram(program);
+      gl.deleteShader(vs);
+      gl.deleteShader(fs);
+    };
+  }, [canvasRef]);
+
+  // Satellites move every frame while the clock runs, so both buffers are refilled
+  useEffect(() => {
+    const gl = glRef.current;
+    const points = pointsRef.current;
+    const trails = trailsRef.current;
+    if (!gl || !points || !trails) return;
+
+    const pointData = new Float32Array(satellites.length * 5);
+    const trailData: number[] = [];
+    satellites.forEach((satellite, i) => {
+      const current = horizontalToCartesian(satellite);
+      const sunlit = satellite.sunlit ? 1 : 0;
+      pointData.set([...current, 1, sunlit], i * 5);
+
+      // Line segments from the oldest trail point to the current position
+      const track = [...satellite.trail, current];
+      for (let j = 1; j < track.length; j++) {
+        const from = TRAIL_ALPHA * (j - 1) / (track.length - 1);
+        const to = TRAIL_ALPHA * j / (track.length - 1);
+        trailData.push(...track[j - 1], from, sunlit, ...track[j], to, sunlit);
+      }
+    });
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, points.buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, pointData, gl.DYNAMIC_DRAW);
+    points.count = satellites.length;
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, trails.buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(trailData), gl.DYNAMIC_DRAW);
+    trails.count = trailData.length / 5;
+  }, [satellites]);
+
+  const render = useCallback(() => {
+    const gl = glRef.current;
+    const program = programRef.current;
+    const uniforms = uniformsRef.current;
+    const points = pointsRef.current;
+    const trails = trailsRef.current;
+    const canvas = canvasRef.current;
+
+    if (!gl || !program || !uniforms || !points || !trails || !canvas || points.count === 0) return;
+
+    gl.useProgram(program);
+    gl.enable(gl.BLEND);
+    if (lightMode) {
+      gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    } else {
+      gl.blendFunc(gl.SRC_ALPHA, gl.ONE);
+    }
+
+    const aspect = canvas.width / canvas.height;
+    const projection = createProjectionMatrix(fov, aspect);
+    const currentView = viewRef.current || { yaw: 0, pitch: 0 };
+    const view = createViewMatrix(currentView.yaw, currentView.pitch);
+
+    gl.uniformMatrix4fv(uniforms.viewProjection, false, multiplyMatrices(projection, view));
+    gl.uniform1f(uniforms.pointSize, Math.max(3, 5 * Math.min(canvas.width, canvas.height) / 800));
+    gl.uniform1i(uniforms.lightMode, lightMode ? 1 : 0);
+    gl.uniform1i(uniforms.nightMode, nightMode ? 1 : 0);
+    gl.uniform1i(uniforms.refraction, refraction ? 1 : 0);
+    gl.uniform1f(uniforms.refractionScale, refraction ? getRefractionScale(refraction) : 1);
+
+    if (trails.count > 0) {
+      gl.uniform1i(uniforms.points, 0);
+      gl.bindVertexArray(trails.vao);
+      gl.drawArrays(gl.LINES, 0, trails.count);
+    }
+
+    gl.uniform1i(uniforms.points, 1);
+    gl.bindVertexArray(points.vao);
+    gl.drawArrays(gl.POINTS, 0, points.count);
+    gl.bindVertexArray(null);
+  }, [canvasRef, viewRef, fov, lightMode, nightMode, refraction]);
+
+  return { render };
+}
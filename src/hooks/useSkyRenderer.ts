@@ -4,32 +4,76 @@
  */
 
 import { useCallback, useEffect, useRef } from 'react';
-import type { StarData } from '../utils/starLoader';
-import { getCelestialRotationMatrix, type GeoLocation } from '../utils/astronomy';
+import { countStarsToMagnitude, type StarData } from '../utils/starLoader';
+import { DEFAULT_STAR_SATURATION } from '../utils/starColors';
+import { findVariableStars, getVariableMagnitude } from '../utils/variableStars';
+import {
+  getCelestialRotationMatrix,
+  getEpochYears,
+  getRefractionScale,
+  type AtmosphereConditions,
+  type GeoLocation,
+  type Vec3,
+} from '../utils/astronomy';
+
+/**
+ * Atmospheric refraction in the horizon frame (x = East, y = Up, z = North)
+ * GPU version of refractHorizontalVector in astronomy.ts (Saemundsson)
+ */
+export const REFRACTION_GLSL = `
+uniform lowp int u_refraction;
+uniform float u_refractionScale;
+
+vec3 applyRefraction(vec3 pos) {
+  vec3 dir = normalize(pos);
+  if (u_refraction == 0) return dir;
+  
+  float alt = degrees(asin(clamp(dir.y, -1.0, 1.0)));
+  float h = max(alt, -1.0);
+  float r = max(0.0, 1.02 / tan(radians(h + 10.3 / (h + 5.11))) + 0.0019279) * u_refractionScale / 60.0;
+  float horizontal = length(dir.xz);
+  if (r <= 0.0 || horizontal < 1e-6) return dir;
+  
+  float newAlt = radians(min(alt + r, 90.0));
+  vec2 az = dir.xz / horizontal;
+  return vec3(az.x * cos(newAlt), sin(newAlt), az.y * cos(newAlt));
+}
+`;
 
 const vertexShaderSource = `#version 300 es
 precision highp float;
 
 in vec3 a_position;
+in vec3 a_velocity;
 in float a_magnitude;
 in vec3 a_color;
 
 uniform mat4 u_viewProjection;
 uniform mat4 u_celestialRotation;
+uniform float u_epochYears;
 uniform float u_pointScale;
 uniform float u_magnitudeScale;
+uniform float u_limitingMagnitude;
+uniform float u_saturation;
 uniform lowp int u_lightMode;
 uniform lowp int u_nightMode;
 
 out vec3 v_color;
 out float v_brightness;
-
+out float v_visibility;
+${REFRACTION_GLSL}
 void main() {
+  // Move the star along its space motion to the displayed epoch
+  vec3 catalogPos = normalize(a_position + a_velocity * u_epochYears);
+  
   // Rotate star position from celestial to observer coordinates
-  vec4 rotatedPos = u_celestialRotation * vec4(a_position, 1.0);
+  vec4 rotatedPos = u_celestialRotation * vec4(catalogPos, 1.0);
+  
+  // Lift towards the zenith by atmospheric refraction
+  vec3 observedPos = applyRefraction(rotatedPos.xyz);
   
   // Project onto screen
-  gl_Position = u_viewProjection * rotatedPos;
+  gl_Position = u_viewProjection * vec4(observedPos, 1.0);
   
   // Calculate point size based on magnitude
   // Brighter stars (lower magnitude) = larger points
@@ -45,9 +89,17 @@ void main() {
   // Clamp size - smaller min/max
   gl_PointSize = clamp(size, 1.0, 15.0);
   
-  v_color = a_color;
+  // Blackbody colour, pushed from or towards grey (saturateColor in starColors)
+  float luma = dot(a_color, vec3(0.2126, 0.7152, 0.0722));
+  v_color = clamp(mix(vec3(luma), a_color, u_saturation), 0.0, 1.0);
   // Brightness for alpha: more contrast between bright and dim
   v_brightness = 0.3 + magNorm * 0.7;
+  
+  // Fade out stars fainter than the sky brightness allows
+  v_visibility = 1.0 - smoothstep(u_limitingMagnitude - 1.0, u_limitingMagnitude, a_magnitude);
+  if (v_visibility <= 0.0) {
+    gl_Position = vec4(2.0, 2.0, 2.0, 1.0); // Outside the clip volume
+  }
 }
 `;
 
@@ -56,6 +108,7 @@ precision highp float;
 
 in vec3 v_color;
 in float v_brightness;
+in float v_visibility;
 
 uniform lowp int u_lightMode;
 uniform lowp int u_nightMode;
@@ -75,6 +128,7 @@ void main() {
     // Circle mode: soft circular falloff
     alpha = 1.0 - smoothstep(0.3, 0.5, dist);
   }
+  alpha *= v_visibility;
   
   vec3 finalColor;
   
@@ -150,6 +204,10 @@ function createProjectionMatrix(fov: number, aspect: number): Float32Array {
 
 /**
  * Create a view matrix for looking in a direction
+ * Yaw is minus the azimuth and pitch is the altitude of the view centre.
+ * The horizon frame (East, Up, North) is left-handed as seen from inside the
+ * sphere, so this matrix includes a reflection to keep East on the left when
+ * facing South.
  */
 function createViewMatrix(yaw: number, pitch: number): Float32Array {
   const cy = Math.cos(yaw);
@@ -159,9 +217,9 @@ function createViewMatrix(yaw: number, pitch: number): Float32Array {
   
   // Look direction
   return new Float32Array([
-    cy, sy * sp, -sy * cp, 0,
-    0, cp, sp, 0,
-    sy, -cy * sp, cy * cp, 0,
+    cy, sy * sp, sy * cp, 0,
+    0, cp, -sp, 0,
+    sy, -cy * sp, -cy * cp, 0,
     0, 0, 0, 1
   ]);
 }
@@ -184,12 +242,88 @@ function multiplyMatrices(a: Float32Array, b: Float32Array): Float32Array {
   return result;
 }
 
+// Sky colour at a given solar altitude, from astronomical night to full daylight
+const SKY_COLOR_KEYFRAMES: [number, [number, number, number]][] = [
+  [-18, [0.02, 0.02, 0.08]],
+  [-12, [0.03, 0.04, 0.12]],
+  [-6, [0.10, 0.14, 0.30]],
+  [0, [0.35, 0.45, 0.65]],
+  [10, [0.40, 0.60, 0.90]],
+  [30, [0.35, 0.60, 0.95]],
+];
+
+// Naked-eye limiting magnitude under a dark sky, the default faintest star drawn
+export const NAKED_EYE_LIMITING_MAGNITUDE = 6.5;
+
+// Approximate naked-eye limiting magnitude at a given solar altitude
+const LIMITING_MAGNITUDE_KEYFRAMES: [number, number][] = [
+  [-18, NAKED_EYE_LIMITING_MAGNITUDE],
+  [-15, 6.0],
+  [-12, 4.5],
+  [-9, 3.0],
+  [-6, 1.5],
+  [-3, 0.0],
+  [0, -1.5],
+  [10, -4.0],
+];
+
+/**
+ * Linearly interpolate between keyframes sorted by solar altitude
+ */
+function interpolateKeyframes<T extends number | number[]>(keyframes: [number, T][], altitude: number): T {
+  if (altitude <= keyframes[0][0]) return keyframes[0][1];
+  for (let i = 1; i < keyframes.length; i++) {
+    const [a1, v1] = keyframes[i];
+    if (altitude <= a1) {
+      const [a0, v0] = keyframes[i - 1];
+      const t = (altitude - a0) / (a1 - a0);
+      if (typeof v0 === 'number') {
+        return (v0 + ((v1 as number) - v0) * t) as T;
+      }
+      return v0.map((c, j) => c + ((v1 as number[])[j] - c) * t) as T;
+    }
+  }
+  return keyframes[keyframes.length - 1][1];
+}
+
+/**
+ * Faintest magnitude drawn for a given solar altitude (null: no daylight),
+ * never fainter than the limit chosen for a dark sky
+ */
+export function getLimitingMagnitude(
+  sunAltitude: number | null,
+  darkSkyLimit: number = NAKED_EYE_LIMITING_MAGNITUDE
+): number {
+  if (sunAltitude === null) return darkSkyLimit;
+  
+  // A fainter dark-sky limit only shows once twilight has faded
+  const keyframes = LIMITING_MAGNITUDE_KEYFRAMES.map(([altitude, magnitude], i): [number, number] =>
+    [altitude, i === 0 ? Math.max(magnitude, darkSkyLimit) : magnitude]
+  );
+  return Math.min(darkSkyLimit, interpolateKeyframes(keyframes, sunAltitude));
+}
+
+// Per-star vertex attributes, in the order of the GPU buffers
+const STAR_ATTRIBUTES = [
+  { name: 'a_position', size: 3, data: (stars: StarData) => stars.positions },
+  { name: 'a_velocity', size: 3, data: (stars: StarData) => stars.velocities },
+  { name: 'a_magnitude', size: 1, data: (stars: StarData) => stars.magnitudes },
+  { name: 'a_color', size: 3, data: (stars: StarData) => stars.colors },
+];
+
+// Buffer rewritten each frame for variable stars
+const MAGNITUDE_ATTRIBUTE = STAR_ATTRIBUTES.findIndex(({ name }) => name === 'a_magnitude');
+
 export interface SkyRendererOptions {
   fov?: number;
   magnitudeScale?: number;
   lightMode?: boolean;
   nightMode?: boolean;
   pixelStars?: boolean;
+  refraction?: AtmosphereConditions | null;  // null disables refraction
+  sunAltitude?: number | null;  // Solar altitude in degrees; null keeps the night sky
+  limitingMagnitude?: number;   // Faintest star drawn under a dark sky
+  colorSaturation?: number;     // 1 draws blackbody colours as they are
 }
 
 export function useSkyRenderer(
@@ -199,7 +333,17 @@ export function useSkyRenderer(
   date: Date,
   options: SkyRendererOptions = {}
 ) {
-  const { fov = 60, magnitudeScale = 15, lightMode = false, nightMode = false, pixelStars = false } = options;
+  const {
+    fov = 60,
+    magnitudeScale = 15,
+    lightMode = false,
+    nightMode = false,
+    pixelStars = false,
+    refraction = null,
+    sunAltitude = null,
+    limitingMagnitude = NAKED_EYE_LIMITING_MAGNITUDE,
+    colorSaturation = DEFAULT_STAR_SATURATION,
+  } = options;
   
   const glRef = useRef<WebGL2RenderingContext | null>(null);
   const programRef = useRef<WebGLProgram | null>(null);
@@ -207,15 +351,24 @@ export function useSkyRenderer(
   const uniformsRef = useRef<{
     viewProjection: WebGLUniformLocation | null;
     celestialRotation: WebGLUniformLocation | null;
+    epochYears: WebGLUniformLocation | null;
     pointScale: WebGLUniformLocation | null;
     magnitudeScale: WebGLUniformLocation | null;
+    limitingMagnitude: WebGLUniformLocation | null;
+    saturation: WebGLUniformLocation | null;
     lightMode: WebGLUniformLocation | null;
     nightMode: WebGLUniformLocation | null;
     pixelStars: WebGLUniformLocation | null;
+    refraction: WebGLUniformLocation | null;
+    refractionScale: WebGLUniformLocation | null;
   } | null>(null);
   
   const viewRef = useRef({ yaw: 0, pitch: 0 });
-  const starCountRef = useRef(0);
+  
+  // Star buffers, one per attribute, with room for `capacity` stars
+  const gpuRef = useRef<{ vao: WebGLVertexArrayObject; buffers: WebGLBuffer[]; capacity: number } | null>(null);
+  // Stars currently in the buffers, brightest first
+  const uploadedRef = useRef<StarData | null>(null);
 
   // Initialize WebGL
   useEffect(() => {
@@ -248,11 +401,16 @@ export function useSkyRenderer(
     uniformsRef.current = {
       viewProjection: gl.getUniformLocation(program, 'u_viewProjection'),
       celestialRotation: gl.getUniformLocation(program, 'u_celestialRotation'),
+      epochYears: gl.getUniformLocation(program, 'u_epochYears'),
       pointScale: gl.getUniformLocation(program, 'u_pointScale'),
       magnitudeScale: gl.getUniformLocation(program, 'u_magnitudeScale'),
+      limitingMagnitude: gl.getUniformLocation(program, 'u_limitingMagnitude'),
+      saturation: gl.getUniformLocation(program, 'u_saturation'),
       pixelStars: gl.getUniformLocation(program, 'u_pixelStars'),
       lightMode: gl.getUniformLocation(program, 'u_lightMode'),
       nightMode: gl.getUniformLocation(program, 'u_nightMode'),
+      refraction: gl.getUniformLocation(program, 'u_refraction'),
+      refractionScale: gl.getUniformLocation(program, 'u_refractionScale'),
     };
     
     glRef.current = gl;
@@ -269,50 +427,70 @@ export function useSkyRenderer(
     };
   }, [canvasRef]);
 
-  // Upload star data when available
+  // Upload star data when available. Fainter tiers extend the data already
+  // uploaded, so only the new stars are sent; the buffers grow on the GPU.
   useEffect(() => {
     const gl = glRef.current;
     const program = programRef.current;
     if (!gl || !program || !starData) return;
     
-    // Create and bind VAO
-    const vao = gl.createVertexArray();
-    gl.bindVertexArray(vao);
-    
-    // Position buffer
-    const posBuffer = gl.createBuffer();
-    gl.bindBuffer(gl.ARRAY_BUFFER, posBuffer);
-    gl.bufferData(gl.ARRAY_BUFFER, starData.positions, gl.STATIC_DRAW);
-    const posLoc = gl.getAttribLocation(program, 'a_position');
-    gl.enableVertexAttribArray(posLoc);
-    gl.vertexAttribPointer(posLoc, 3, gl.FLOAT, false, 0, 0);
+    const previous = uploadedRef.current;
+    const start = previous && starData.count >= previous.count && starData.stars[0] === previous.stars[0]
+      ? previous.count
+      : 0;
     
-    // Magnitude buffer
-    const magBuffer = gl.createBuffer();
-    gl.bindBuffer(gl.ARRAY_BUFFER, magBuffer);
-    gl.bufferData(gl.ARRAY_BUFFER, starData.magnitudes, gl.STATIC_DRAW);
-    const magLoc = gl.getAttribLocation(program, 'a_magnitude');
-    gl.enableVertexAttribArray(magLoc);
-    gl.vertexAttribPointer(magLoc, 1, gl.FLOAT, false, 0, 0);
+    let gpu = gpuRef.current;
+    if (!gpu) {
+      gpu = { vao: gl.createVertexArray(), buffers: STAR_ATTRIBUTES.map(() => gl.createBuffer()), capacity: 0 };
+      gpuRef.current = gpu;
+    }
+    gl.bindVertexArray(gpu.vao);
     
-    // Color buffer
-    const colorBuffer = gl.createBuffer();
-    gl.bindBuffer(gl.ARRAY_BUFFER, colorBuffer);
-    gl.bufferData(gl.ARRAY_BUFFER, starData.colors, gl.STATIC_DRAW);
-    const colorLoc = gl.getAttribLocation(program, 'a_color');
-    gl.enableVertexAttribArray(colorLoc);
-    gl.vertexAttribPointer(colorLoc, 3, gl.FLOAT, false, 0, 0);
+    if (starData.count > gpu.capacity) {
+      const capacity = Math.max(starData.count, gpu.capacity * 2);
+      gpu.buffers = gpu.buffers.map((buffer, i) => {
+        const { name, size } = STAR_ATTRIBUTES[i];
+        const grown = gl.createBuffer();
+        gl.bindBuffer(gl.COPY_WRITE_BUFFER, grown);
+        gl.bufferData(gl.COPY_WRITE_BUFFER, capacity * size * 4, gl.STATIC_DRAW);
+        if (start > 0) {
+          gl.bindBuffer(gl.COPY_READ_BUFFER, buffer);
+          gl.copyBufferSubData(gl.COPY_READ_BUFFER, gl.COPY_WRITE_BUFFER, 0, 0, start * size * 4);
+        }
+        gl.deleteBuffer(buffer);
+        
+        gl.bindBuffer(gl.ARRAY_BUFFER, grown);
+        const location = gl.getAttribLocation(program, name);
+        gl.enableVertexAttribArray(location);
+        gl.vertexAttribPointer(location, size, gl.FLOAT, false, 0, 0);
+        return grown;
+      });
+      gpu.capacity = capacity;
+    }
     
-    vaoRef.current = vao;
-    starCountRef.current = starData.count;
+    STAR_ATTRIBUTES.forEach(({ size, data }, i) => {
+      gl.bindBuffer(gl.ARRAY_BUFFER, gpu.buffers[i]);
+      gl.bufferSubData(gl.ARRAY_BUFFER, start * size * 4, data(starData).subarray(start * size));
+    });
     
+    vaoRef.current = gpu.vao;
+    uploadedRef.current = starData;
+  }, [starData]);
+  
+  // Free the star buffers on unmount
+  useEffect(() => {
     return () => {
-      gl.deleteBuffer(posBuffer);
-      gl.deleteBuffer(magBuffer);
-      gl.deleteBuffer(colorBuffer);
-      gl.deleteVertexArray(vao);
+      const gl = glRef.current;
+      const gpu = gpuRef.current;
+      if (gl && gpu) {
+        gpu.buffers.forEach(buffer => gl.deleteBuffer(buffer));
+        gl.deleteVertexArray(gpu.vao);
+      }
+      gpuRef.current = null;
+      uploadedRef.current = null;
+      vaoRef.current = null;
     };
-  }, [starData]);
+  }, []);
 
   // Render function
   const render = useCallback(() => {
@@ -329,15 +507,22 @@ export function useSkyRenderer(
     
     gl.viewport(0, 0, width, height);
     
+    // Sky colour follows the Sun through twilight into daylight
+    const skyColor = sunAltitude !== null
+      ? interpolateKeyframes(SKY_COLOR_KEYFRAMES, sunAltitude)
+      : SKY_COLOR_KEYFRAMES[0][1];
+    
     // Background color based on mode
     if (nightMode) {
-      gl.clearColor(0.02, 0.0, 0.0, 1.0); // Very dark red/black for night vision
+      // Very dark red/black for night vision, brightening only as a dim red by day
+      const luminance = skyColor[0] * 0.299 + skyColor[1] * 0.587 + skyColor[2] * 0.114;
+      gl.clearColor(Math.max(0.02, luminance * 0.5), 0.0, 0.0, 1.0);
       gl.blendFunc(gl.SRC_ALPHA, gl.ONE); // Additive blending for glow
     } else if (lightMode) {
       gl.clearColor(0.95, 0.95, 0.92, 1.0); // Off-white
       gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA); // Normal blending for light mode
     } else {
-      gl.clearColor(0.02, 0.02, 0.08, 1.0); // Dark blue night sky
+      gl.clearColor(skyColor[0], skyColor[1], skyColor[2], 1.0); // Night, twilight or day sky
       gl.blendFunc(gl.SRC_ALPHA, gl.ONE); // Additive blending for glow
     }
     gl.clear(gl.COLOR_BUFFER_BIT);
@@ -357,21 +542,70 @@ export function useSkyRenderer(
     // Set uniforms
     gl.uniformMatrix4fv(uniforms.viewProjection, false, viewProjection);
     gl.uniformMatrix4fv(uniforms.celestialRotation, false, celestialRotation);
+    gl.uniform1f(uniforms.epochYears, getEpochYears(date));
     gl.uniform1f(uniforms.pointScale, Math.min(width, height) / 800);
     gl.uniform1f(uniforms.magnitudeScale, magnitudeScale);
+    const starLimit = getLimitingMagnitude(sunAltitude, limitingMagnitude);
+    gl.uniform1f(uniforms.limitingMagnitude, starLimit);
+    gl.uniform1f(uniforms.saturation, colorSaturation);
     gl.uniform1i(uniforms.lightMode, lightMode ? 1 : 0);
     gl.uniform1i(uniforms.nightMode, nightMode ? 1 : 0);
     gl.uniform1i(uniforms.pixelStars, pixelStars ? 1 : 0);
+    gl.uniform1i(uniforms.refraction, refraction ? 1 : 0);
+    gl.uniform1f(uniforms.refractionScale, refraction ? getRefractionScale(refraction) : 1);
     
-    // Draw stars
-    gl.drawArrays(gl.POINTS, 0, starCountRef.current);
-  }, [canvasRef, location, date, fov, magnitudeScale, lightMode, nightMode, pixelStars]);
+    // Draw stars, which are sorted brightest first, down to the limit
+    const uploaded = uploadedRef.current;
+    const gpu = gpuRef.current;
+    if (uploaded && gpu) {
+      let drawCount = countStarsToMagnitude(uploaded, starLimit);
+      
+      // Variable stars shine at their magnitude for the date; the catalog
+      // magnitude keeps their place in the order, so draw on to any that
+      // have brightened past the limit
+      gl.bindBuffer(gl.ARRAY_BUFFER, gpu.buffers[MAGNITUDE_ATTRIBUTE]);
+      for (const { index, elements } of findVariableStars(uploaded)) {
+        const magnitude = getVariableMagnitude(elements, date);
+        gl.bufferSubData(gl.ARRAY_BUFFER, index * 4, new Float32Array([magnitude]));
+        if (magnitude <= starLimit) drawCount = Math.max(drawCount, index + 1);
+      }
+      
+      gl.drawArrays(gl.POINTS, 0, drawCount);
+    }
+  }, [canvasRef, location, date, fov, magnitudeScale, lightMode, nightMode, pixelStars, refraction, sunAltitude, limitingMagnitude, colorSaturation]);
 
   // Set view direction
   const setView = useCallback((yaw: number, pitch: number) => {
     viewRef.current = { yaw, pitch };
   }, []);
 
+  // Direction in the observer frame (x = East, y = Up, z = North) under a point
+  // on the canvas, in CSS pixels. Inverse of the view and projection matrices.
+  const unproject = useCallback((x: number, y: number): Vec3 | null => {
+    const canvas = canvasRef.current;
+    if (!canvas || canvas.clientWidth === 0 || canvas.clientHeight === 0) return null;
+    
+    const f = 1.0 / Math.tan(fov * Math.PI / 360);
+    const aspect = canvas.clientWidth / canvas.clientHeight;
+    const ndcX = (x / canvas.clientWidth) * 2 - 1;
+    const ndcY = 1 - (y / canvas.clientHeight) * 2;
+    
+    // Point in view space on the plane z = -1
+    const vx = ndcX * aspect / f;
+    const vy = ndcY / f;
+    const vz = -1;
+    
+    // Rotate back with the transpose of createViewMatrix
+    const cy = Math.cos(viewRef.current.yaw), sy = Math.sin(viewRef.current.yaw);
+    const cp = Math.cos(viewRef.current.pitch), sp = Math.sin(viewRef.current.pitch);
+    const rx = cy * vx + sy * sp * vy + sy * cp * vz;
+    const ry = cp * vy - sp * vz;
+    const rz = sy * vx - cy * sp * vy - cy * cp * vz;
+    
+    const length = Math.sqrt(rx * rx + ry * ry + rz * rz);
+    return [rx / length, ry / length, rz / length];
+  }, [canvasRef, fov]);
+
   // Handle resize
   const handleResize = useCallback(() => {
     const canvas = canvasRef.current;
@@ -386,6 +620,7 @@ export function useSkyRenderer(
   return {
     render,
     setView,
+    unproject,
     handleResize,
     getView: () => viewRef.current,
   };
@@ -4,11 +4,51 @@
  * Coordinate systems:
  * - Equatorial: Right Ascension (RA) and Declination (Dec) - fixed to celestial sphere
  * - Horizontal: Altitude (Alt) and Azimuth (Az) - relative to observer's location
+ * 
+ * Catalog positions are J2000 (ICRS). Positions "of date" are referred to the
+ * true equator and equinox of the displayed date, i.e. after precession,
+ * nutation and annual aberration have been applied.
+ * 
+ * Dates are UT; ephemerides and precession run on TT (see time.ts).
  */
 
+import { dateToJD, dateToJDE } from './time';
+
 const DEG_TO_RAD = Math.PI / 180;
 const RAD_TO_DEG = 180 / Math.PI;
 const HOURS_TO_RAD = Math.PI / 12;
+const ARCSEC_TO_RAD = DEG_TO_RAD / 3600;
+const MAS_TO_RAD = ARCSEC_TO_RAD / 1000;
+
+// 1 km/s expressed in parsecs per Julian year
+const KMS_TO_PC_PER_YEAR = 1.0227121650537e-6;
+
+const J2000 = 2451545.0;
+
+export const AU_KM = 149597870.7;
+const EARTH_EQUATORIAL_RADIUS_KM = 6378.14;
+const EARTH_POLAR_AXIS_RATIO = 0.99664719;  // b/a of the reference ellipsoid
+
+/** Ratio of the sidereal to the solar rate of rotation */
+const SIDEREAL_RATE = 1.00273790935;
+
+/** Light travel time for 1 AU, in days */
+export const LIGHT_TIME_PER_AU = 0.0057755183;
+
+/** Mean length of the lunation in days */
+const SYNODIC_MONTH = 29.530588853;
+
+/** Constant of aberration (radians) */
+const ABERRATION_CONSTANT = 20.49552 * ARCSEC_TO_RAD;
+
+/** Cartesian vector in the celestial frame used by equatorialToCartesian */
+export type Vec3 = [number, number, number];
+
+/**
+ * 3x3 rotation matrix, row-major, acting on Vec3 in the celestial frame
+ * (x = vernal equinox, y = north celestial pole, z = RA 6h)
+ */
+type Matrix3 = number[];
 
 export interface EquatorialCoords {
   ra: number;   // Right Ascension in hours (0-24)
@@ -20,39 +60,56 @@ export interface HorizontalCoords {
   az: number;   // Azimuth in degrees (0-360, 0=North, 90=East)
 }
 
+export interface EclipticCoords {
+  lon: number;  // Ecliptic longitude in degrees (0-360)
+  lat: number;  // Ecliptic latitude in degrees (-90 to +90)
+}
+
+export interface GalacticCoords {
+  l: number;  // Galactic longitude in degrees (0-360)
+  b: number;  // Galactic latitude in degrees (-90 to +90)
+}
+
 export interface GeoLocation {
   lat: number;  // Latitude in degrees (-90 to +90)
   lon: number;  // Longitude in degrees (-180 to +180)
+  elevation: number;  // Height above sea level in metres
+}
+
+export interface AtmosphereConditions {
+  temperature: number;  // Air temperature in °C
+  pressure: number;     // Air pressure in hPa (millibars)
 }
 
+export const STANDARD_ATMOSPHERE: AtmosphereConditions = { temperature: 10, pressure: 1010 };
+
 /**
- * Calculate Julian Date from a JavaScript Date
+ * Typical air pressure at an elevation in metres (barometric formula of the
+ * international standard atmosphere, scaled to STANDARD_ATMOSPHERE at sea level)
  */
-export function dateToJD(date: Date): number {
-  const year = date.getUTCFullYear();
-  const month = date.getUTCMonth() + 1;
-  const day = date.getUTCDate();
-  const hour = date.getUTCHours();
-  const minute = date.getUTCMinutes();
-  const second = date.getUTCSeconds();
-  
-  let y = year;
-  let m = month;
-  
-  if (m <= 2) {
-    y -= 1;
-    m += 12;
-  }
-  
-  const A = Math.floor(y / 100);
-  const B = 2 - A + Math.floor(A / 4);
-  
-  const JD = Math.floor(365.25 * (y + 4716)) + 
-             Math.floor(30.6001 * (m + 1)) + 
-             day + B - 1524.5 +
-             (hour + minute / 60 + second / 3600) / 24;
-  
-  return JD;
+export function getStandardPressure(elevation: number): number {
+  return STANDARD_ATMOSPHERE.pressure * Math.pow(1 - 2.25577e-5 * elevation, 5.25588);
+}
+
+/**
+ * Dip of the sea-level horizon below the mathematical horizon for an observer
+ * at an elevation in metres, in degrees. Terrestrial refraction lifts the
+ * horizon slightly (1.76' rather than 1.93' per root metre).
+ */
+export function getHorizonDip(elevation: number, refracted: boolean = true): number {
+  if (elevation <= 0) return 0;
+  return ((refracted ? 1.76 : 1.93) * Math.sqrt(elevation)) / 60;
+}
+
+// Refraction formulas diverge below the horizon; the correction is held
+// constant below this altitude (degrees)
+const REFRACTION_MIN_ALTITUDE = -1;
+
+/**
+ * Julian years since J2000.0 (the catalog epoch)
+ */
+export function getEpochYears(date: Date): number {
+  return (dateToJDE(date) - J2000) / 365.25;
 }
 
 /**
@@ -76,15 +133,31 @@ export function jdToGMST(jd: number): number {
 }
 
 /**
- * Calculate Local Sidereal Time
+ * Calculate Greenwich Apparent Sidereal Time from Julian Date (UT)
+ * GMST corrected by the equation of the equinoxes (nutation in RA), with
+ * nutation evaluated at the Julian Ephemeris Day when given
+ * Returns GAST in hours (0-24)
+ */
+export function jdToGAST(jd: number, jde: number = jd): number {
+  const { longitude, obliquity } = getNutation(jde);
+  const eqEquinoxes = longitude * Math.cos(obliquity * DEG_TO_RAD) / 15;
+  
+  let gast = jdToGMST(jd) + eqEquinoxes;
+  gast = gast % 24;
+  if (gast < 0) gast += 24;
+  
+  return gast;
+}
+
+/**
+ * Calculate Local (apparent) Sidereal Time
  * Returns LST in hours (0-24)
  */
 export function getLST(date: Date, longitude: number): number {
-  const jd = dateToJD(date);
-  const gmst = jdToGMST(jd);
+  const gast = jdToGAST(dateToJD(date), dateToJDE(date));
   
   // Add longitude (convert degrees to hours)
-  let lst = gmst + longitude / 15;
+  let lst = gast + longitude / 15;
   
   // Normalize to 0-24 hours
   lst = lst % 24;
@@ -93,19 +166,423 @@ export function getLST(date: Date, longitude: number): number {
   return lst;
 }
 
+/**
+ * Julian centuries since J2000.0
+ */
+function julianCenturies(jd: number): number {
+  return (jd - J2000) / 36525.0;
+}
+
+/**
+ * Mean obliquity of the ecliptic, in degrees
+ * Angle between the long-term ecliptic and equator poles (see getPrecessionMatrix)
+ */
+export function getMeanObliquity(jd: number): number {
+  const T = julianCenturies(jd);
+  const [ex, ey, ez] = getEquatorPole(T);
+  const [kx, ky, kz] = getEclipticPole(T);
+  return Math.acos(ex * kx + ey * ky + ez * kz) * RAD_TO_DEG;
+}
+
+export interface Nutation {
+  longitude: number;      // Nutation in longitude (delta psi), degrees
+  obliquity: number;      // True obliquity of the ecliptic, degrees
+  meanObliquity: number;  // Mean obliquity of the ecliptic, degrees
+}
+
+/**
+ * Nutation in longitude and obliquity
+ * Uses the four largest terms of the IAU 1980 series (accurate to ~0.5")
+ */
+export function getNutation(jd: number): Nutation {
+  const T = julianCenturies(jd);
+  
+  // Longitude of the Moon's ascending node, mean longitudes of Sun and Moon
+  const omega = (125.04452 - 1934.136261 * T) * DEG_TO_RAD;
+  const L = (280.4665 + 36000.7698 * T) * DEG_TO_RAD;
+  const Lm = (218.3165 + 481267.8813 * T) * DEG_TO_RAD;
+  
+  const dPsi = -17.20 * Math.sin(omega) - 1.32 * Math.sin(2 * L) -
+               0.23 * Math.sin(2 * Lm) + 0.21 * Math.sin(2 * omega);
+  const dEps = 9.20 * Math.cos(omega) + 0.57 * Math.cos(2 * L) +
+               0.10 * Math.cos(2 * Lm) - 0.09 * Math.cos(2 * omega);
+  
+  const meanObliquity = getMeanObliquity(jd);
+  
+  return {
+    longitude: dPsi / 3600,
+    obliquity: meanObliquity + dEps / 3600,
+    meanObliquity,
+  };
+}
+
+/**
+ * Geometric ecliptic longitude of the Sun (mean equinox of date), in degrees,
+ * its distance in AU, and the orbital elements needed for aberration.
+ * Meeus, chapter 25.
+ */
+function getSolarLongitude(jd: number): { longitude: number; distance: number; eccentricity: number; perihelion: number } {
+  const T = julianCenturies(jd);
+  
+  const L0 = 280.46646 + 36000.76983 * T + 0.0003032 * T * T;
+  const M = (357.52911 + 35999.05029 * T - 0.0001537 * T * T) * DEG_TO_RAD;
+  const C = (1.914602 - 0.004817 * T - 0.000014 * T * T) * Math.sin(M) +
+            (0.019993 - 0.000101 * T) * Math.sin(2 * M) +
+            0.000289 * Math.sin(3 * M);
+  const e = 0.016708634 - 0.000042037 * T - 0.0000001267 * T * T;
+  
+  // True anomaly gives the radius vector
+  const nu = M + C * DEG_TO_RAD;
+  const distance = 1.000001018 * (1 - e * e) / (1 + e * Math.cos(nu));
+  
+  return {
+    longitude: L0 + C,
+    distance,
+    eccentricity: e,
+    perihelion: 102.93735 + 1.71946 * T + 0.00046 * T * T,
+  };
+}
+
+function multiplyMatrix3(a: Matrix3, b: Matrix3): Matrix3 {
+  const result = new Array(9).fill(0);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      result[row * 3 + col] =
+        a[row * 3] * b[col] +
+        a[row * 3 + 1] * b[3 + col] +
+        a[row * 3 + 2] * b[6 + col];
+    }
+  }
+  return result;
+}
+
+function transposeMatrix3(m: Matrix3): Matrix3 {
+  return [
+    m[0], m[3], m[6],
+    m[1], m[4], m[7],
+    m[2], m[5], m[8],
+  ];
+}
+
+function applyMatrix3(m: Matrix3, v: Vec3): Vec3 {
+  return [
+    m[0] * v[0] + m[1] * v[1] + m[2] * v[2],
+    m[3] * v[0] + m[4] * v[1] + m[5] * v[2],
+    m[6] * v[0] + m[7] * v[1] + m[8] * v[2],
+  ];
+}
+
+/**
+ * Convert a matrix from the conventional frame (X = equinox, Y = RA 6h, Z = pole)
+ * to the frame used by equatorialToCartesian (Y and Z swapped)
+ */
+function fromConventionalFrame(m: Matrix3): Matrix3 {
+  return [
+    m[0], m[2], m[1],
+    m[6], m[8], m[7],
+    m[3], m[5], m[4],
+  ];
+}
+
+// Long-term precession (Vondrák, Capitaine & Wallace 2011), valid for ±200,000 years
+// Polynomial coefficients (arcsec) and periodic terms: [period (centuries), cos, cos, sin, sin]
+const ECLIPTIC_POLE_POLY = [
+  [5851.607687, -0.1189000, -0.00028913, 0.000000101],
+  [-1600.886300, 1.1689818, -0.00000020, -0.000000437],
+];
+const ECLIPTIC_POLE_PERIODIC = [
+  [708.15, -5486.751211, -684.661560, 667.666730, -5523.863691],
+  [2309.00, -17.127623, 2446.283880, -2354.886252, -549.747450],
+  [1620.00, -617.517403, 399.671049, -428.152441, -310.998056],
+  [492.20, 413.442940, -356.652376, 376.202861, 421.535876],
+  [1183.00, 78.614193, -186.387003, 184.778874, -36.776172],
+  [622.00, -180.732815, -316.800070, 335.321713, -145.278396],
+  [882.00, -87.676083, 198.296701, -185.138669, -34.744450],
+  [547.00, 46.140315, 101.135679, -120.972830, 22.885731],
+];
+const EQUATOR_POLE_POLY = [
+  [5453.282155, 0.4252841, -0.00037173, -0.000000152],
+  [-73750.930350, -0.7675452, -0.00018725, 0.000000231],
+];
+const EQUATOR_POLE_PERIODIC = [
+  [256.75, -819.940624, 75004.344875, 81491.287984, 1558.515853],
+  [708.15, -8444.676815, 624.033993, 787.163481, 7774.939698],
+  [274.20, 2600.009459, 1251.136893, 1251.296102, -2219.534038],
+  [241.45, 2755.175630, -1102.212834, -1257.950837, -2523.969396],
+  [2309.00, -167.659835, -2660.664980, -2966.799730, 247.850422],
+  [492.20, 871.855056, 699.291817, 639.744522, -846.485643],
+  [396.10, 44.769698, 153.167220, 131.600209, -1393.124055],
+  [288.90, -512.313065, -950.865637, -445.040117, 368.526116],
+  [231.10, -819.415595, 499.754645, 584.522874, 749.045012],
+  [1610.00, -538.071099, -145.188210, -89.756563, 444.704518],
+  [620.00, -189.793622, 558.116553, 524.429630, 235.934465],
+  [157.87, -402.922932, -23.923029, -13.549067, 374.049623],
+  [220.30, 179.516345, -165.405086, -210.157124, -171.330180],
+  [1200.00, -9.814756, 9.344131, -44.919798, -22.899655],
+];
+
+/**
+ * Evaluate a pair of long-term precession series, in radians
+ */
+function evaluatePrecessionSeries(T: number, poly: number[][], periodic: number[][]): [number, number] {
+  let a = 0;
+  let b = 0;
+  
+  const w = 2 * Math.PI * T;
+  for (const [period, cosA, cosB, sinA, sinB] of periodic) {
+    const phase = w / period;
+    a += cosA * Math.cos(phase) + sinA * Math.sin(phase);
+    b += cosB * Math.cos(phase) + sinB * Math.sin(phase);
+  }
+  
+  let power = 1;
+  for (let i = 0; i < 4; i++) {
+    a += poly[0][i] * power;
+    b += poly[1][i] * power;
+    power *= T;
+  }
+  
+  return [a * ARCSEC_TO_RAD, b * ARCSEC_TO_RAD];
+}
+
+/**
+ * Mean ecliptic pole of date in the J2000 conventional frame
+ */
+function getEclipticPole(T: number): Vec3 {
+  const [p, q] = evaluatePrecessionSeries(T, ECLIPTIC_POLE_POLY, ECLIPTIC_POLE_PERIODIC);
+  const z = Math.sqrt(Math.max(1 - p * p - q * q, 0));
+  const eps0 = 84381.406 * ARCSEC_TO_RAD;
+  const s = Math.sin(eps0), c = Math.cos(eps0);
+  return [p, -q * c - z * s, -q * s + z * c];
+}
+
+/**
+ * Mean equator pole (celestial pole) of date in the J2000 conventional frame
+ */
+function getEquatorPole(T: number): Vec3 {
+  const [x, y] = evaluatePrecessionSeries(T, EQUATOR_POLE_POLY, EQUATOR_POLE_PERIODIC);
+  return [x, y, Math.sqrt(Math.max(1 - x * x - y * y, 0))];
+}
+
+/**
+ * Precession matrix from J2000 to the mean equator and equinox of date
+ * Long-term model so that the sky stays correct over the millennia reachable
+ * with proper-motion playback; agrees with IAU precession to ~0.3"/century
+ * near J2000.
+ */
+function getPrecessionMatrix(jd: number): Matrix3 {
+  const T = julianCenturies(jd);
+  const pole = getEquatorPole(T);
+  const [kx, ky, kz] = getEclipticPole(T);
+  
+  // Equinox is the node of the equator on the ecliptic
+  const ex = pole[1] * kz - pole[2] * ky;
+  const ey = pole[2] * kx - pole[0] * kz;
+  const ez = pole[0] * ky - pole[1] * kx;
+  const en = Math.sqrt(ex * ex + ey * ey + ez * ez);
+  const equinox: Vec3 = [ex / en, ey / en, ez / en];
+  
+  const middle: Vec3 = [
+    pole[1] * equinox[2] - pole[2] * equinox[1],
+    pole[2] * equinox[0] - pole[0] * equinox[2],
+    pole[0] * equinox[1] - pole[1] * equinox[0],
+  ];
+  
+  return fromConventionalFrame([...equinox, ...middle, ...pole]);
+}
+
+/**
+ * Nutation matrix from the mean to the true equator and equinox of date
+ */
+function getNutationMatrix(jd: number): Matrix3 {
+  const { longitude, obliquity, meanObliquity } = getNutation(jd);
+  
+  const cPsi = Math.cos(longitude * DEG_TO_RAD), sPsi = Math.sin(longitude * DEG_TO_RAD);
+  const cEps = Math.cos(obliquity * DEG_TO_RAD), sEps = Math.sin(obliquity * DEG_TO_RAD);
+  const cEps0 = Math.cos(meanObliquity * DEG_TO_RAD), sEps0 = Math.sin(meanObliquity * DEG_TO_RAD);
+  
+  return fromConventionalFrame([
+    cPsi,        -sPsi * cEps0,                      -sPsi * sEps0,
+    sPsi * cEps, cPsi * cEps * cEps0 + sEps * sEps0, cPsi * cEps * sEps0 - sEps * cEps0,
+    sPsi * sEps, cPsi * sEps * cEps0 - cEps * sEps0, cPsi * sEps * sEps0 + cEps * cEps0,
+  ]);
+}
+
+/**
+ * Combined precession and nutation: J2000 to true equator and equinox of date
+ */
+function getPrecessionNutationMatrix(jd: number): Matrix3 {
+  return multiplyMatrix3(getNutationMatrix(jd), getPrecessionMatrix(jd));
+}
+
+/**
+ * Earth's orbital velocity divided by the speed of light, in the J2000 frame.
+ * Adding this to a unit direction vector (and renormalising) applies
+ * annual aberration to first order.
+ */
+export function getAberrationVector(jd: number): Vec3 {
+  const { longitude, eccentricity, perihelion } = getSolarLongitude(jd);
+  const sun = longitude * DEG_TO_RAD;
+  const peri = perihelion * DEG_TO_RAD;
+  
+  // Velocity in ecliptic coordinates of date
+  const vx = ABERRATION_CONSTANT * (Math.sin(sun) - eccentricity * Math.sin(peri));
+  const vy = ABERRATION_CONSTANT * (-Math.cos(sun) + eccentricity * Math.cos(peri));
+  
+  // Rotate to the mean equator of date, then back to J2000
+  const eps = getMeanObliquity(jd) * DEG_TO_RAD;
+  const ofDate: Vec3 = [vx, vy * Math.sin(eps), vy * Math.cos(eps)];
+  
+  return applyMatrix3(transposeMatrix3(getPrecessionMatrix(jd)), ofDate);
+}
+
+/**
+ * Direction of a point given in ecliptic coordinates of date (degrees),
+ * as a unit vector in the J2000 equatorial frame
+ */
+function eclipticOfDateToJ2000(lon: number, lat: number, jd: number): Vec3 {
+  const lonRad = lon * DEG_TO_RAD;
+  const latRad = lat * DEG_TO_RAD;
+  const eps = getMeanObliquity(jd) * DEG_TO_RAD;
+  
+  const cosLat = Math.cos(latRad);
+  const ex = cosLat * Math.cos(lonRad);
+  const ey = cosLat * Math.sin(lonRad);
+  const ez = Math.sin(latRad);
+  
+  // Ecliptic -> mean equator of date (y = pole, z = RA 6h)
+  const ofDate: Vec3 = [
+    ex,
+    ey * Math.sin(eps) + ez * Math.cos(eps),
+    ey * Math.cos(eps) - ez * Math.sin(eps),
+  ];
+  
+  return applyMatrix3(transposeMatrix3(getPrecessionMatrix(jd)), ofDate);
+}
+
+/**
+ * Convert a cartesian vector (any length) back to equatorial coordinates
+ */
+export function cartesianToEquatorial(x: number, y: number, z: number): EquatorialCoords {
+  const r = Math.sqrt(x * x + y * y + z * z);
+  
+  let ra = Math.atan2(z, x) / HOURS_TO_RAD;
+  if (ra < 0) ra += 24;
+  const dec = Math.asin(Math.max(-1, Math.min(1, y / r))) * RAD_TO_DEG;
+  
+  return { ra, dec };
+}
+
+/**
+ * Convert a catalog (J2000) position to the apparent place of date:
+ * annual aberration, then precession and nutation
+ */
+export function j2000ToApparent(coords: EquatorialCoords, date: Date): EquatorialCoords {
+  const jd = dateToJDE(date);
+  const [x, y, z] = equatorialToCartesian(coords.ra, coords.dec);
+  const beta = getAberrationVector(jd);
+  
+  const apparent = applyMatrix3(
+    getPrecessionNutationMatrix(jd),
+    [x + beta[0], y + beta[1], z + beta[2]]
+  );
+  
+  return cartesianToEquatorial(apparent[0], apparent[1], apparent[2]);
+}
+
+/**
+ * Convert an apparent place of date back to the catalog (J2000) frame:
+ * undo precession and nutation, then annual aberration (to first order)
+ */
+export function apparentToJ2000(coords: EquatorialCoords, date: Date): EquatorialCoords {
+  const jd = dateToJDE(date);
+  const [x, y, z] = applyMatrix3(
+    transposeMatrix3(getPrecessionNutationMatrix(jd)),
+    equatorialToCartesian(coords.ra, coords.dec)
+  );
+  const beta = getAberrationVector(jd);
+  
+  return cartesianToEquatorial(x - beta[0], y - beta[1], z - beta[2]);
+}
+
+/**
+ * Scale factor applied to the standard refraction for non-standard conditions
+ */
+export function getRefractionScale(atmosphere: AtmosphereConditions): number {
+  return (atmosphere.pressure / 1010) * (283 / (273 + atmosphere.temperature));
+}
+
+/**
+ * Atmospheric refraction for a true (geometric) altitude - Saemundsson
+ * Returns how far the object is raised, in degrees
+ */
+export function getRefraction(
+  trueAlt: number,
+  atmosphere: AtmosphereConditions = STANDARD_ATMOSPHERE
+): number {
+  const h = Math.max(trueAlt, REFRACTION_MIN_ALTITUDE);
+  // Arcminutes; the constant makes the correction vanish at the zenith
+  const r = 1.02 / Math.tan((h + 10.3 / (h + 5.11)) * DEG_TO_RAD) + 0.0019279;
+  return Math.max(0, r) * getRefractionScale(atmosphere) / 60;
+}
+
+/**
+ * Atmospheric refraction for an apparent (observed) altitude - Bennett
+ * Returns how far the object has been raised, in degrees
+ */
+export function getRefractionApparent(
+  apparentAlt: number,
+  atmosphere: AtmosphereConditions = STANDARD_ATMOSPHERE
+): number {
+  const h = Math.max(apparentAlt, REFRACTION_MIN_ALTITUDE);
+  const r = 1 / Math.tan((h + 7.31 / (h + 4.4)) * DEG_TO_RAD) + 0.0013515;
+  return Math.max(0, r) * getRefractionScale(atmosphere) / 60;
+}
+
+/**
+ * Invert getRefraction: the true altitude that refracts to an apparent one
+ * Starts from Bennett and refines so that rendering and picking agree exactly.
+ */
+function getTrueAltitude(apparentAlt: number, atmosphere: AtmosphereConditions): number {
+  let trueAlt = apparentAlt - getRefractionApparent(apparentAlt, atmosphere);
+  for (let i = 0; i < 3; i++) {
+    trueAlt = apparentAlt - getRefraction(trueAlt, atmosphere);
+  }
+  return trueAlt;
+}
+
+/**
+ * Apply refraction to a direction in the horizon frame (x = East, y = Up, z = North)
+ * Keeps the azimuth and raises the altitude. Returns a unit vector.
+ */
+export function refractHorizontalVector(v: Vec3, atmosphere: AtmosphereConditions): Vec3 {
+  const r = Math.sqrt(v[0] * v[0] + v[1] * v[1] + v[2] * v[2]);
+  const alt = Math.asin(Math.max(-1, Math.min(1, v[1] / r))) * RAD_TO_DEG;
+  const refraction = getRefraction(alt, atmosphere);
+  const horizontal = Math.sqrt(v[0] * v[0] + v[2] * v[2]);
+  if (refraction <= 0 || horizontal === 0) return [v[0] / r, v[1] / r, v[2] / r];
+  
+  const newAlt = Math.min(alt + refraction, 90) * DEG_TO_RAD;
+  const scale = Math.cos(newAlt) / horizontal;
+  return [v[0] * scale, Math.sin(newAlt), v[2] * scale];
+}
+
 /**
  * Convert equatorial coordinates (RA/Dec) to horizontal coordinates (Alt/Az)
- * for a given observer location and time
+ * for a given observer location and time.
+ * Coordinates must be of date (see j2000ToApparent).
+ * Pass atmospheric conditions to get the refracted (observed) altitude.
  */
 export function equatorialToHorizontal(
   coords: EquatorialCoords,
   location: GeoLocation,
-  date: Date
+  date: Date,
+  atmosphere: AtmosphereConditions | null = null
 ): HorizontalCoords {
   const lst = getLST(date, location.lon);
   
   // Hour angle = LST - RA (in hours, then convert to radians)
-  let ha = (lst - coords.ra) * HOURS_TO_RAD;
+  const ha = (lst - coords.ra) * HOURS_TO_RAD;
   
   const decRad = coords.dec * DEG_TO_RAD;
   const latRad = location.lat * DEG_TO_RAD;
@@ -125,9 +602,141 @@ export function equatorialToHorizontal(
   // Normalize azimuth to 0-360
   if (az < 0) az += 360;
   
+  if (atmosphere) {
+    return { alt: alt + getRefraction(alt, atmosphere), az };
+  }
+  
   return { alt, az };
 }
 
+/**
+ * Local hour angle of apparent coordinates, in hours (-12 to +12)
+ * Negative east of the meridian (rising), positive west of it (setting)
+ */
+export function getHourAngle(coords: EquatorialCoords, location: GeoLocation, date: Date): number {
+  const ha = (getLST(date, location.lon) - coords.ra) % 24;
+  if (ha > 12) return ha - 24;
+  if (ha < -12) return ha + 24;
+  return ha;
+}
+
+/**
+ * Relative air mass at an altitude in degrees (Kasten & Young 1989)
+ * Returns null below the horizon.
+ */
+export function getAirmass(altitude: number): number | null {
+  if (altitude <= 0) return null;
+  return 1 / (Math.sin(altitude * DEG_TO_RAD) + 0.50572 * Math.pow(altitude + 6.07995, -1.6364));
+}
+
+/** Standard refraction at the horizon (34'), used for rise and set times */
+export const HORIZON_REFRACTION = 34 / 60;
+
+export interface RiseTransitSet {
+  rise: Date | null;          // Null when the object does not cross the horizon
+  transit: Date;              // Upper transit (culmination) nearest to the date
+  set: Date | null;
+  transitAltitude: number;    // Geometric altitude at upper transit, in degrees
+  status: 'normal' | 'circumpolar' | 'never-rises';
+}
+
+/**
+ * Rise, upper transit and set around a date (Meeus chapter 15, iterated).
+ * The transit is the one nearest to the date; rise and set are the ones
+ * either side of it, so the three describe a single pass across the sky.
+ * 
+ * @param getPosition J2000 position of the object at a given instant; called
+ *   repeatedly so moving bodies are followed
+ * @param horizonAltitude Geometric altitude of the centre at rise and set:
+ *   -34' for stars, minus the semidiameter as well for the Sun and Moon
+ */
+export function getRiseTransitSet(
+  getPosition: (date: Date) => EquatorialCoords,
+  location: GeoLocation,
+  date: Date,
+  horizonAltitude: number = -HORIZON_REFRACTION
+): RiseTransitSet {
+  const latRad = location.lat * DEG_TO_RAD;
+  const apparentAt = (time: Date) => j2000ToApparent(getPosition(time), time);
+  const shift = (time: Date, siderealHours: number) =>
+    new Date(time.getTime() + siderealHours / SIDEREAL_RATE * 3600000);
+  
+  // Upper transit: step until the hour angle vanishes
+  let transit = date;
+  for (let i = 0; i < 4; i++) {
+    transit = shift(transit, -getHourAngle(apparentAt(transit), location, transit));
+  }
+  const transitDec = apparentAt(transit).dec * DEG_TO_RAD;
+  const transitAltitude = Math.asin(
+    Math.sin(latRad) * Math.sin(transitDec) + Math.cos(latRad) * Math.cos(transitDec)
+  ) * RAD_TO_DEG;
+  
+  // Hour angle at which the object reaches the horizon altitude, in hours
+  const sinH0 = Math.sin(horizonAltitude * DEG_TO_RAD);
+  const horizonHourAngle = (dec: number): number | null => {
+    const decRad = dec * DEG_TO_RAD;
+    const cosH0 = (sinH0 - Math.sin(latRad) * Math.sin(decRad)) / (Math.cos(latRad) * Math.cos(decRad));
+    if (Math.abs(cosH0) > 1) return null;
+    return Math.acos(cosH0) / HOURS_TO_RAD;
+  };
+  
+  // Follow the crossing on one side of the meridian (-1 rising, +1 setting)
+  const findCrossing = (side: -1 | 1): Date | null => {
+    const h0 = horizonHourAngle(apparentAt(transit).dec);
+    if (h0 === null) return null;
+    let time = shift(transit, side * h0);
+    for (let i = 0; i < 4; i++) {
+      const coords = apparentAt(time);
+      const target = horizonHourAngle(coords.dec);
+      if (target === null) return null;
+      time = shift(time, side * target - getHourAngle(coords, location, time));
+    }
+    return time;
+  };
+  
+  const rise = findCrossing(-1);
+  const set = findCrossing(1);
+  let status: RiseTransitSet['status'] = 'normal';
+  if (!rise || !set) {
+    status = transitAltitude > horizonAltitude ? 'circumpolar' : 'never-rises';
+  }
+  
+  return { rise, transit, set, transitAltitude, status };
+}
+
+/**
+ * Convert horizontal coordinates (Alt/Az) back to equatorial coordinates of date
+ * for a given observer location and time.
+ * Pass atmospheric conditions when the altitude is an observed (refracted) one.
+ */
+export function horizontalToEquatorial(
+  coords: HorizontalCoords,
+  location: GeoLocation,
+  date: Date,
+  atmosphere: AtmosphereConditions | null = null
+): EquatorialCoords {
+  const alt = atmosphere ? getTrueAltitude(coords.alt, atmosphere) : coords.alt;
+  
+  const altRad = alt * DEG_TO_RAD;
+  const azRad = coords.az * DEG_TO_RAD;
+  const latRad = location.lat * DEG_TO_RAD;
+  
+  const sinDec = Math.sin(altRad) * Math.sin(latRad) +
+                 Math.cos(altRad) * Math.cos(latRad) * Math.cos(azRad);
+  const dec = Math.asin(Math.max(-1, Math.min(1, sinDec))) * RAD_TO_DEG;
+  
+  // Hour angle from its sine and cosine (both scaled by cos(dec))
+  const ha = Math.atan2(
+    -Math.cos(altRad) * Math.sin(azRad),
+    Math.sin(altRad) * Math.cos(latRad) - Math.cos(altRad) * Math.sin(latRad) * Math.cos(azRad)
+  ) / HOURS_TO_RAD;
+  
+  let ra = (getLST(date, location.lon) - ha) % 24;
+  if (ra < 0) ra += 24;
+  
+  return { ra, dec };
+}
+
 /**
  * Convert horizontal coordinates to 3D cartesian for rendering
  * Returns [x, y, z] on unit sphere
@@ -147,6 +756,19 @@ export function horizontalToCartesian(coords: HorizontalCoords): [number, number
   return [x, y, z];
 }
 
+/**
+ * Convert a direction in the horizon frame (any length) back to horizontal coordinates
+ */
+export function cartesianToHorizontal(v: Vec3): HorizontalCoords {
+  const r = Math.sqrt(v[0] * v[0] + v[1] * v[1] + v[2] * v[2]);
+  
+  const alt = Math.asin(Math.max(-1, Math.min(1, v[1] / r))) * RAD_TO_DEG;
+  let az = Math.atan2(v[0], v[2]) * RAD_TO_DEG;
+  if (az < 0) az += 360;
+  
+  return { alt, az };
+}
+
 /**
  * Convert equatorial coordinates directly to 3D cartesian on celestial sphere
  * Used for rendering without needing per-star coordinate conversion
@@ -165,32 +787,679 @@ export function equatorialToCartesian(ra: number, dec: number): [number, number,
 }
 
 /**
- * Build rotation matrix to transform celestial coordinates to observer's frame
- * This allows us to transform all stars at once in the vertex shader
+ * Rate of change of a star's direction vector, per Julian year
+ * pmra includes the cos(dec) factor (as in Hipparcos and HYG), both in mas/yr.
+ * Radial velocity (km/s) only counts when the distance (parsecs) is known; it
+ * changes the star's distance and so its apparent motion over long intervals.
  */
-export function getCelestialRotationMatrix(location: GeoLocation, date: Date): Float32Array {
-  const lst = getLST(date, location.lon);
-  const lstRad = lst * HOURS_TO_RAD;
-  const latRad = location.lat * DEG_TO_RAD;
+export function getProperMotionVector(
+  ra: number,
+  dec: number,
+  pmra: number,
+  pmdec: number,
+  rv: number = 0,
+  distance: number = 0
+): Vec3 {
+  const raRad = ra * HOURS_TO_RAD;
+  const decRad = dec * DEG_TO_RAD;
+  const sinRa = Math.sin(raRad), cosRa = Math.cos(raRad);
+  const sinDec = Math.sin(decRad), cosDec = Math.cos(decRad);
+  
+  const east = pmra * MAS_TO_RAD;
+  const north = pmdec * MAS_TO_RAD;
+  const radial = distance > 0 ? rv * KMS_TO_PC_PER_YEAR / distance : 0;
   
-  // First rotate around Y axis by LST (hour angle)
-  // Then rotate around X axis by (90 - latitude) to align zenith
+  return [
+    -east * sinRa - north * sinDec * cosRa + radial * cosDec * cosRa,
+    north * cosDec + radial * sinDec,
+    east * cosRa - north * sinDec * sinRa + radial * cosDec * sinRa,
+  ];
+}
+
+/**
+ * Move a direction vector along its space motion (linear in space, then renormalised)
+ */
+export function applyProperMotion(position: Vec3, velocity: Vec3, years: number): Vec3 {
+  const x = position[0] + velocity[0] * years;
+  const y = position[1] + velocity[1] * years;
+  const z = position[2] + velocity[2] * years;
+  const r = Math.sqrt(x * x + y * y + z * z);
+  return [x / r, y / r, z / r];
+}
+
+/**
+ * Rotation from the equator of date to the observer's horizon frame
+ * (x = East, y = Up, z = North, matching horizontalToCartesian)
+ */
+function getHorizonMatrix3(location: GeoLocation, date: Date): Matrix3 {
+  const lstRad = getLST(date, location.lon) * HOURS_TO_RAD;
+  const latRad = location.lat * DEG_TO_RAD;
   
   const cosLst = Math.cos(lstRad);
   const sinLst = Math.sin(lstRad);
   const cosLat = Math.cos(latRad);
   const sinLat = Math.sin(latRad);
   
-  // Combined rotation matrix (column-major for WebGL)
-  // R = Rx(90-lat) * Ry(lst)
+  return [
+    -sinLst,          0,       cosLst,
+    cosLat * cosLst,  sinLat,  cosLat * sinLst,
+    -sinLat * cosLst, cosLat,  -sinLat * sinLst,
+  ];
+}
+
+/**
+ * Pack a 3x3 rotation and a translation into a column-major 4x4 for WebGL
+ */
+function toGLMatrix(m: Matrix3, t: Vec3 = [0, 0, 0]): Float32Array {
   return new Float32Array([
-    cosLst,           sinLst * sinLat,  sinLst * cosLat,  0,
-    0,                cosLat,           -sinLat,          0,
-    -sinLst,          cosLst * sinLat,  cosLst * cosLat,  0,
-    0,                0,                0,                1
+    m[0], m[3], m[6], 0,
+    m[1], m[4], m[7], 0,
+    m[2], m[5], m[8], 0,
+    t[0], t[1], t[2], 1
   ]);
 }
 
+/**
+ * Build matrix to transform coordinates of date (true equator and equinox)
+ * to the observer's frame. Used for the RA/Dec grid.
+ */
+export function getHorizonRotationMatrix(location: GeoLocation, date: Date): Float32Array {
+  return toGLMatrix(getHorizonMatrix3(location, date));
+}
+
+/**
+ * Build matrix to transform catalog (J2000) coordinates to observer's frame
+ * This allows us to transform all stars at once in the vertex shader
+ * 
+ * Precession and nutation are folded into the rotation. Annual aberration is
+ * carried in the translation column: it shifts unit vectors by v/c, and the
+ * perspective divide renormalises the direction, which is exact to first order.
+ */
+export function getCelestialRotationMatrix(location: GeoLocation, date: Date): Float32Array {
+  const jd = dateToJDE(date);
+  
+  const rotation = multiplyMatrix3(
+    getHorizonMatrix3(location, date),
+    getPrecessionNutationMatrix(jd)
+  );
+  const aberration = applyMatrix3(rotation, getAberrationVector(jd));
+  
+  return toGLMatrix(rotation, aberration);
+}
+
+/**
+ * Convert apparent equatorial coordinates of date to ecliptic coordinates of date
+ * (Meeus 13.1, 13.2)
+ */
+export function equatorialToEcliptic(coords: EquatorialCoords, date: Date): EclipticCoords {
+  const eps = getNutation(dateToJDE(date)).obliquity * DEG_TO_RAD;
+  const raRad = coords.ra * HOURS_TO_RAD;
+  const decRad = coords.dec * DEG_TO_RAD;
+  
+  let lon = Math.atan2(
+    Math.sin(raRad) * Math.cos(eps) + Math.tan(decRad) * Math.sin(eps),
+    Math.cos(raRad)
+  ) * RAD_TO_DEG;
+  if (lon < 0) lon += 360;
+  const lat = Math.asin(
+    Math.sin(decRad) * Math.cos(eps) - Math.cos(decRad) * Math.sin(eps) * Math.sin(raRad)
+  ) * RAD_TO_DEG;
+  
+  return { lon, lat };
+}
+
+/**
+ * Convert ecliptic coordinates of date to equatorial coordinates of date
+ * (Meeus 13.3, 13.4)
+ */
+export function eclipticToEquatorial(coords: EclipticCoords, date: Date): EquatorialCoords {
+  const eps = getNutation(dateToJDE(date)).obliquity * DEG_TO_RAD;
+  const lonRad = coords.lon * DEG_TO_RAD;
+  const latRad = coords.lat * DEG_TO_RAD;
+  
+  let ra = Math.atan2(
+    Math.sin(lonRad) * Math.cos(eps) - Math.tan(latRad) * Math.sin(eps),
+    Math.cos(lonRad)
+  ) / HOURS_TO_RAD;
+  if (ra < 0) ra += 24;
+  const dec = Math.asin(
+    Math.sin(latRad) * Math.cos(eps) + Math.cos(latRad) * Math.sin(eps) * Math.sin(lonRad)
+  ) * RAD_TO_DEG;
+  
+  return { ra, dec };
+}
+
+// North galactic pole and the galactic longitude of the north celestial pole (IAU, J2000)
+const GALACTIC_POLE = { ra: 192.85948 * DEG_TO_RAD, dec: 27.12825 * DEG_TO_RAD };
+const GALACTIC_NCP_LONGITUDE = 122.93192 * DEG_TO_RAD;
+
+/**
+ * Convert catalog (J2000) equatorial coordinates to galactic coordinates
+ */
+export function equatorialToGalactic(coords: EquatorialCoords): GalacticCoords {
+  const dRa = coords.ra * HOURS_TO_RAD - GALACTIC_POLE.ra;
+  const decRad = coords.dec * DEG_TO_RAD;
+  
+  const b = Math.asin(
+    Math.sin(decRad) * Math.sin(GALACTIC_POLE.dec) +
+    Math.cos(decRad) * Math.cos(GALACTIC_POLE.dec) * Math.cos(dRa)
+  ) * RAD_TO_DEG;
+  let l = (GALACTIC_NCP_LONGITUDE - Math.atan2(
+    Math.cos(decRad) * Math.sin(dRa),
+    Math.sin(decRad) * Math.cos(GALACTIC_POLE.dec) - Math.cos(decRad) * Math.sin(GALACTIC_POLE.dec) * Math.cos(dRa)
+  )) * RAD_TO_DEG;
+  l = ((l % 360) + 360) % 360;
+  
+  return { l, b };
+}
+
+/**
+ * Convert galactic coordinates to catalog (J2000) equatorial coordinates
+ */
+export function galacticToEquatorial(coords: GalacticCoords): EquatorialCoords {
+  const dL = GALACTIC_NCP_LONGITUDE - coords.l * DEG_TO_RAD;
+  const bRad = coords.b * DEG_TO_RAD;
+  
+  const dec = Math.asin(
+    Math.sin(bRad) * Math.sin(GALACTIC_POLE.dec) +
+    Math.cos(bRad) * Math.cos(GALACTIC_POLE.dec) * Math.cos(dL)
+  ) * RAD_TO_DEG;
+  let ra = (GALACTIC_POLE.ra + Math.atan2(
+    Math.cos(bRad) * Math.sin(dL),
+    Math.sin(bRad) * Math.cos(GALACTIC_POLE.dec) - Math.cos(bRad) * Math.sin(GALACTIC_POLE.dec) * Math.cos(dL)
+  )) / HOURS_TO_RAD;
+  ra = ((ra % 24) + 24) % 24;
+  
+  return { ra, dec };
+}
+
+/**
+ * Build matrix to transform ecliptic-of-date grid geometry to the observer's frame
+ * Geometry uses the same axes as the celestial frame, with y at the ecliptic pole
+ * and x at the equinox.
+ */
+export function getEclipticRotationMatrix(location: GeoLocation, date: Date): Float32Array {
+  const eps = getNutation(dateToJDE(date)).obliquity * DEG_TO_RAD;
+  const cosEps = Math.cos(eps);
+  const sinEps = Math.sin(eps);
+  
+  const eclipticToEquator: Matrix3 = [
+    1, 0,       0,
+    0, cosEps,  sinEps,
+    0, -sinEps, cosEps,
+  ];
+  
+  return toGLMatrix(multiplyMatrix3(getHorizonMatrix3(location, date), eclipticToEquator));
+}
+
+/**
+ * Build matrix to transform galactic grid geometry to the observer's frame
+ * Geometry uses the same axes as the celestial frame, with y at the galactic pole
+ * and x towards the galactic centre.
+ */
+export function getGalacticRotationMatrix(location: GeoLocation, date: Date): Float32Array {
+  // Columns are the galactic axes expressed in J2000
+  const axes = [
+    galacticToEquatorial({ l: 0, b: 0 }),
+    galacticToEquatorial({ l: 0, b: 90 }),
+    galacticToEquatorial({ l: 90, b: 0 }),
+  ].map(({ ra, dec }) => equatorialToCartesian(ra, dec));
+  const galacticToJ2000 = transposeMatrix3(axes.flat());
+  
+  // Same as getCelestialRotationMatrix, applied after the galactic -> J2000 rotation
+  const jd = dateToJDE(date);
+  const celestial = multiplyMatrix3(getHorizonMatrix3(location, date), getPrecessionNutationMatrix(jd));
+  const aberration = applyMatrix3(celestial, getAberrationVector(jd));
+  
+  return toGLMatrix(multiplyMatrix3(celestial, galacticToJ2000), aberration);
+}
+
+export interface SolarSystemPosition {
+  ra: number;        // J2000 Right Ascension in hours
+  dec: number;       // J2000 Declination in degrees
+  distance: number;  // Distance from the centre of the Earth in AU
+}
+
+/**
+ * Geocentric position of the Sun (Meeus chapter 25, ~0.01° accuracy)
+ * Returned in the catalog frame so it goes through the same apparent-place
+ * transform as the stars.
+ */
+export function getSunPosition(date: Date): SolarSystemPosition {
+  const jd = dateToJDE(date);
+  const { longitude, distance } = getSolarLongitude(jd);
+  const [x, y, z] = eclipticOfDateToJ2000(longitude, 0, jd);
+  
+  return { ...cartesianToEquatorial(x, y, z), distance };
+}
+
+// Periodic terms for the Moon's longitude and distance (Meeus table 47.A)
+// [D, M, M', F, longitude (1e-6 deg), distance (1e-3 km)]
+const MOON_LR_TERMS = [
+  [0, 0, 1, 0, 6288774, -20905355], [2, 0, -1, 0, 1274027, -3699111],
+  [2, 0, 0, 0, 658314, -2955968], [0, 0, 2, 0, 213618, -569925],
+  [0, 1, 0, 0, -185116, 48888], [0, 0, 0, 2, -114332, -3149],
+  [2, 0, -2, 0, 58793, 246158], [2, -1, -1, 0, 57066, -152138],
+  [2, 0, 1, 0, 53322, -170733], [2, -1, 0, 0, 45758, -204586],
+  [0, 1, -1, 0, -40923, -129620], [1, 0, 0, 0, -34720, 108743],
+  [0, 1, 1, 0, -30383, 104755], [2, 0, 0, -2, 15327, 10321],
+  [0, 0, 1, 2, -12528, 0], [0, 0, 1, -2, 10980, 79661],
+  [4, 0, -1, 0, 10675, -34782], [0, 0, 3, 0, 10034, -23210],
+  [4, 0, -2, 0, 8548, -21636], [2, 1, -1, 0, -7888, 24208],
+  [2, 1, 0, 0, -6766, 30824], [1, 0, -1, 0, -5163, -8379],
+  [1, 1, 0, 0, 4987, -16675], [2, -1, 1, 0, 4036, -12831],
+  [2, 0, 2, 0, 3994, -10445], [4, 0, 0, 0, 3861, -11650],
+  [2, 0, -3, 0, 3665, 14403], [0, 1, -2, 0, -2689, -7003],
+  [2, 0, -1, 2, -2602, 0], [2, -1, -2, 0, 2390, 10056],
+  [1, 0, 1, 0, -2348, 6322], [2, -2, 0, 0, 2236, -9884],
+  [0, 1, 2, 0, -2120, 5751], [0, 2, 0, 0, -2069, 0],
+  [2, -2, -1, 0, 2048, -4950], [2, 0, 1, -2, -1773, 4130],
+  [2, 0, 0, 2, -1595, 0], [4, -1, -1, 0, 1215, -3958],
+  [0, 0, 2, 2, -1110, 0], [3, 0, -1, 0, -892, 3258],
+  [2, 1, 1, 0, -810, 2616], [4, -1, -2, 0, 759, -1897],
+  [0, 2, -1, 0, -713, -2117], [2, 2, -1, 0, -700, 2354],
+  [2, 1, -2, 0, 691, 0], [2, -1, 0, -2, 596, 0],
+  [4, 0, 1, 0, 549, -1423], [0, 0, 4, 0, 537, -1117],
+  [4, -1, 0, 0, 520, -1571], [1, 0, -2, 0, -487, -1739],
+  [2, 1, 0, -2, -399, 0], [0, 0, 2, -2, -381, -4421],
+  [1, 1, 1, 0, 351, 0], [3, 0, -2, 0, -340, 0],
+  [4, 0, -3, 0, 330, 0], [2, -1, 2, 0, 327, 0],
+  [0, 2, 1, 0, -323, 1165], [1, 1, -1, 0, 299, 0],
+  [2, 0, 3, 0, 294, 0], [2, 0, -1, -2, 0, 8752],
+];
+
+// Periodic terms for the Moon's latitude (Meeus table 47.B)
+// [D, M, M', F, latitude (1e-6 deg)]
+const MOON_B_TERMS = [
+  [0, 0, 0, 1, 5128122], [0, 0, 1, 1, 280602], [0, 0, 1, -1, 277693],
+  [2, 0, 0, -1, 173237], [2, 0, -1, 1, 55413], [2, 0, -1, -1, 46271],
+  [2, 0, 0, 1, 32573], [0, 0, 2, 1, 17198], [2, 0, 1, -1, 9266],
+  [0, 0, 2, -1, 8822], [2, -1, 0, -1, 8216], [2, 0, -2, -1, 4324],
+  [2, 0, 1, 1, 4200], [2, 1, 0, -1, -3359], [2, -1, -1, 1, 2463],
+  [2, -1, 0, 1, 2211], [2, -1, -1, -1, 2065], [0, 1, -1, -1, -1870],
+  [4, 0, -1, -1, 1828], [0, 1, 0, 1, -1794], [0, 0, 0, 3, -1749],
+  [0, 1, -1, 1, -1565], [1, 0, 0, 1, -1491], [0, 1, 1, 1, -1475],
+  [0, 1, 1, -1, -1410], [0, 1, 0, -1, -1344], [1, 0, 0, -1, -1335],
+  [0, 0, 3, 1, 1107], [4, 0, 0, -1, 1021], [4, 0, -1, 1, 833],
+  [0, 0, 1, -3, 777], [4, 0, -2, 1, 671], [2, 0, 0, -3, 607],
+  [2, 0, 2, -1, 596], [2, -1, 1, -1, 491], [2, 0, -2, 1, -451],
+  [0, 0, 3, -1, 439], [2, 0, 2, 1, 422], [2, 0, -3, -1, 421],
+  [2, 1, -1, 1, -366], [2, 1, 0, 1, -351], [4, 0, 0, 1, 331],
+  [2, -1, 1, 1, 315], [2, -2, 0, -1, 302], [0, 0, 1, 3, -283],
+  [2, 1, 1, -1, -229], [1, 1, 0, -1, 223], [1, 1, 0, 1, 223],
+  [0, 1, -2, -1, -220], [2, 1, -1, -1, -220], [1, 0, 1, 1, -185],
+  [2, -1, -2, -1, 181], [0, 1, 2, 1, -177], [4, 0, -2, -1, 176],
+  [4, -1, -1, -1, 166], [1, 0, 1, -1, -164], [4, 0, 1, -1, 132],
+  [1, 0, -1, -1, -119], [4, -1, 0, -1, 115], [2, -2, 0, 1, 107],
+];
+
+/**
+ * Geocentric ecliptic longitude and latitude of the Moon (mean equinox of
+ * date, degrees) and its distance in km. Meeus chapter 47, ~10" accuracy.
+ */
+function getLunarCoordinates(jd: number): { longitude: number; latitude: number; distance: number } {
+  const T = julianCenturies(jd);
+  const T2 = T * T;
+  const T3 = T2 * T;
+  const T4 = T3 * T;
+  
+  // Mean longitude, elongation, anomalies and argument of latitude
+  const Lp = 218.3164477 + 481267.88123421 * T - 0.0015786 * T2 + T3 / 538841 - T4 / 65194000;
+  const D = 297.8501921 + 445267.1114034 * T - 0.0018819 * T2 + T3 / 545868 - T4 / 113065000;
+  const M = 357.5291092 + 35999.0502909 * T - 0.0001536 * T2 + T3 / 24490000;
+  const Mp = 134.9633964 + 477198.8675055 * T + 0.0087414 * T2 + T3 / 69699 - T4 / 14712000;
+  const F = 93.2720950 + 483202.0175233 * T - 0.0036539 * T2 - T3 / 3526000 + T4 / 863310000;
+  
+  // Venus, Jupiter and flattening perturbations
+  const A1 = 119.75 + 131.849 * T;
+  const A2 = 53.09 + 479264.290 * T;
+  const A3 = 313.45 + 481266.484 * T;
+  
+  // Terms involving the Sun's anomaly shrink with the Earth's eccentricity
+  const E = 1 - 0.002516 * T - 0.0000074 * T2;
+  
+  const argument = (d: number, m: number, mp: number, f: number) =>
+    (d * D + m * M + mp * Mp + f * F) * DEG_TO_RAD;
+  
+  let sumL = 0;
+  let sumR = 0;
+  for (const [d, m, mp, f, l, r] of MOON_LR_TERMS) {
+    const scale = Math.pow(E, Math.abs(m));
+    const arg = argument(d, m, mp, f);
+    sumL += l * scale * Math.sin(arg);
+    sumR += r * scale * Math.cos(arg);
+  }
+  
+  let sumB = 0;
+  for (const [d, m, mp, f, b] of MOON_B_TERMS) {
+    sumB += b * Math.pow(E, Math.abs(m)) * Math.sin(argument(d, m, mp, f));
+  }
+  
+  sumL += 3958 * Math.sin(A1 * DEG_TO_RAD) +
+          1962 * Math.sin((Lp - F) * DEG_TO_RAD) +
+          318 * Math.sin(A2 * DEG_TO_RAD);
+  sumB += -2235 * Math.sin(Lp * DEG_TO_RAD) +
+          382 * Math.sin(A3 * DEG_TO_RAD) +
+          175 * Math.sin((A1 - F) * DEG_TO_RAD) +
+          175 * Math.sin((A1 + F) * DEG_TO_RAD) +
+          127 * Math.sin((Lp - Mp) * DEG_TO_RAD) -
+          115 * Math.sin((Lp + Mp) * DEG_TO_RAD);
+  
+  return {
+    longitude: Lp + sumL / 1e6,
+    latitude: sumB / 1e6,
+    distance: 385000.56 + sumR / 1000,
+  };
+}
+
+/**
+ * Geocentric position of the Moon (Meeus chapter 47)
+ * Use getTopocentricPosition for the position seen from the observer,
+ * which differs by up to a degree.
+ * 
+ * The Moon travels with the Earth, so light-time and annual aberration
+ * almost cancel. The aberration that j2000ToApparent and the renderers apply
+ * to every position is taken out here in advance.
+ */
+export function getMoonPosition(date: Date): SolarSystemPosition {
+  const jd = dateToJDE(date);
+  const { longitude, latitude, distance } = getLunarCoordinates(jd);
+  const [x, y, z] = eclipticOfDateToJ2000(longitude, latitude, jd);
+  const [ax, ay, az] = getAberrationVector(jd);
+  
+  return { ...cartesianToEquatorial(x - ax, y - ay, z - az), distance: distance / AU_KM };
+}
+
+/**
+ * Age of the Moon in days since new Moon, from its elongation in longitude
+ */
+export function getMoonAge(date: Date): number {
+  const jd = dateToJDE(date);
+  const elongation = getLunarCoordinates(jd).longitude - getSolarLongitude(jd).longitude;
+  return (((elongation % 360) + 360) % 360) / 360 * SYNODIC_MONTH;
+}
+
+/**
+ * Geocentric position of the observer in the J2000 frame, in AU
+ * (Meeus chapter 11, at the observer's height above the reference ellipsoid)
+ */
+export function getObserverPosition(location: GeoLocation, date: Date): Vec3 {
+  const latRad = location.lat * DEG_TO_RAD;
+  const u = Math.atan(EARTH_POLAR_AXIS_RATIO * Math.tan(latRad));
+  const height = location.elevation / (EARTH_EQUATORIAL_RADIUS_KM * 1000);
+  const rhoSin = EARTH_POLAR_AXIS_RATIO * Math.sin(u) + height * Math.sin(latRad);
+  const rhoCos = Math.cos(u) + height * Math.cos(latRad);
+  
+  // The observer sits at RA = local sidereal time on the true equator of date
+  const lstRad = getLST(date, location.lon) * HOURS_TO_RAD;
+  const scale = EARTH_EQUATORIAL_RADIUS_KM / AU_KM;
+  const ofDate: Vec3 = [
+    rhoCos * Math.cos(lstRad) * scale,
+    rhoSin * scale,
+    rhoCos * Math.sin(lstRad) * scale,
+  ];
+  
+  return applyMatrix3(transposeMatrix3(getPrecessionNutationMatrix(dateToJDE(date))), ofDate);
+}
+
+/**
+ * Shift a geocentric position to the observer's location (diurnal parallax)
+ * Callers placing many bodies at once can pass the observer position in.
+ */
+export function getTopocentricPosition(
+  position: SolarSystemPosition,
+  location: GeoLocation,
+  date: Date,
+  observer: Vec3 = getObserverPosition(location, date)
+): SolarSystemPosition {
+  const [gx, gy, gz] = equatorialToCartesian(position.ra, position.dec);
+  const [ox, oy, oz] = observer;
+  
+  const x = gx * position.distance - ox;
+  const y = gy * position.distance - oy;
+  const z = gz * position.distance - oz;
+  
+  return { ...cartesianToEquatorial(x, y, z), distance: Math.sqrt(x * x + y * y + z * z) };
+}
+
+/**
+ * Phase angle (Sun - body - observer) in degrees; 0 is full, 180 is new
+ */
+export function getPhaseAngle(body: SolarSystemPosition, sun: SolarSystemPosition): number {
+  const [bx, by, bz] = equatorialToCartesian(body.ra, body.dec);
+  const [sx, sy, sz] = equatorialToCartesian(sun.ra, sun.dec);
+  
+  // Body -> Sun and body -> observer
+  const tx = sx * sun.distance - bx * body.distance;
+  const ty = sy * sun.distance - by * body.distance;
+  const tz = sz * sun.distance - bz * body.distance;
+  const toSun = Math.sqrt(tx * tx + ty * ty + tz * tz);
+  
+  const cosPhase = -(tx * bx + ty * by + tz * bz) / toSun;
+  return Math.acos(Math.max(-1, Math.min(1, cosPhase))) * RAD_TO_DEG;
+}
+
+/**
+ * Fraction of the disk that is illuminated for a given phase angle (degrees)
+ */
+export function getIlluminatedFraction(phaseAngle: number): number {
+  return (1 + Math.cos(phaseAngle * DEG_TO_RAD)) / 2;
+}
+
+/**
+ * Angular distance between a body and the Sun as seen from the Earth, in degrees
+ */
+export function getElongation(body: SolarSystemPosition, sun: SolarSystemPosition): number {
+  const [bx, by, bz] = equatorialToCartesian(body.ra, body.dec);
+  const [sx, sy, sz] = equatorialToCartesian(sun.ra, sun.dec);
+  const cosElongation = bx * sx + by * sy + bz * sz;
+  return Math.acos(Math.max(-1, Math.min(1, cosElongation))) * RAD_TO_DEG;
+}
+
+export type PlanetId = 'mercury' | 'venus' | 'mars' | 'jupiter' | 'saturn' | 'uranus' | 'neptune';
+
+export interface PlanetPosition extends SolarSystemPosition {
+  heliocentricDistance: number;  // Distance from the Sun in AU
+}
+
+/**
+ * Keplerian elements referred to the J2000 ecliptic and equinox:
+ * [a (AU), e, I, L, longitude of perihelion, longitude of node (degrees)],
+ * then their rates per Julian century, then for the outer planets the extra
+ * mean anomaly terms [b, c, s, f].
+ * Standish, "Keplerian Elements for Approximate Positions of the Major Planets" (JPL)
+ */
+type OrbitalElements = [number[], number[], number[]?];
+
+// Table 1: fitted to 1800-2050 AD
+const PLANET_ELEMENTS_1800_2050: Record<PlanetId | 'earth', OrbitalElements> = {
+  mercury: [
+    [0.38709927, 0.20563593, 7.00497902, 252.25032350, 77.45779628, 48.33076593],
+    [0.00000037, 0.00001906, -0.00594749, 149472.67411175, 0.16047689, -0.12534081],
+  ],
+  venus: [
+    [0.72333566, 0.00677672, 3.39467605, 181.97909950, 131.60246718, 76.67984255],
+    [0.00000390, -0.00004107, -0.00078890, 58517.81538729, 0.00268329, -0.27769418],
+  ],
+  earth: [
+    [1.00000261, 0.01671123, -0.00001531, 100.46457166, 102.93768193, 0.0],
+    [0.00000562, -0.00004392, -0.01294668, 35999.37244981, 0.32327364, 0.0],
+  ],
+  mars: [
+    [1.52371034, 0.09339410, 1.84969142, -4.55343205, -23.94362959, 49.55953891],
+    [0.00001847, 0.00007882, -0.00813131, 19140.30268499, 0.44441088, -0.29257343],
+  ],
+  jupiter: [
+    [5.20288700, 0.04838624, 1.30439695, 34.39644051, 14.72847983, 100.47390909],
+    [-0.00011607, -0.00013253, -0.00183714, 3034.74612775, 0.21252668, 0.20469106],
+  ],
+  saturn: [
+    [9.53667594, 0.05386179, 2.48599187, 49.95424423, 92.59887831, 113.66242448],
+    [-0.00125060, -0.00050991, 0.00193609, 1222.49362201, -0.41897216, -0.28867794],
+  ],
+  uranus: [
+    [19.18916464, 0.04725744, 0.77263783, 313.23810451, 170.95427630, 74.01692503],
+    [-0.00196176, -0.00004397, -0.00242939, 428.48202785, 0.40805281, 0.04240589],
+  ],
+  neptune: [
+    [30.06992276, 0.00859048, 1.77004347, -55.12002969, 44.96476227, 131.78422574],
+    [0.00026291, 0.00005105, 0.00035372, 218.45945325, -0.32241464, -0.00508664],
+  ],
+};
+
+// Tables 2a and 2b: fitted to 3000 BC - 3000 AD, with the Jupiter-Saturn and
+// Uranus-Neptune long-period perturbations in the mean anomaly
+const PLANET_ELEMENTS_LONG_TERM: Record<PlanetId | 'earth', OrbitalElements> = {
+  mercury: [
+    [0.38709843, 0.20563661, 7.00559432, 252.25166724, 77.45771895, 48.33961819],
+    [0.00000000, 0.00002123, -0.00590158, 149472.67486623, 0.15940013, -0.12214182],
+  ],
+  venus: [
+    [0.72332102, 0.00676399, 3.39777545, 181.97970850, 131.76755713, 76.67261496],
+    [-0.00000026, -0.00005107, 0.00043494, 58517.81560260, 0.05679648, -0.27274174],
+  ],
+  earth: [
+    [1.00000018, 0.01673163, -0.00054346, 100.46691572, 102.93005885, -5.11260389],
+    [-0.00000003, -0.00003661, -0.01337178, 35999.37306329, 0.31795260, -0.24123856],
+  ],
+  mars: [
+    [1.52371243, 0.09336511, 1.85181869, -4.56813164, -23.91744784, 49.71320984],
+    [0.00000097, 0.00009149, -0.00724757, 19140.29934243, 0.45223625, -0.26852431],
+  ],
+  jupiter: [
+    [5.20248019, 0.04853590, 1.29861416, 34.33479152, 14.27495244, 100.29282654],
+    [-0.00002864, 0.00018026, -0.00322699, 3034.90371757, 0.18199196, 0.13024619],
+    [-0.00012452, 0.06064060, -0.35635438, 38.35125000],
+  ],
+  saturn: [
+    [9.54149883, 0.05550825, 2.49424102, 50.07571329, 92.86136063, 113.63998702],
+    [-0.00003065, -0.00032044, 0.00451969, 1222.11494724, 0.54179478, -0.25015002],
+    [0.00025899, -0.13434469, 0.87320147, 38.35125000],
+  ],
+  uranus: [
+    [19.18797948, 0.04685740, 0.77298127, 314.20276625, 172.43404441, 73.96250215],
+    [-0.00020455, -0.00001550, -0.00180155, 428.49512595, 0.09266985, 0.05739699],
+    [0.00058331, -0.97731848, 0.17689245, 7.67025000],
+  ],
+  neptune: [
+    [30.06952752, 0.00895439, 1.77005520, 304.22289287, 46.68158724, 131.78635853],
+    [0.00006447, 0.00000818, 0.00022400, 218.46515314, 0.01009938, -0.00606302],
+    [-0.00041348, 0.68346318, -0.10162547, 7.67025000],
+  ],
+};
+
+// Obliquity of the J2000 ecliptic, in degrees
+const J2000_OBLIQUITY = 23.43928;
+
+/**
+ * Heliocentric position of a planet (or the Earth-Moon barycentre) in AU,
+ * in the J2000 equatorial frame used by equatorialToCartesian
+ */
+function getHeliocentricPosition(planet: PlanetId | 'earth', T: number): Vec3 {
+  // The short fit is more accurate inside its range
+  const table = T >= -2 && T <= 0.5 ? PLANET_ELEMENTS_1800_2050 : PLANET_ELEMENTS_LONG_TERM;
+  const [elements, rates, extra] = table[planet];
+  const [a, e, I, L, perihelion, node] = elements.map((value, i) => value + rates[i] * T);
+  
+  let M = L - perihelion;
+  if (extra) {
+    const [b, c, s, f] = extra;
+    M += b * T * T + c * Math.cos(f * T * DEG_TO_RAD) + s * Math.sin(f * T * DEG_TO_RAD);
+  }
+  M = ((M + 180) % 360 + 360) % 360 - 180;
+  
+  // Kepler's equation by Newton iteration
+  const mRad = M * DEG_TO_RAD;
+  let E = mRad + e * Math.sin(mRad);
+  for (let i = 0; i < 10; i++) {
+    const dE = (E - e * Math.sin(E) - mRad) / (1 - e * Math.cos(E));
+    E -= dE;
+    if (Math.abs(dE) < 1e-12) break;
+  }
+  
+  // Position in the orbital plane, then rotated onto the ecliptic
+  const xp = a * (Math.cos(E) - e);
+  const yp = a * Math.sqrt(1 - e * e) * Math.sin(E);
+  
+  const w = (perihelion - node) * DEG_TO_RAD;
+  const om = node * DEG_TO_RAD;
+  const inc = I * DEG_TO_RAD;
+  const cw = Math.cos(w), sw = Math.sin(w);
+  const co = Math.cos(om), so = Math.sin(om);
+  const ci = Math.cos(inc), si = Math.sin(inc);
+  
+  const ex = (cw * co - sw * so * ci) * xp + (-sw * co - cw * so * ci) * yp;
+  const ey = (cw * so + sw * co * ci) * xp + (-sw * so + cw * co * ci) * yp;
+  const ez = sw * si * xp + cw * si * yp;
+  
+  return eclipticJ2000ToEquatorial([ex, ey, ez]);
+}
+
+/**
+ * Rotate a conventional ecliptic J2000 vector (x = equinox, z = ecliptic pole)
+ * into the celestial frame (y = pole, z = RA 6h)
+ */
+export function eclipticJ2000ToEquatorial([ex, ey, ez]: Vec3): Vec3 {
+  const eps = J2000_OBLIQUITY * DEG_TO_RAD;
+  return [
+    ex,
+    ey * Math.sin(eps) + ez * Math.cos(eps),
+    ey * Math.cos(eps) - ez * Math.sin(eps),
+  ];
+}
+
+/**
+ * Heliocentric position of the Earth (Earth-Moon barycentre) in AU,
+ * in the J2000 celestial frame
+ */
+export function getEarthHeliocentricPosition(date: Date): Vec3 {
+  return getHeliocentricPosition('earth', julianCenturies(dateToJDE(date)));
+}
+
+/**
+ * Geocentric astrometric position of a planet (corrected for light-time).
+ * Accurate to about an arcminute within 1800-2050 and a few arcminutes
+ * over 3000 BC - 3000 AD. Aberration is applied with the stars.
+ */
+export function getPlanetPosition(planet: PlanetId, date: Date): PlanetPosition {
+  const T = julianCenturies(dateToJDE(date));
+  const earth = getHeliocentricPosition('earth', T);
+  
+  // Where the planet was when the light now arriving left it
+  let lightTime = 0;
+  let helio = getHeliocentricPosition(planet, T);
+  for (let i = 0; i < 2; i++) {
+    const dx = helio[0] - earth[0];
+    const dy = helio[1] - earth[1];
+    const dz = helio[2] - earth[2];
+    lightTime = LIGHT_TIME_PER_AU * Math.sqrt(dx * dx + dy * dy + dz * dz);
+    helio = getHeliocentricPosition(planet, T - lightTime / 36525);
+  }
+  
+  const x = helio[0] - earth[0];
+  const y = helio[1] - earth[1];
+  const z = helio[2] - earth[2];
+  
+  return {
+    ...cartesianToEquatorial(x, y, z),
+    distance: Math.sqrt(x * x + y * y + z * z),
+    heliocentricDistance: Math.sqrt(helio[0] * helio[0] + helio[1] * helio[1] + helio[2] * helio[2]),
+  };
+}
+
+export type TwilightPhase = 'day' | 'civil' | 'nautical' | 'astronomical' | 'night';
+
+/**
+ * Classify the sky by the geometric altitude of the Sun's centre (degrees)
+ */
+export function getTwilightPhase(sunAltitude: number): TwilightPhase {
+  if (sunAltitude >= -0.833) return 'day';  // Upper limb on the refracted horizon
+  if (sunAltitude >= -6) return 'civil';
+  if (sunAltitude >= -12) return 'nautical';
+  if (sunAltitude >= -18) return 'astronomical';
+  return 'night';
+}
+
 /**
  * Get cardinal direction label for an azimuth
  */
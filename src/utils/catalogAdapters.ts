@@ -0,0 +1,275 @@
+/**
+ * Star catalog adapters - how to read one catalog's CSV columns into stars
+ *
+ * Each adapter recognises its catalog from the header, maps its columns and
+ * units onto a CatalogStar, and says which magnitude band the catalog uses.
+ * Column names are matched case-insensitively.
+ */
+
+export interface CatalogStar {
+  ra: number;              // Hours
+  dec: number;             // Degrees
+  mag: number;
+  id?: number;             // Numeric ID; the line number when absent
+  designation?: string;    // Catalog name when not the ID scheme's
+  ci?: number;             // B-V
+  pmra?: number;           // mas/yr, times cos(Dec)
+  pmdec?: number;          // mas/yr
+  rv?: number;             // km/s
+  dist?: number;           // Parsecs
+  absmag?: number;
+  lum?: number;            // Solar units
+  hip?: number;
+  hd?: number;
+  hr?: number;
+  flam?: number;
+  proper?: string;
+  bayer?: string;
+  constellation?: string;
+  spect?: string;
+  gl?: string;
+  variable?: string;       // Variable star designation
+  varMin?: number;         // Magnitude range of a variable
+  varMax?: number;
+}
+
+// Value of a column in the current row, trimmed; '' when missing or empty
+export type CatalogField = (column: string) => string;
+
+export interface StarCatalogAdapter {
+  id: string;
+  name: string;
+  band: string;    // Magnitude band, e.g. "V" or "G"
+  idScheme?: string;  // Prefix naming stars by numeric ID ("HR 15"); HYG IDs when absent
+  matches(columns: Set<string>): boolean;   // Lowercased header names
+  readStar(field: CatalogField): CatalogStar | null;
+}
+
+// Number in a field; NaN when empty or not a number
+function num(value: string): number {
+  return value === '' ? NaN : Number(value);
+}
+
+// Number in a field, undefined when there isn't one
+function optional(value: string): number | undefined {
+  const n = num(value);
+  return isNaN(n) ? undefined : n;
+}
+
+// Positive number in a field, undefined otherwise
+function positive(value: string): number | undefined {
+  const n = num(value);
+  return n > 0 ? n : undefined;
+}
+
+/**
+ * Parse "12 34 56.7", "12:34:56.7" or "-05 06 07" into a decimal value;
+ * NaN when the text isn't sexagesimal
+ */
+export function parseSexagesimal(value: string): number {
+  const parts = value.trim().split(/[\s:]+/);
+  if (parts.length < 2 || parts.length > 3) return NaN;
+
+  const [whole, minutes, seconds = 0] = parts.map(Number);
+  if ([whole, minutes, seconds].some(isNaN)) return NaN;
+
+  const sign = parts[0].startsWith('-') ? -1 : 1;
+  return sign * (Math.abs(whole) + minutes / 60 + seconds / 3600);
+}
+
+// Right ascension in hours from a field in degrees, or in hours when sexagesimal
+function readRA(value: string): number {
+  if (/[\s:]/.test(value)) return parseSexagesimal(value);
+  return num(value) / 15;
+}
+
+// Decimal or sexagesimal value
+function readAngle(value: string): number {
+  if (/[\s:]/.test(value)) return parseSexagesimal(value);
+  return num(value);
+}
+
+// First of several alternative columns with a value
+function first(field: CatalogField, ...columns: string[]): string {
+  for (const column of columns) {
+    const value = field(column);
+    if (value !== '') return value;
+  }
+  return '';
+}
+
+/**
+ * HYG database (astronexus), the app's own catalog. Its first row is the
+ * Sun (id 0, "Sol"), fixed at RA 0 / Dec 0; it is skipped, as the Sun is
+ * drawn from its ephemeris.
+ */
+export const HYG_ADAPTER: StarCatalogAdapter = {
+  id: 'hyg',
+  name: 'HYG Database',
+  band: 'V',
+  matches: columns => ['hip', 'hd', 'proper', 'mag', 'ci'].every(c => columns.has(c)),
+  readStar: field => field('id') === '0' || field('proper') === 'Sol' ? null : {
+    id: optional(field('id')),
+    ra: num(field('ra')),
+    dec: num(field('dec')),
+    mag: num(field('mag')),
+    ci: optional(field('ci')),
+    pmra: optional(field('pmra')),
+    pmdec: optional(field('pmdec')),
+    rv: optional(field('rv')),
+    dist: positive(field('dist')),
+    absmag: optional(field('absmag')),
+    lum: positive(field('lum')),
+    hip: positive(field('hip')),
+    hd: positive(field('hd')),
+    hr: positive(field('hr')),
+    flam: positive(field('flam')),
+    proper: field('proper'),
+    bayer: field('bayer'),
+    constellation: field('con'),
+    spect: field('spect'),
+    gl: field('gl'),
+    variable: field('var'),
+    varMin: optional(field('var_min')),
+    varMax: optional(field('var_max')),
+  },
+};
+
+// "21Alp And", "Kap1Scl" or "9    Cas": Flamsteed number, Bayer letter and constellation
+const BSC_NAME = /^(\d+)?\s*([A-Z][a-z]{1,2}\s?\d?)?\s*([A-Z][A-Za-z]{2})$/;
+
+/**
+ * Yale Bright Star Catalog (V/50) as exported from VizieR, with J2000
+ * positions in the RAJ2000/DEJ2000 columns or split into RAh/RAm/RAs and
+ * DE-/DEd/DEm/DEs. Proper motions are in arcsec/yr and parallax in arcsec.
+ */
+export const YALE_BSC_ADAPTER: StarCatalogAdapter = {
+  id: 'bsc',
+  name: 'Yale Bright Star Catalog',
+  band: 'V',
+  idScheme: 'HR',
+  matches: columns => columns.has('hr') && columns.has('vmag'),
+  readStar: field => {
+    const hr = positive(field('hr'));
+    if (hr === undefined) return null;
+
+    let ra = readRA(first(field, 'raj2000', '_raj2000'));
+    let dec = readAngle(first(field, 'dej2000', '_dej2000'));
+    if (isNaN(ra) || isNaN(dec)) {
+      ra = num(field('rah')) + num(field('ram')) / 60 + num(field('ras')) / 3600;
+      dec = (field('de-') === '-' ? -1 : 1) *
+        (num(field('ded')) + num(field('dem')) / 60 + num(field('des')) / 3600);
+    }
+
+    const name = BSC_NAME.exec(field('name'));
+    const parallax = num(field('parallax'));
+
+    return {
+      id: hr,
+      hr,
+      ra,
+      dec,
+      mag: num(field('vmag')),
+      ci: optional(field('b-v')),
+      pmra: (optional(field('pmra')) ?? 0) * 1000,
+      pmdec: (optional(field('pmde')) ?? 0) * 1000,
+      rv: optional(field('radvel')),
+      dist: parallax > 0 ? 1 / parallax : undefined,
+      hd: positive(field('hd')),
+      flam: name?.[1] ? Number(name[1]) : undefined,
+      bayer: name?.[2]?.replace(/\s/g, ''),
+      constellation: name?.[3],
+      spect: field('sptype'),
+      variable: field('varid'),
+    };
+  },
+};
+
+// B-V from Gaia BP-RP; a rough fit through A0, G2 and M0 dwarfs, good
+// enough for star colours
+function bpRpToBV(bpRp: number): number {
+  return 0.887 * bpRp - 0.115 * bpRp * bpRp;
+}
+
+/**
+ * Gaia DR3 gaia_source extracts (ESA archive CSV): positions in degrees,
+ * G magnitudes, parallax in mas
+ */
+export const GAIA_DR3_ADAPTER: StarCatalogAdapter = {
+  id: 'gaia-dr3',
+  name: 'Gaia DR3',
+  band: 'G',
+  idScheme: 'Row',
+  matches: columns => columns.has('source_id') && columns.has('phot_g_mean_mag'),
+  readStar: field => {
+    const bpRp = optional(field('bp_rp'));
+    const parallax = num(field('parallax'));
+    const sourceId = field('source_id');
+
+    return {
+      designation: field('designation') || (sourceId && `Gaia DR3 ${sourceId}`),
+      ra: num(field('ra')) / 15,
+      dec: num(field('dec')),
+      mag: num(field('phot_g_mean_mag')),
+      ci: bpRp === undefined ? undefined : bpRpToBV(bpRp),
+      pmra: optional(field('pmra')),
+      pmdec: optional(field('pmdec')),
+      rv: optional(field('radial_velocity')),
+      dist: parallax > 0 ? 1000 / parallax : undefined,
+      spect: field('spectraltype_esphs'),
+    };
+  },
+};
+
+const RA_COLUMNS = ['ra', 'ra_deg', 'raj2000', 'ra_hours'];
+const DEC_COLUMNS = ['dec', 'dec_deg', 'dej2000', 'decj2000'];
+const MAG_COLUMNS = ['mag', 'vmag', 'magnitude'];
+
+/**
+ * Any other CSV with RA, Dec and a magnitude - a curated target list, say.
+ * RA is in degrees (ra, ra_deg, raj2000) or hours (ra_hours), or
+ * sexagesimal hours; Dec in degrees or sexagesimal. Optional columns: name,
+ * id, bv (or ci, b-v), pmra and pmdec in mas/yr, parallax in mas or dist in
+ * parsecs, rv in km/s, and spect (or sptype).
+ */
+export const CUSTOM_CSV_ADAPTER: StarCatalogAdapter = {
+  id: 'custom',
+  name: 'Custom CSV',
+  band: 'V',
+  idScheme: 'Row',
+  matches: columns => [RA_COLUMNS, DEC_COLUMNS, MAG_COLUMNS].every(names => names.some(c => columns.has(c))),
+  readStar: field => {
+    const hours = field('ra_hours');
+    const parallax = num(field('parallax'));
+
+    return {
+      designation: field('id') || undefined,
+      proper: field('name'),
+      ra: hours !== '' ? readAngle(hours) : readRA(first(field, ...RA_COLUMNS)),
+      dec: readAngle(first(field, ...DEC_COLUMNS)),
+      mag: num(first(field, ...MAG_COLUMNS)),
+      ci: optional(first(field, 'bv', 'b-v', 'ci')),
+      pmra: optional(field('pmra')),
+      pmdec: optional(field('pmdec')),
+      rv: optional(field('rv')),
+      dist: parallax > 0 ? 1000 / parallax : positive(field('dist')),
+      spect: first(field, 'spect', 'sptype'),
+    };
+  },
+};
+
+// Tried in order; the custom reader takes whatever has positions and magnitudes
+export const CATALOG_ADAPTERS: StarCatalogAdapter[] = [
+  GAIA_DR3_ADAPTER,
+  YALE_BSC_ADAPTER,
+  HYG_ADAPTER,
+  CUSTOM_CSV_ADAPTER,
+];
+
+/**
+ * The adapter for a catalog's header columns, or null if none reads it
+ */
+export function detectCatalogAdapter(header: string[]): StarCatalogAdapter | null {
+  const columns = new Set(header.map(column => column.toLowerCase()));
+  return CATALOG_ADAPTERS.find(adapter => adapter.matches(columns)) ?? null;
+}
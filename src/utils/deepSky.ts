@@ -0,0 +1,155 @@
+/**
+ * Deep-sky objects - the Messier and Caldwell catalogs, with their NGC/IC
+ * numbers, and some 80 other well-known NGC/IC galaxies, clusters and nebulae
+ *
+ * Loaded from public/data/deepsky.json. Types use the OpenNGC codes, so an
+ * OpenNGC extract can be converted into the same file. Sizes are the major
+ * and minor axes in arcminutes, with the position angle of the major axis
+ * measured from north through east.
+ */
+
+import { equatorialToCartesian } from './astronomy';
+
+export type DeepSkyType =
+  | 'G'      // Galaxy
+  | 'OCl'    // Open cluster
+  | 'GCl'    // Globular cluster
+  | 'Cl+N'   // Cluster with nebulosity
+  | 'HII'    // Emission nebula
+  | 'RfN'    // Reflection nebula
+  | 'DrkN'   // Dark nebula
+  | 'SNR'    // Supernova remnant
+  | 'PN'     // Planetary nebula
+  | '*Ass'   // Star cloud or asterism
+  | '**';    // Double star
+
+export const DEEP_SKY_TYPE_NAMES: Record<DeepSkyType, string> = {
+  'G': 'Galaxy',
+  'OCl': 'Open cluster',
+  'GCl': 'Globular cluster',
+  'Cl+N': 'Cluster with nebula',
+  'HII': 'Emission nebula',
+  'RfN': 'Reflection nebula',
+  'DrkN': 'Dark nebula',
+  'SNR': 'Supernova remnant',
+  'PN': 'Planetary nebula',
+  '*Ass': 'Star cloud',
+  '**': 'Double star',
+};
+
+export interface DeepSkyObject {
+  id: string;              // Messier or Caldwell number ("M31", "C20"), else NGC/IC
+  designations: string[];  // Every catalog name, the id first
+  name?: string;           // Common name (e.g., "Andromeda Galaxy")
+  type: DeepSkyType;
+  constellation: string;   // IAU abbreviation
+  ra: number;              // Right Ascension in hours (J2000)
+  dec: number;             // Declination in degrees
+  mag: number | null;      // Visual magnitude, null for dark nebulae
+  major: number;           // Major axis, arcminutes
+  minor: number;           // Minor axis, arcminutes (= major when round)
+  pa: number;              // Position angle of the major axis, degrees
+  // Unit sphere position (celestial coordinates)
+  x: number;
+  y: number;
+  z: number;
+}
+
+// One entry of deepsky.json
+interface DeepSkyRecord {
+  id: string;
+  ids?: string[];
+  name?: string;
+  type: DeepSkyType;
+  con: string;
+  ra: number;
+  dec: number;
+  mag?: number;
+  size: [number, number?];
+  pa?: number;
+}
+
+/**
+ * Distinguish deep-sky objects from stars, bodies and constellations in
+ * mixed selections
+ */
+export function isDeepSkyObject(object: object): object is DeepSkyObject {
+  return 'designations' in object;
+}
+
+/**
+ * Objects from the contents of deepsky.json
+ */
+export function parseDeepSkyCatalog(data: { objects: DeepSkyRecord[] }): DeepSkyObject[] {
+  return data.objects.map(record => {
+    const [major, minor = major] = record.size;
+    const [x, y, z] = equatorialToCartesian(record.ra, record.dec);
+    return {
+      id: record.id,
+      designations: [record.id, ...(record.ids ?? [])],
+      name: record.name,
+      type: record.type,
+      constellation: record.con,
+      ra: record.ra,
+      dec: record.dec,
+      mag: record.mag ?? null,
+      major,
+      minor,
+      pa: record.pa ?? 0,
+      x,
+      y,
+      z,
+    };
+  });
+}
+
+/**
+ * Load the deep-sky catalog shipped with the app
+ */
+export async function loadDeepSkyCatalog(url: string): Promise<DeepSkyObject[]> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch deep-sky catalog: ${response.status} ${response.statusText}`);
+  }
+  return parseDeepSkyCatalog(await response.json());
+}
+
+// Dark nebulae have no magnitude; they are filtered, drawn and picked as if at
+// the naked-eye limit, where the Coalsack shows against the Milky Way
+const DARK_NEBULA_MAGNITUDE = 6;
+
+/**
+ * Magnitude used to filter, fade and pick an object
+ */
+export function getDeepSkyMagnitude(object: DeepSkyObject): number {
+  return object.mag ?? DARK_NEBULA_MAGNITUDE;
+}
+
+/**
+ * Whether an object passes a magnitude filter
+ */
+export function isDeepSkyVisible(object: DeepSkyObject, maxMagnitude: number): boolean {
+  return getDeepSkyMagnitude(object) <= maxMagnitude;
+}
+
+// Arcseconds below a minute, degrees from 100′
+function formatArcminutes(arcmin: number): string {
+  if (arcmin < 1) return `${Math.round(arcmin * 60)}″`;
+  if (arcmin >= 100) return `${(arcmin / 60).toFixed(1)}°`;
+  return `${Number(arcmin.toFixed(1))}′`;
+}
+
+/**
+ * Apparent size, "36′" when round, else "190′ × 60′"
+ */
+export function formatDeepSkySize(object: DeepSkyObject): string {
+  if (object.minor === object.major) return formatArcminutes(object.major);
+  return `${formatArcminutes(object.major)} × ${formatArcminutes(object.minor)}`;
+}
+
+/**
+ * Catalog name without spaces, lowercased, so "M 31" finds "M31"
+ */
+export function compactDesignation(designation: string): string {
+  return designation.replace(/\s+/g, '').toLowerCase();
+}
@@ -0,0 +1,313 @@
+/**
+ * Solar and lunar eclipses
+ *
+ * New and full Moons are found from the Moon's age, then the Sun, Moon and
+ * Earth's shadow are compared around each one. Lunar eclipses use the Danjon
+ * shadow (parallax enlarged by 1/85 for the atmosphere). Solar eclipses are
+ * typed from the Moon's shadow cone at the Earth, and their local
+ * circumstances from the topocentric Moon. With the Meeus Sun and Moon,
+ * contact times are good to about a minute.
+ */
+
+import {
+  AU_KM,
+  cartesianToEquatorial,
+  equatorialToCartesian,
+  equatorialToHorizontal,
+  getAberrationVector,
+  getElongation,
+  getMoonAge,
+  getMoonPosition,
+  getSunPosition,
+  getTopocentricPosition,
+  j2000ToApparent,
+  type EquatorialCoords,
+  type GeoLocation,
+  type SolarSystemPosition,
+  type Vec3,
+} from './astronomy';
+import { findCrossings, findMinimum, findRoot, onJD } from './events';
+import { dateToJD, dateToJDE, jdToDate } from './time';
+
+const RAD_TO_DEG = 180 / Math.PI;
+const ARCSEC_TO_DEG = 1 / 3600;
+
+const SYNODIC_MONTH = 29.530588853;
+const EARTH_RADIUS_KM = 6378.14;
+const MOON_RADIUS_KM = 1737.4;
+const SUN_SEMIDIAMETER_1AU = 959.63 * ARCSEC_TO_DEG;
+const SUN_RADIUS_KM = AU_KM * Math.tan(SUN_SEMIDIAMETER_1AU / RAD_TO_DEG);
+const SUN_PARALLAX_1AU = 8.794 * ARCSEC_TO_DEG;
+
+// Danjon's enlargement of the Earth's shadow by its atmosphere
+const SHADOW_ENLARGEMENT = 1 + 1 / 85;
+
+// Greatest eclipse lies within this many days of the syzygy, and a local
+// solar eclipse within this many days of greatest eclipse
+const SYZYGY_WINDOW = 0.5;
+const LOCAL_WINDOW = 0.2;
+
+export type LunarEclipseType = 'penumbral' | 'partial' | 'total';
+export type SolarEclipseType = 'partial' | 'annular' | 'total' | 'hybrid';
+
+export interface EclipseContact {
+  label: string;     // P1, U1 ... for lunar eclipses; C1 ... C4 for solar
+  date: Date;
+  altitude: number;  // Of the eclipsed body at the observer, geometric, in degrees
+}
+
+export interface LunarEclipse {
+  kind: 'lunar';
+  type: LunarEclipseType;
+  maximum: Date;
+  magnitude: number;           // Umbral magnitude (negative for penumbral eclipses)
+  penumbralMagnitude: number;
+  contacts: EclipseContact[];
+  altitude: number;            // Moon's altitude at maximum for the observer
+  position: EquatorialCoords;  // J2000 position of the Moon at maximum
+}
+
+export interface LocalSolarEclipse {
+  type: 'partial' | 'annular' | 'total';
+  maximum: Date;
+  magnitude: number;           // Fraction of the Sun's diameter covered
+  contacts: EclipseContact[];
+  altitude: number;            // Sun's altitude at maximum
+}
+
+export interface SolarEclipse {
+  kind: 'solar';
+  type: SolarEclipseType;
+  maximum: Date;               // Greatest eclipse anywhere on Earth
+  magnitude: number;           // At greatest eclipse
+  gamma: number;               // Least distance of the shadow axis from the Earth's centre, in Earth radii, negative to the south
+  local: LocalSolarEclipse | null;
+  position: EquatorialCoords;  // J2000 position of the Sun at (local) maximum
+}
+
+export type Eclipse = LunarEclipse | SolarEclipse;
+
+// Geocentric position in km, in our cartesian frame
+function toKm(position: SolarSystemPosition): Vec3 {
+  const [x, y, z] = equatorialToCartesian(position.ra, position.dec);
+  const r = position.distance * AU_KM;
+  return [x * r, y * r, z * r];
+}
+
+function altitudeOf(position: EquatorialCoords, location: GeoLocation, date: Date): number {
+  return equatorialToHorizontal(j2000ToApparent(position, date), location, date).alt;
+}
+
+/**
+ * Lunar eclipse around a full Moon, or null when the Moon misses the penumbra
+ */
+function getLunarEclipse(fullMoon: number, location: GeoLocation): LunarEclipse | null {
+  // Distance of the Moon from the centre of the shadow. Sunlight reaches the
+  // moving Earth from the apparent Sun, so the shadow lies opposite it, and the
+  // Moon comes with aberration taken out; both shift the shadow by the aberration.
+  const shadowDistance = onJD(date => {
+    const sun = getSunPosition(date);
+    const [sx, sy, sz] = equatorialToCartesian(sun.ra, sun.dec);
+    const [ax, ay, az] = getAberrationVector(dateToJDE(date));
+    const shadow = { ...cartesianToEquatorial(-sx - 2 * ax, -sy - 2 * ay, -sz - 2 * az), distance: 0 };
+    return getElongation(getMoonPosition(date), shadow);
+  });
+
+  const maximumJD = findMinimum(shadowDistance, fullMoon - SYZYGY_WINDOW, fullMoon + SYZYGY_WINDOW);
+  const maximum = jdToDate(maximumJD);
+  const moon = getMoonPosition(maximum);
+  const sun = getSunPosition(maximum);
+
+  const moonKm = moon.distance * AU_KM;
+  const moonParallax = Math.asin(EARTH_RADIUS_KM / moonKm) * RAD_TO_DEG;
+  const moonRadius = Math.asin(MOON_RADIUS_KM / moonKm) * RAD_TO_DEG;
+  const sunRadius = SUN_SEMIDIAMETER_1AU / sun.distance;
+  const sunParallax = SUN_PARALLAX_1AU / sun.distance;
+  const umbra = SHADOW_ENLARGEMENT * moonParallax + sunParallax - sunRadius;
+  const penumbra = SHADOW_ENLARGEMENT * moonParallax + sunParallax + sunRadius;
+
+  const distance = shadowDistance(maximumJD);
+  const penumbralMagnitude = (penumbra + moonRadius - distance) / (2 * moonRadius);
+  if (penumbralMagnitude <= 0) return null;
+  const magnitude = (umbra + moonRadius - distance) / (2 * moonRadius);
+  const type: LunarEclipseType = magnitude >= 1 ? 'total' : magnitude > 0 ? 'partial' : 'penumbral';
+
+  const topocentric = (date: Date) => getTopocentricPosition(getMoonPosition(date), location, date);
+  const contact = (label: string, jd: number): EclipseContact => {
+    const date = jdToDate(jd);
+    return { label, date, altitude: altitudeOf(topocentric(date), location, date) };
+  };
+
+  // Contacts where the Moon's limb meets the edge of the penumbra or umbra
+  const contacts: EclipseContact[] = [];
+  const limbs: [string, string, number][] = [
+    ['P1', 'P4', penumbra + moonRadius],
+    ['U1', 'U4', umbra + moonRadius],
+    ['U2', 'U3', umbra - moonRadius],
+  ];
+  for (const [first, last, radius] of limbs) {
+    if (distance >= radius) continue;
+    const f = (jd: number) => shadowDistance(jd) - radius;
+    contacts.push(contact(first, findRoot(f, maximumJD - SYZYGY_WINDOW, maximumJD)));
+    contacts.push(contact(last, findRoot(f, maximumJD, maximumJD + SYZYGY_WINDOW)));
+  }
+  contacts.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const position = topocentric(maximum);
+  return {
+    kind: 'lunar',
+    type,
+    maximum,
+    magnitude,
+    penumbralMagnitude,
+    contacts,
+    altitude: altitudeOf(position, location, maximum),
+    position: { ra: position.ra, dec: position.dec },
+  };
+}
+
+/**
+ * The Moon's shadow axis at an instant: its least distance from the Earth's
+ * centre (km), how far along the axis from the Moon that is (km), the
+ * Sun-Moon distance (km), and whether the axis passes north of the centre
+ */
+function getShadowAxis(date: Date): { distance: number; along: number; sunMoon: number; north: boolean } {
+  const sun = toKm(getSunPosition(date));
+  const moon = toKm(getMoonPosition(date));
+  const axis: Vec3 = [moon[0] - sun[0], moon[1] - sun[1], moon[2] - sun[2]];
+  const sunMoon = Math.hypot(...axis);
+  const unit = axis.map(v => v / sunMoon);
+
+  // Earth's centre projected onto the axis
+  const along = -(moon[0] * unit[0] + moon[1] * unit[1] + moon[2] * unit[2]);
+  const closest = moon.map((v, i) => v + along * unit[i]);
+  return { distance: Math.hypot(...closest), along, sunMoon, north: closest[1] > 0 };
+}
+
+/**
+ * Where and how an observer sees a solar eclipse, or null when they don't
+ */
+function getLocalSolarEclipse(greatestJD: number, location: GeoLocation): LocalSolarEclipse | null {
+  const positions = (date: Date) => ({
+    sun: getTopocentricPosition(getSunPosition(date), location, date),
+    moon: getTopocentricPosition(getMoonPosition(date), location, date),
+  });
+  const separation = onJD(date => {
+    const { sun, moon } = positions(date);
+    return getElongation(moon, sun);
+  });
+
+  const maximumJD = findMinimum(separation, greatestJD - LOCAL_WINDOW, greatestJD + LOCAL_WINDOW);
+  const maximum = jdToDate(maximumJD);
+  const { sun, moon } = positions(maximum);
+  const sunRadius = SUN_SEMIDIAMETER_1AU / sun.distance;
+  const moonRadius = Math.asin(MOON_RADIUS_KM / (moon.distance * AU_KM)) * RAD_TO_DEG;
+
+  const distance = separation(maximumJD);
+  if (distance >= sunRadius + moonRadius) return null;
+
+  const contacts: EclipseContact[] = [];
+  const contact = (label: string, jd: number) => {
+    const date = jdToDate(jd);
+    contacts.push({ label, date, altitude: altitudeOf(getSunPosition(date), location, date) });
+  };
+  const outer = (jd: number) => separation(jd) - (sunRadius + moonRadius);
+  contact('C1', findRoot(outer, maximumJD - LOCAL_WINDOW, maximumJD));
+  const inner = Math.abs(moonRadius - sunRadius);
+  if (distance < inner) {
+    const f = (jd: number) => separation(jd) - inner;
+    contact('C2', findRoot(f, maximumJD - LOCAL_WINDOW, maximumJD));
+    contact('C3', findRoot(f, maximumJD, maximumJD + LOCAL_WINDOW));
+  }
+  contact('C4', findRoot(outer, maximumJD, maximumJD + LOCAL_WINDOW));
+
+  let type: LocalSolarEclipse['type'] = 'partial';
+  if (distance < inner) type = moonRadius > sunRadius ? 'total' : 'annular';
+
+  return {
+    type,
+    maximum,
+    magnitude: (sunRadius + moonRadius - distance) / (2 * sunRadius),
+    contacts,
+    altitude: altitudeOf(sun, location, maximum),
+  };
+}
+
+/**
+ * Solar eclipse around a new Moon, or null when the penumbra misses the Earth
+ */
+function getSolarEclipse(newMoon: number, location: GeoLocation): SolarEclipse | null {
+  const axisDistance = onJD(date => getShadowAxis(date).distance);
+  const greatestJD = findMinimum(axisDistance, newMoon - SYZYGY_WINDOW, newMoon + SYZYGY_WINDOW);
+  const greatest = jdToDate(greatestJD);
+  const { distance, along, sunMoon, north } = getShadowAxis(greatest);
+
+  // Radii of the penumbral and umbral cones at the Earth's centre plane;
+  // the umbral radius turns negative where the antumbra takes over
+  const penumbra = MOON_RADIUS_KM + along * (SUN_RADIUS_KM + MOON_RADIUS_KM) / sunMoon;
+  const umbraAt = (x: number) => MOON_RADIUS_KM - x * (SUN_RADIUS_KM - MOON_RADIUS_KM) / sunMoon;
+  if (distance >= EARTH_RADIUS_KM + penumbra) return null;
+
+  const gamma = distance / EARTH_RADIUS_KM;
+  let type: SolarEclipseType = 'partial';
+  let magnitude: number;
+
+  if (gamma < 1) {
+    // Central: the surface under the axis is closer to the Moon than the centre plane
+    const depth = Math.sqrt(EARTH_RADIUS_KM ** 2 - distance ** 2);
+    const x = along - depth;
+    const nearest = umbraAt(x);
+    const edge = umbraAt(along);
+    type = nearest > 0 ? (edge > 0 ? 'total' : 'hybrid') : 'annular';
+
+    // Ratio of the apparent diameters seen from the surface on the axis
+    magnitude = (MOON_RADIUS_KM / x) / (SUN_RADIUS_KM / (sunMoon + x));
+  } else {
+    // Partial: the nearest point on Earth sits between the penumbra's edge
+    // (nothing covered) and the umbra's (the whole diameter covered)
+    magnitude = (penumbra - (distance - EARTH_RADIUS_KM)) / (penumbra - umbraAt(along));
+  }
+
+  const local = getLocalSolarEclipse(greatestJD, location);
+  const sun = getSunPosition(local ? local.maximum : greatest);
+
+  return {
+    kind: 'solar',
+    type,
+    maximum: greatest,
+    magnitude,
+    gamma: north ? gamma : -gamma,
+    local,
+    position: { ra: sun.ra, dec: sun.dec },
+  };
+}
+
+/**
+ * All solar and lunar eclipses between two dates, in order
+ */
+export function findEclipses(start: Date, end: Date, location: GeoLocation): Eclipse[] {
+  const startJD = dateToJD(start);
+  const endJD = dateToJD(end);
+
+  // The Moon's age, folded so new Moon is a rising zero and full Moon a rising zero of the other
+  const age = onJD(getMoonAge);
+  const newMoons = findCrossings(jd => {
+    const a = age(jd);
+    return a < SYNODIC_MONTH / 2 ? a : a - SYNODIC_MONTH;
+  }, startJD, endJD, 1).filter(crossing => crossing.rising);
+  const fullMoons = findCrossings(
+    jd => age(jd) - SYNODIC_MONTH / 2, startJD, endJD, 1
+  ).filter(crossing => crossing.rising);
+
+  const eclipses: Eclipse[] = [];
+  for (const { jd } of newMoons) {
+    const eclipse = getSolarEclipse(jd, location);
+    if (eclipse) eclipses.push(eclipse);
+  }
+  for (const { jd } of fullMoons) {
+    const eclipse = getLunarEclipse(jd, location);
+    if (eclipse) eclipses.push(eclipse);
+  }
+
+  return eclipses.sort((a, b) => a.maximum.getTime() - b.maximum.getTime());
+}
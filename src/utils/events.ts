@@ -0,0 +1,128 @@
+/**
+ * Event search - finding when a quantity that varies with time crosses a value
+ * or reaches an extremum
+ *
+ * Functions are sampled on Julian Days (UT, see dateToJD); onJD adapts a
+ * function of a Date. A scan samples at a fixed step and refines each bracket,
+ * so the step must be shorter than the shortest event the caller wants to catch.
+ */
+
+import { jdToDate } from './time';
+
+// One second, in days
+export const SECOND = 1 / 86400;
+
+export interface Crossing {
+  jd: number;
+  rising: boolean;  // The function goes from negative to positive
+}
+
+/**
+ * Zero of f between a and b, where f(a) and f(b) have opposite signs (bisection)
+ */
+export function findRoot(f: (jd: number) => number, a: number, b: number, tolerance: number = SECOND): number {
+  let lo = a;
+  let hi = b;
+  const loNegative = f(lo) < 0;
+  while (hi - lo > tolerance) {
+    const mid = (lo + hi) / 2;
+    if ((f(mid) < 0) === loNegative) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Minimum of a function with a single minimum between a and b (golden-section search)
+ */
+export function findMinimum(f: (jd: number) => number, a: number, b: number, tolerance: number = SECOND): number {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let lo = a;
+  let hi = b;
+  let x1 = hi - ratio * (hi - lo);
+  let x2 = lo + ratio * (hi - lo);
+  let f1 = f(x1);
+  let f2 = f(x2);
+  while (hi - lo > tolerance) {
+    if (f1 < f2) {
+      hi = x2;
+      x2 = x1;
+      f2 = f1;
+      x1 = hi - ratio * (hi - lo);
+      f1 = f(x1);
+    } else {
+      lo = x1;
+      x1 = x2;
+      f1 = f2;
+      x2 = lo + ratio * (hi - lo);
+      f2 = f(x2);
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Maximum of a function with a single maximum between a and b
+ */
+export function findMaximum(f: (jd: number) => number, a: number, b: number, tolerance: number = SECOND): number {
+  return findMinimum(jd => -f(jd), a, b, tolerance);
+}
+
+/**
+ * Every sign change of f between two Julian Days, in order
+ */
+export function findCrossings(
+  f: (jd: number) => number,
+  startJD: number,
+  endJD: number,
+  step: number,
+  tolerance: number = SECOND
+): Crossing[] {
+  const crossings: Crossing[] = [];
+  let previousJD = startJD;
+  let previous = f(startJD);
+
+  while (previousJD < endJD) {
+    const jd = Math.min(previousJD + step, endJD);
+    const value = f(jd);
+    if ((previous < 0) !== (value < 0)) {
+      crossings.push({ jd: findRoot(f, previousJD, jd, tolerance), rising: value >= 0 });
+    }
+    previousJD = jd;
+    previous = value;
+  }
+
+  return crossings;
+}
+
+/**
+ * Every local minimum of f between two Julian Days, in order
+ * Found where the sampled values turn from falling to rising.
+ */
+export function findMinima(
+  f: (jd: number) => number,
+  startJD: number,
+  endJD: number,
+  step: number,
+  tolerance: number = SECOND
+): number[] {
+  const minima: number[] = [];
+  let a = f(startJD);
+  let b = f(startJD + step);
+
+  for (let jd = startJD + step; jd < endJD; jd += step) {
+    const c = f(jd + step);
+    if (b <= a && b < c) minima.push(findMinimum(f, jd - step, jd + step, tolerance));
+    a = b;
+    b = c;
+  }
+
+  return minima;
+}
+
+/**
+ * Adapt a function of a Date to the Julian Day (UT) the searches sample on
+ */
+export function onJD<T>(f: (date: Date) => T): (jd: number) => T {
+  return jd => f(jdToDate(jd));
+}
@@ -0,0 +1,279 @@
+/**
+ * Minor bodies - comets and asteroids from Minor Planet Center orbital elements
+ *
+ * Reads the one-line MPCORB (asteroids) and CometEls (comets) export formats.
+ * Orbits are unperturbed two-body Keplerian ellipses, parabolas or hyperbolas,
+ * good near the epoch of the elements; refresh the file for accurate positions.
+ */
+
+import {
+  LIGHT_TIME_PER_AU,
+  cartesianToEquatorial,
+  eclipticJ2000ToEquatorial,
+  getEarthHeliocentricPosition,
+  type SolarSystemPosition,
+  type Vec3,
+} from './astronomy';
+import { calendarToJD, dateToJDE } from './time';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+// Gaussian gravitational constant, radians per day
+const GAUSS_K = 0.01720209895;
+
+// Orbits this close to e = 1 are treated as parabolic
+const PARABOLIC_TOLERANCE = 1e-6;
+
+// Large MPCORB files are trimmed to the brightest bodies to keep propagation fast
+export const MAX_MINOR_BODIES = 5000;
+
+export interface MinorBodyOrbit {
+  id: string;                  // Designation as given in the file
+  name: string;
+  type: 'asteroid' | 'comet';
+  perihelionTime: number;      // JDE of perihelion passage
+  q: number;                   // Perihelion distance, AU
+  e: number;                   // Eccentricity
+  i: number;                   // Inclination, degrees (ecliptic J2000)
+  node: number;                // Longitude of the ascending node, degrees
+  peri: number;                // Argument of perihelion, degrees
+  absoluteMagnitude: number;   // H for asteroids, g for comets
+  slope: number;               // G for asteroids, k for comets
+}
+
+export interface MinorBodyPosition extends SolarSystemPosition {
+  heliocentricDistance: number;  // AU
+}
+
+// Columns are 1-based and inclusive, as in the MPC format descriptions
+function field(line: string, start: number, end: number): string {
+  return line.slice(start - 1, end).trim();
+}
+
+function numberField(line: string, start: number, end: number): number {
+  const text = field(line, start, end);
+  return text === '' ? NaN : Number(text);
+}
+
+// Packed digits: 1-9, then A = 10 ... V = 31
+function unpackDigit(char: string): number {
+  return /\d/.test(char) ? Number(char) : char.charCodeAt(0) - 55;
+}
+
+// Packed epoch, e.g. K24AH = 2024 Oct 17.0 TT
+function unpackEpoch(packed: string): number {
+  if (!/^[A-Z]\d\d[1-9A-C][1-9A-V]$/.test(packed)) return NaN;
+  const year = unpackDigit(packed[0]) * 100 + Number(packed.slice(1, 3));
+  return calendarToJD({
+    year,
+    month: unpackDigit(packed[3]),
+    day: unpackDigit(packed[4]),
+    hour: 0,
+    minute: 0,
+    second: 0,
+  }, 'gregorian');
+}
+
+/**
+ * Parse one MPCORB line
+ */
+function parseAsteroidLine(line: string): MinorBodyOrbit | null {
+  if (line.length < 103) return null;
+
+  const epoch = unpackEpoch(field(line, 21, 25));
+  const M = numberField(line, 27, 35);
+  const peri = numberField(line, 38, 46);
+  const node = numberField(line, 49, 57);
+  const i = numberField(line, 60, 68);
+  const e = numberField(line, 71, 79);
+  const n = numberField(line, 81, 91);
+  const a = numberField(line, 93, 103);
+  if ([epoch, M, peri, node, i, e, n, a].some(isNaN) || e >= 1 || n <= 0) return null;
+
+  const H = numberField(line, 9, 13);
+  const G = numberField(line, 15, 19);
+  const id = field(line, 1, 7);
+  const name = field(line, 167, 194) || id;
+
+  // Mean anomaly at the epoch -> time of the last perihelion
+  return {
+    id,
+    name,
+    type: 'asteroid',
+    perihelionTime: epoch - M / n,
+    q: a * (1 - e),
+    e,
+    i,
+    node,
+    peri,
+    absoluteMagnitude: isNaN(H) ? 15 : H,
+    slope: isNaN(G) ? 0.15 : G,
+  };
+}
+
+/**
+ * Parse one CometEls line
+ */
+function parseCometLine(line: string): MinorBodyOrbit | null {
+  if (line.length < 100 || !/[CPDXIA]/.test(line[4])) return null;
+
+  const year = numberField(line, 15, 18);
+  const month = numberField(line, 20, 21);
+  const day = numberField(line, 23, 29);
+  const q = numberField(line, 31, 39);
+  const e = numberField(line, 42, 49);
+  const peri = numberField(line, 52, 59);
+  const node = numberField(line, 62, 69);
+  const i = numberField(line, 72, 79);
+  if ([year, month, day, q, e, peri, node, i].some(isNaN) || q <= 0) return null;
+
+  const g = numberField(line, 92, 95);
+  const k = numberField(line, 97, 100);
+  const name = field(line, 103, 158);
+
+  return {
+    id: name || field(line, 1, 12),
+    name: name || field(line, 1, 12),
+    type: 'comet',
+    perihelionTime: calendarToJD({ year, month, day, hour: 0, minute: 0, second: 0 }, 'gregorian'),
+    q,
+    e,
+    i,
+    node,
+    peri,
+    absoluteMagnitude: isNaN(g) ? 10 : g,
+    slope: isNaN(k) ? 4 : k,
+  };
+}
+
+/**
+ * Parse an MPCORB or CometEls file (the format is recognised line by line)
+ * Header lines and anything unparseable are skipped.
+ */
+export function parseMinorBodyFile(text: string): MinorBodyOrbit[] {
+  const orbits: MinorBodyOrbit[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    // Comet lines carry the orbit type in column 5 and a perihelion year at 15-18
+    const orbit = /^[ \dA-Z]{4}[CPDXIA]/.test(line) && /^\d{4}$/.test(field(line, 15, 18))
+      ? parseCometLine(line)
+      : parseAsteroidLine(line);
+    if (orbit) orbits.push(orbit);
+  }
+
+  if (orbits.length > MAX_MINOR_BODIES) {
+    orbits.sort((a, b) => a.absoluteMagnitude - b.absoluteMagnitude);
+    orbits.length = MAX_MINOR_BODIES;
+  }
+
+  return orbits;
+}
+
+/**
+ * Heliocentric position (AU, J2000 celestial frame) of a body on its orbit
+ */
+function getOrbitPosition(orbit: MinorBodyOrbit, jde: number): Vec3 {
+  const { q, e } = orbit;
+  const dt = jde - orbit.perihelionTime;
+  let r: number;
+  let nu: number;
+
+  if (Math.abs(e - 1) < PARABOLIC_TOLERANCE) {
+    // Barker's equation: s^3 + 3s = W, with s = tan(nu / 2)
+    const W = 3 * GAUSS_K * dt / Math.sqrt(2 * q * q * q);
+    const Y = Math.cbrt(W / 2 + Math.sqrt(W * W / 4 + 1));
+    const s = Y - 1 / Y;
+    nu = 2 * Math.atan(s);
+    r = q * (1 + s * s);
+  } else if (e < 1) {
+    const a = q / (1 - e);
+    let M = GAUSS_K * dt / Math.pow(a, 1.5);
+    M = ((M + Math.PI) % (2 * Math.PI) + 2 * Math.PI) % (2 * Math.PI) - Math.PI;
+
+    // Kepler's equation by Newton iteration, with a start that converges for any e
+    let E = M + 0.85 * e * Math.sign(Math.sin(M));
+    for (let i = 0; i < 50; i++) {
+      const dE = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E));
+      E -= dE;
+      if (Math.abs(dE) < 1e-12) break;
+    }
+    r = a * (1 - e * Math.cos(E));
+    nu = 2 * Math.atan2(Math.sqrt(1 + e) * Math.sin(E / 2), Math.sqrt(1 - e) * Math.cos(E / 2));
+  } else {
+    const a = q / (e - 1);
+    const M = GAUSS_K * dt / Math.pow(a, 1.5);
+
+    // Hyperbolic Kepler's equation: e sinh(H) - H = M
+    let H = Math.asinh(M / e);
+    for (let i = 0; i < 50; i++) {
+      const dH = (e * Math.sinh(H) - H - M) / (e * Math.cosh(H) - 1);
+      H -= dH;
+      if (Math.abs(dH) < 1e-12) break;
+    }
+    r = a * (e * Math.cosh(H) - 1);
+    nu = 2 * Math.atan(Math.sqrt((e + 1) / (e - 1)) * Math.tanh(H / 2));
+  }
+
+  const u = orbit.peri * DEG_TO_RAD + nu;
+  const node = orbit.node * DEG_TO_RAD;
+  const inc = orbit.i * DEG_TO_RAD;
+
+  return eclipticJ2000ToEquatorial([
+    r * (Math.cos(node) * Math.cos(u) - Math.sin(node) * Math.sin(u) * Math.cos(inc)),
+    r * (Math.sin(node) * Math.cos(u) + Math.cos(node) * Math.sin(u) * Math.cos(inc)),
+    r * Math.sin(u) * Math.sin(inc),
+  ]);
+}
+
+/**
+ * Geocentric astrometric position of a comet or asteroid (corrected for light-time)
+ * Aberration is applied with the stars. The Earth's position can be passed in
+ * when propagating many orbits to the same time.
+ */
+export function getMinorBodyPosition(
+  orbit: MinorBodyOrbit,
+  date: Date,
+  earth: Vec3 = getEarthHeliocentricPosition(date)
+): MinorBodyPosition {
+  const jde = dateToJDE(date);
+
+  let helio = getOrbitPosition(orbit, jde);
+  for (let i = 0; i < 2; i++) {
+    const dx = helio[0] - earth[0];
+    const dy = helio[1] - earth[1];
+    const dz = helio[2] - earth[2];
+    helio = getOrbitPosition(orbit, jde - LIGHT_TIME_PER_AU * Math.sqrt(dx * dx + dy * dy + dz * dz));
+  }
+
+  const x = helio[0] - earth[0];
+  const y = helio[1] - earth[1];
+  const z = helio[2] - earth[2];
+
+  return {
+    ...cartesianToEquatorial(x, y, z),
+    distance: Math.sqrt(x * x + y * y + z * z),
+    heliocentricDistance: Math.sqrt(helio[0] * helio[0] + helio[1] * helio[1] + helio[2] * helio[2]),
+  };
+}
+
+/**
+ * Predicted visual magnitude
+ * Asteroids: IAU H, G system. Comets: m = g + 5 log(delta) + 2.5 k log(r).
+ * r and delta are the distances from the Sun and Earth in AU, phaseAngle in degrees.
+ */
+export function getMinorBodyMagnitude(
+  orbit: MinorBodyOrbit,
+  r: number,
+  delta: number,
+  phaseAngle: number
+): number {
+  if (orbit.type === 'comet') {
+    return orbit.absoluteMagnitude + 5 * Math.log10(delta) + 2.5 * orbit.slope * Math.log10(r);
+  }
+
+  const tanHalf = Math.tan(phaseAngle * DEG_TO_RAD / 2);
+  const phi1 = Math.exp(-3.33 * Math.pow(tanHalf, 0.63));
+  const phi2 = Math.exp(-1.87 * Math.pow(tanHalf, 1.22));
+  const G = orbit.slope;
+  return orbit.absoluteMagnitude + 5 * Math.log10(r * delta) - 2.5 * Math.log10((1 - G) * phi1 + G * phi2);
+}
@@ -0,0 +1,164 @@
+/**
+ * Observing planner - what is well placed during the coming night
+ *
+ * The night runs from the end of astronomical dusk to the start of dawn
+ * (Sun 18° below the horizon). Targets are sampled across it and ranked by
+ * how long they stay above a chosen altitude.
+ */
+
+import {
+  cartesianToEquatorial,
+  equatorialToHorizontal,
+  getEpochYears,
+  getSunPosition,
+  j2000ToApparent,
+  type EquatorialCoords,
+  type GeoLocation,
+} from './astronomy';
+import { CONSTELLATION_COORDS, CONSTELLATION_NAMES } from './constellationNames';
+import { DEEP_SKY_TYPE_NAMES, formatDeepSkySize, getDeepSkyMagnitude, type DeepSkyObject } from './deepSky';
+import { findCrossings, onJD } from './events';
+import { getStarPositionAt, type Star } from './starLoader';
+import { dateToJD, jdToDate } from './time';
+
+// Sun altitude at the ends of astronomical twilight
+export const ASTRONOMICAL_NIGHT = -18;
+
+// Spacing of the altitude samples across the night, in minutes
+const SAMPLE_MINUTES = 10;
+
+export interface NightWindow {
+  dusk: Date;
+  dawn: Date;
+  times: Date[];  // Sample times from dusk to dawn
+}
+
+export interface PlannerTarget {
+  type: 'star' | 'constellation' | 'deepsky';
+  id: string;
+  name: string;
+  subtitle: string;
+  constellation: string;    // IAU abbreviation
+  mag: number | null;       // Stars and deep-sky objects
+  position: EquatorialCoords;  // J2000, at the date of the night
+  altitudes: number[];      // Geometric altitude at each sample time
+  minutesUp: number;        // Time above the chosen altitude during the night
+  maxAltitude: number;
+  maxTime: Date;
+}
+
+/**
+ * The night in progress at a date, or the next one; null where the Sun never
+ * gets 18° below the horizon (high latitudes in summer)
+ */
+export function getNightWindow(date: Date, location: GeoLocation): NightWindow | null {
+  const sunAltitude = onJD(time => {
+    const apparent = j2000ToApparent(getSunPosition(time), time);
+    return equatorialToHorizontal(apparent, location, time).alt - ASTRONOMICAL_NIGHT;
+  });
+
+  // Falling crossings are dusk, rising ones dawn
+  const jd = dateToJD(date);
+  const crossings = findCrossings(sunAltitude, jd - 1, jd + 2, 1 / 48, 30 / 86400);
+  const dark = sunAltitude(jd) < 0;
+
+  // Already dark: the dusk before now; otherwise tonight's
+  const dusk = dark
+    ? crossings.filter(crossing => !crossing.rising && crossing.jd <= jd).pop()
+    : crossings.find(crossing => !crossing.rising && crossing.jd > jd);
+  if (!dusk) return null;
+  const dawn = crossings.find(crossing => crossing.rising && crossing.jd > dusk.jd);
+  if (!dawn) return null;
+
+  const times: Date[] = [];
+  const step = SAMPLE_MINUTES / 1440;
+  for (let t = dusk.jd; t < dawn.jd; t += step) times.push(jdToDate(t));
+  times.push(jdToDate(dawn.jd));
+
+  return { dusk: jdToDate(dusk.jd), dawn: jdToDate(dawn.jd), times };
+}
+
+/**
+ * Named stars, deep-sky objects and constellations ranked by time above
+ * minAltitude during the night, longest first
+ */
+export function planNight(
+  night: NightWindow,
+  location: GeoLocation,
+  stars: Star[],
+  deepSkyObjects: DeepSkyObject[],
+  minAltitude: number
+): PlannerTarget[] {
+  // Precession and aberration barely change over a night, so the apparent
+  // place is taken once, at midnight
+  const middle = night.times[Math.floor(night.times.length / 2)];
+  const epoch = getEpochYears(middle);
+  const sampleMinutes = (night.dawn.getTime() - night.dusk.getTime()) / 60000 / Math.max(1, night.times.length - 1);
+
+  const plan = (
+    base: Omit<PlannerTarget, 'altitudes' | 'minutesUp' | 'maxAltitude' | 'maxTime'>
+  ): PlannerTarget => {
+    const apparent = j2000ToApparent(base.position, middle);
+    const altitudes = night.times.map(time => equatorialToHorizontal(apparent, location, time).alt);
+    let maxIndex = 0;
+    altitudes.forEach((alt, i) => {
+      if (alt > altitudes[maxIndex]) maxIndex = i;
+    });
+    return {
+      ...base,
+      altitudes,
+      minutesUp: altitudes.filter(alt => alt >= minAltitude).length * sampleMinutes,
+      maxAltitude: altitudes[maxIndex],
+      maxTime: night.times[maxIndex],
+    };
+  };
+
+  const targets: PlannerTarget[] = [];
+
+  for (const star of stars) {
+    if (!star.proper) continue;
+    const [x, y, z] = getStarPositionAt(star, epoch);
+    targets.push(plan({
+      type: 'star',
+      id: `star:${star.id}`,
+      name: star.proper,
+      subtitle: star.bayer || `mag ${star.mag.toFixed(1)}`,
+      constellation: star.constellation ?? '',
+      mag: star.mag,
+      position: cartesianToEquatorial(x, y, z),
+    }));
+  }
+
+  for (const object of deepSkyObjects) {
+    targets.push(plan({
+      type: 'deepsky',
+      id: `deepsky:${object.id}`,
+      name: object.name ?? object.id,
+      subtitle: [
+        object.name && object.id,
+        DEEP_SKY_TYPE_NAMES[object.type],
+        object.mag !== null && `mag ${object.mag.toFixed(1)}`,
+        formatDeepSkySize(object),
+      ].filter(Boolean).join(' · '),
+      constellation: object.constellation,
+      mag: getDeepSkyMagnitude(object),
+      position: { ra: object.ra, dec: object.dec },
+    }));
+  }
+
+  for (const [abbr, coords] of Object.entries(CONSTELLATION_COORDS)) {
+    targets.push(plan({
+      type: 'constellation',
+      id: `constellation:${abbr}`,
+      name: CONSTELLATION_NAMES[abbr] ?? abbr,
+      subtitle: abbr,
+      constellation: abbr,
+      mag: null,
+      position: coords,
+    }));
+  }
+
+  return targets
+    .filter(target => target.minutesUp > 0)
+    .sort((a, b) => b.minutesUp - a.minutesUp || b.maxAltitude - a.maxAltitude);
+}
@@ -0,0 +1,602 @@
+/**
+ * Artificial satellites - SGP4 propagation of two-line element sets
+ *
+ * Near-Earth SGP4 after Vallado et al., "Revisiting Spacetrack Report #3" (2006),
+ * with the WGS-72 constants the elements are fitted with. Deep-space orbits
+ * (periods of 225 minutes and more) need SDP4 and are skipped when loading.
+ * Positions come out in the TEME frame, which is turned with the Earth by GMST.
+ */
+
+import {
+  equatorialToCartesian,
+  equatorialToHorizontal,
+  getSunPosition,
+  j2000ToApparent,
+  jdToGMST,
+  type GeoLocation,
+  type Vec3,
+} from './astronomy';
+import { findMaximum, findRoot } from './events';
+import { calendarToJD, dateToJD, jdToDate } from './time';
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+const TWO_PI = 2 * Math.PI;
+const MINUTES_PER_DAY = 1440;
+
+// WGS-72
+const EARTH_RADIUS_KM = 6378.135;
+const XKE = 60 / Math.sqrt(EARTH_RADIUS_KM ** 3 / 398600.8);  // sqrt(GM) in Earth radii^1.5 per minute
+const J2 = 0.001082616;
+const J3 = -0.00000253881;
+const J4 = -0.00000165597;
+const J3OJ2 = J3 / J2;
+
+// Observer on the WGS-84 ellipsoid
+const WGS84_A = 6378.137;
+const WGS84_E2 = 0.00669437999014;
+
+// Orbits this slow are deep-space and need SDP4
+const DEEP_SPACE_PERIOD = 225;  // minutes
+
+// Large TLE catalogs are trimmed to keep propagation at frame rate
+export const MAX_SATELLITES = 3000;
+
+// Passes are counted from this altitude, and seen when the sky is at least this dark
+export const PASS_MIN_ALTITUDE = 10;
+const PASS_MAX_SUN_ALTITUDE = -6;
+const PASS_SEARCH_STEP = 30;  // seconds
+
+// Trails cover this much clock time before the current instant
+export const TRAIL_DURATION = 60;  // seconds
+const TRAIL_POINTS = 12;
+
+// Constants of one orbit, computed once when the elements are loaded
+interface Sgp4Constants {
+  ecco: number; inclo: number; nodeo: number; argpo: number; mo: number; bstar: number;
+  noUnkozai: number; isimp: boolean;
+  aycof: number; con41: number; cc1: number; cc4: number; cc5: number;
+  d2: number; d3: number; d4: number; delmo: number; eta: number;
+  argpdot: number; omgcof: number; sinmao: number; t2cof: number; t3cof: number;
+  t4cof: number; t5cof: number; x1mth2: number; x7thm1: number; mdot: number;
+  nodedot: number; xlcof: number; xmcof: number; nodecf: number;
+}
+
+export interface SatelliteRecord {
+  id: string;              // NORAD catalog number
+  name: string;
+  epoch: number;           // Julian Date (UTC) of the elements
+  period: number;          // Orbital period in minutes
+  sgp4: Sgp4Constants;
+}
+
+export interface Satellite {
+  id: string;              // `sat:` + catalog number
+  name: string;
+  catalogNumber: string;
+  alt: number;             // Topocentric altitude in degrees (unrefracted)
+  az: number;              // Azimuth in degrees
+  range: number;           // Distance from the observer in km
+  height: number;          // Height above the ellipsoid in km
+  sunlit: boolean;         // Outside the Earth's shadow
+  trail: Vec3[];           // Recent positions in the horizon frame, oldest first
+  record: SatelliteRecord;
+}
+
+export interface PassPoint {
+  date: Date;
+  alt: number;
+  az: number;
+  sunlit: boolean;
+}
+
+export interface SatellitePass {
+  start: PassPoint;
+  max: PassPoint;
+  end: PassPoint;
+  visible: boolean;        // Sunlit at some point while the observer's sky is dark
+}
+
+/**
+ * Distinguish satellites from other objects in mixed selections
+ */
+export function isSatellite(object: object): object is Satellite {
+  return 'catalogNumber' in object;
+}
+
+// Columns are 1-based and inclusive, as in the TLE format description
+function field(line: string, start: number, end: number): string {
+  return line.slice(start - 1, end).trim();
+}
+
+// Assumed decimal point with exponent, e.g. " 12345-3" = 0.12345e-3
+function exponentField(line: string, start: number, end: number): number {
+  const match = field(line, start, end).match(/^([+-]?)(\d+)([+-]\d)$/);
+  if (!match) return 0;
+  return Number(`${match[1]}0.${match[2]}e${match[3]}`);
+}
+
+/**
+ * Set up SGP4 for one element set (sgp4init, near-Earth branch)
+ */
+function initSgp4(
+  ecco: number,
+  inclo: number,
+  nodeo: number,
+  argpo: number,
+  mo: number,
+  noKozai: number,
+  bstar: number
+): Sgp4Constants {
+  // Recover the original mean motion and semi-major axis from the Kozai mean motion
+  const eccsq = ecco * ecco;
+  const omeosq = 1 - eccsq;
+  const rteosq = Math.sqrt(omeosq);
+  const cosio = Math.cos(inclo);
+  const cosio2 = cosio * cosio;
+  const ak = Math.pow(XKE / noKozai, 2 / 3);
+  const d1 = 0.75 * J2 * (3 * cosio2 - 1) / (rteosq * omeosq);
+  let del = d1 / (ak * ak);
+  const adel = ak * (1 - del * del - del * (1 / 3 + 134 * del * del / 81));
+  del = d1 / (adel * adel);
+  const noUnkozai = noKozai / (1 + del);
+
+  const ao = Math.pow(XKE / noUnkozai, 2 / 3);
+  const sinio = Math.sin(inclo);
+  const po = ao * omeosq;
+  const con42 = 1 - 5 * cosio2;
+  const con41 = -con42 - cosio2 - cosio2;
+  const posq = po * po;
+  const rp = ao * (1 - ecco);
+
+  // Atmospheric density parameters, lowered for low perigees
+  const ss = 78 / EARTH_RADIUS_KM + 1;
+  const isimp = rp < 220 / EARTH_RADIUS_KM + 1;
+  let sfour = ss;
+  let qzms24 = Math.pow((120 - 78) / EARTH_RADIUS_KM, 4);
+  const perige = (rp - 1) * EARTH_RADIUS_KM;
+  if (perige < 156) {
+    sfour = perige < 98 ? 20 : perige - 78;
+    qzms24 = Math.pow((120 - sfour) / EARTH_RADIUS_KM, 4);
+    sfour = sfour / EARTH_RADIUS_KM + 1;
+  }
+
+  const pinvsq = 1 / posq;
+  const tsi = 1 / (ao - sfour);
+  const eta = ao * ecco * tsi;
+  const etasq = eta * eta;
+  const eeta = ecco * eta;
+  const psisq = Math.abs(1 - etasq);
+  const coef = qzms24 * Math.pow(tsi, 4);
+  const coef1 = coef / Math.pow(psisq, 3.5);
+  const cc2 = coef1 * noUnkozai * (ao * (1 + 1.5 * etasq + eeta * (4 + etasq)) +
+    0.375 * J2 * tsi / psisq * con41 * (8 + 3 * etasq * (8 + etasq)));
+  const cc1 = bstar * cc2;
+  const cc3 = ecco > 1e-4 ? -2 * coef * tsi * J3OJ2 * noUnkozai * sinio / ecco : 0;
+  const x1mth2 = 1 - cosio2;
+  const cc4 = 2 * noUnkozai * coef1 * ao * omeosq * (eta * (2 + 0.5 * etasq) + ecco * (0.5 + 2 * etasq) -
+    J2 * tsi / (ao * psisq) * (-3 * con41 * (1 - 2 * eeta + etasq * (1.5 - 0.5 * eeta)) +
+    0.75 * x1mth2 * (2 * etasq - eeta * (1 + etasq)) * Math.cos(2 * argpo)));
+  const cc5 = 2 * coef1 * ao * omeosq * (1 + 2.75 * (etasq + eeta) + eeta * etasq);
+
+  // Secular rates from J2 and J4
+  const cosio4 = cosio2 * cosio2;
+  const temp1 = 1.5 * J2 * pinvsq * noUnkozai;
+  const temp2 = 0.5 * temp1 * J2 * pinvsq;
+  const temp3 = -0.46875 * J4 * pinvsq * pinvsq * noUnkozai;
+  const mdot = noUnkozai + 0.5 * temp1 * rteosq * con41 +
+    0.0625 * temp2 * rteosq * (13 - 78 * cosio2 + 137 * cosio4);
+  const argpdot = -0.5 * temp1 * con42 + 0.0625 * temp2 * (7 - 114 * cosio2 + 395 * cosio4) +
+    temp3 * (3 - 36 * cosio2 + 49 * cosio4);
+  const xhdot1 = -temp1 * cosio;
+  const nodedot = xhdot1 + (0.5 * temp2 * (4 - 19 * cosio2) + 2 * temp3 * (3 - 7 * cosio2)) * cosio;
+
+  // Long-period terms; the 1 + cos(i) divisor is guarded for retrograde equatorial orbits
+  const xlcofDivisor = Math.abs(cosio + 1) > 1.5e-12 ? 1 + cosio : 1.5e-12;
+
+  const constants: Sgp4Constants = {
+    ecco, inclo, nodeo, argpo, mo, bstar, noUnkozai, isimp,
+    aycof: -0.5 * J3OJ2 * sinio,
+    con41, cc1, cc4, cc5,
+    d2: 0, d3: 0, d4: 0,
+    delmo: Math.pow(1 + eta * Math.cos(mo), 3),
+    eta, argpdot,
+    omgcof: bstar * cc3 * Math.cos(argpo),
+    sinmao: Math.sin(mo),
+    t2cof: 1.5 * cc1,
+    t3cof: 0, t4cof: 0, t5cof: 0,
+    x1mth2,
+    x7thm1: 7 * cosio2 - 1,
+    mdot, nodedot,
+    xlcof: -0.25 * J3OJ2 * sinio * (3 + 5 * cosio) / xlcofDivisor,
+    xmcof: ecco > 1e-4 ? -2 / 3 * coef * bstar / eeta : 0,
+    nodecf: 3.5 * omeosq * xhdot1 * cc1,
+  };
+
+  // Higher-order drag terms, dropped for very low perigees
+  if (!isimp) {
+    const cc1sq = cc1 * cc1;
+    const d2 = 4 * ao * tsi * cc1sq;
+    const temp = d2 * tsi * cc1 / 3;
+    const d3 = (17 * ao + sfour) * temp;
+    const d4 = 0.5 * temp * ao * tsi * (221 * ao + 31 * sfour) * cc1;
+    constants.d2 = d2;
+    constants.d3 = d3;
+    constants.d4 = d4;
+    constants.t3cof = d2 + 2 * cc1sq;
+    constants.t4cof = 0.25 * (3 * d3 + cc1 * (12 * d2 + 10 * cc1sq));
+    constants.t5cof = 0.2 * (3 * d4 + 12 * cc1 * d3 + 6 * d2 * d2 + 15 * cc1sq * (2 * d2 + cc1sq));
+  }
+
+  return constants;
+}
+
+/**
+ * TEME position in km, minutes after the epoch of the elements
+ * Returns null once the orbit has decayed or the elements stop making sense.
+ */
+function propagateSgp4(s: Sgp4Constants, tsince: number): Vec3 | null {
+  const t = tsince;
+  const t2 = t * t;
+
+  // Secular gravity and drag
+  const xmdf = s.mo + s.mdot * t;
+  const argpdf = s.argpo + s.argpdot * t;
+  const nodedf = s.nodeo + s.nodedot * t;
+  let argpm = argpdf;
+  let mm = xmdf;
+  let nodem = nodedf + s.nodecf * t2;
+  let tempa = 1 - s.cc1 * t;
+  let tempe = s.bstar * s.cc4 * t;
+  let templ = s.t2cof * t2;
+
+  if (!s.isimp) {
+    const delomg = s.omgcof * t;
+    const delm = s.xmcof * (Math.pow(1 + s.eta * Math.cos(xmdf), 3) - s.delmo);
+    mm = xmdf + delomg + delm;
+    argpm = argpdf - delomg - delm;
+    const t3 = t2 * t;
+    const t4 = t3 * t;
+    tempa = tempa - s.d2 * t2 - s.d3 * t3 - s.d4 * t4;
+    tempe = tempe + s.bstar * s.cc5 * (Math.sin(mm) - s.sinmao);
+    templ = templ + s.t3cof * t3 + t4 * (s.t4cof + t * s.t5cof);
+  }
+
+  const am = Math.pow(XKE / s.noUnkozai, 2 / 3) * tempa * tempa;
+  let em = s.ecco - tempe;
+  if (em >= 1 || em < -0.001 || am < 0.95) return null;
+  if (em < 1e-6) em = 1e-6;
+
+  mm = mm + s.noUnkozai * templ;
+  const xlm = (mm + argpm + nodem) % TWO_PI;
+  nodem = nodem % TWO_PI;
+  argpm = argpm % TWO_PI;
+  mm = (xlm - argpm - nodem) % TWO_PI;
+
+  const sinim = Math.sin(s.inclo);
+  const cosim = Math.cos(s.inclo);
+
+  // Long-period periodics
+  const axnl = em * Math.cos(argpm);
+  let temp = 1 / (am * (1 - em * em));
+  const aynl = em * Math.sin(argpm) + temp * s.aycof;
+  const xl = mm + argpm + nodem + temp * s.xlcof * axnl;
+
+  // Kepler's equation in the modified form of SGP4
+  const u = (xl - nodem) % TWO_PI;
+  let eo1 = u;
+  let sineo1 = 0;
+  let coseo1 = 0;
+  for (let i = 0; i < 10; i++) {
+    sineo1 = Math.sin(eo1);
+    coseo1 = Math.cos(eo1);
+    let step = (u - aynl * coseo1 + axnl * sineo1 - eo1) / (1 - coseo1 * axnl - sineo1 * aynl);
+    step = Math.max(-0.95, Math.min(0.95, step));
+    eo1 += step;
+    if (Math.abs(step) < 1e-12) break;
+  }
+  sineo1 = Math.sin(eo1);
+  coseo1 = Math.cos(eo1);
+
+  // Short-period periodics
+  const ecose = axnl * coseo1 + aynl * sineo1;
+  const esine = axnl * sineo1 - aynl * coseo1;
+  const el2 = axnl * axnl + aynl * aynl;
+  const pl = am * (1 - el2);
+  if (pl < 0) return null;
+
+  const rl = am * (1 - ecose);
+  const betal = Math.sqrt(1 - el2);
+  temp = esine / (1 + betal);
+  const sinu = am / rl * (sineo1 - aynl - axnl * temp);
+  const cosu = am / rl * (coseo1 - axnl + aynl * temp);
+  let su = Math.atan2(sinu, cosu);
+  const sin2u = (cosu + cosu) * sinu;
+  const cos2u = 1 - 2 * sinu * sinu;
+  temp = 1 / pl;
+  const temp1 = 0.5 * J2 * temp;
+  const temp2 = temp1 * temp;
+
+  const mrt = rl * (1 - 1.5 * temp2 * betal * s.con41) + 0.5 * temp1 * s.x1mth2 * cos2u;
+  if (mrt < 1) return null;  // Below the surface: decayed
+  su = su - 0.25 * temp2 * s.x7thm1 * sin2u;
+  const xnode = nodem + 1.5 * temp2 * cosim * sin2u;
+  const xinc = s.inclo + 1.5 * temp2 * cosim * sinim * cos2u;
+
+  // Orientation vector
+  const sinsu = Math.sin(su);
+  const cossu = Math.cos(su);
+  const snod = Math.sin(xnode);
+  const cnod = Math.cos(xnode);
+  const sini = Math.sin(xinc);
+  const cosi = Math.cos(xinc);
+  const r = mrt * EARTH_RADIUS_KM;
+
+  return [
+    r * (-snod * cosi * sinsu + cnod * cossu),
+    r * (cnod * cosi * sinsu + snod * cossu),
+    r * sini * sinsu,
+  ];
+}
+
+/**
+ * Parse one element set (an optional name line, then lines 1 and 2)
+ */
+function parseTLE(name: string, line1: string, line2: string): SatelliteRecord | null {
+  const catalogNumber = field(line1, 3, 7);
+  if (catalogNumber === '' || catalogNumber !== field(line2, 3, 7)) return null;
+
+  const epochYear = Number(field(line1, 19, 20));
+  const epochDay = Number(field(line1, 21, 32));
+  const inclo = Number(field(line2, 9, 16)) * DEG_TO_RAD;
+  const nodeo = Number(field(line2, 18, 25)) * DEG_TO_RAD;
+  const ecco = Number(`0.${field(line2, 27, 33)}`);
+  const argpo = Number(field(line2, 35, 42)) * DEG_TO_RAD;
+  const mo = Number(field(line2, 44, 51)) * DEG_TO_RAD;
+  const revsPerDay = Number(field(line2, 53, 63));
+  if ([epochYear, epochDay, inclo, nodeo, ecco, argpo, mo, revsPerDay].some(isNaN) || revsPerDay <= 0) {
+    return null;
+  }
+
+  // Two-digit years 57-99 are 1957-1999
+  const year = epochYear < 57 ? 2000 + epochYear : 1900 + epochYear;
+  const yearStart = calendarToJD({ year, month: 1, day: 1, hour: 0, minute: 0, second: 0 }, 'gregorian');
+  const sgp4 = initSgp4(ecco, inclo, nodeo, argpo, mo, revsPerDay * TWO_PI / MINUTES_PER_DAY, exponentField(line1, 54, 61));
+
+  return {
+    id: catalogNumber,
+    name: name || catalogNumber,
+    epoch: yearStart + epochDay - 1,
+    period: TWO_PI / sgp4.noUnkozai,
+    sgp4,
+  };
+}
+
+/**
+ * Parse a TLE file in two-line or three-line (named) form
+ * Deep-space objects are left out; lines that don't parse are skipped.
+ */
+export function parseTLEFile(text: string): SatelliteRecord[] {
+  const lines = text.split(/\r?\n/).map(line => line.trimEnd());
+  const records: SatelliteRecord[] = [];
+  let deepSpace = 0;
+
+  for (let i = 0; i < lines.length - 1; i++) {
+    if (!lines[i].startsWith('1 ') || !lines[i + 1].startsWith('2 ')) continue;
+
+    // A name line, when present, precedes line 1 (some files prefix it with "0 ")
+    const previous = i > 0 ? lines[i - 1] : '';
+    const name = /^[12] /.test(previous) ? '' : previous.replace(/^0 /, '').trim();
+
+    const record = parseTLE(name, lines[i], lines[i + 1]);
+    if (record && record.period >= DEEP_SPACE_PERIOD) {
+      deepSpace++;
+    } else if (record) {
+      records.push(record);
+    }
+    i++;
+  }
+
+  if (deepSpace > 0) {
+    console.warn(`Skipped ${deepSpace} deep-space satellites (SDP4 is not supported)`);
+  }
+  if (records.length > MAX_SATELLITES) records.length = MAX_SATELLITES;
+
+  return records;
+}
+
+/**
+ * Observer's position in the Earth-fixed frame, in km
+ */
+function getObserverECEF(location: GeoLocation): Vec3 {
+  const lat = location.lat * DEG_TO_RAD;
+  const lon = location.lon * DEG_TO_RAD;
+  const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * Math.sin(lat) ** 2);
+  const h = location.elevation / 1000;
+  return [
+    (n + h) * Math.cos(lat) * Math.cos(lon),
+    (n + h) * Math.cos(lat) * Math.sin(lon),
+    (n * (1 - WGS84_E2) + h) * Math.sin(lat),
+  ];
+}
+
+/**
+ * Rotate a TEME vector into the Earth-fixed frame (polar motion ignored)
+ */
+function temeToECEF([x, y, z]: Vec3, jd: number): Vec3 {
+  const gmst = jdToGMST(jd) * 15 * DEG_TO_RAD;
+  const c = Math.cos(gmst);
+  const s = Math.sin(gmst);
+  return [c * x + s * y, -s * x + c * y, z];
+}
+
+/**
+ * Earth-fixed offset from the observer to the horizon frame (x = East, y = Up, z = North)
+ */
+function ecefToHorizon([dx, dy, dz]: Vec3, location: GeoLocation): Vec3 {
+  const lat = location.lat * DEG_TO_RAD;
+  const lon = location.lon * DEG_TO_RAD;
+  const sinLat = Math.sin(lat), cosLat = Math.cos(lat);
+  const sinLon = Math.sin(lon), cosLon = Math.cos(lon);
+  return [
+    -sinLon * dx + cosLon * dy,
+    cosLat * cosLon * dx + cosLat * sinLon * dy + sinLat * dz,
+    -sinLat * cosLon * dx - sinLat * sinLon * dy + cosLat * dz,
+  ];
+}
+
+/**
+ * Unit vector towards the Sun in the TEME frame (the equator of date is close enough)
+ */
+function getSunDirectionTEME(date: Date): Vec3 {
+  const sun = j2000ToApparent(getSunPosition(date), date);
+  const [x, y, z] = equatorialToCartesian(sun.ra, sun.dec);
+  return [x, z, y];  // Our cartesian frame has the pole along y
+}
+
+/**
+ * Whether a TEME position is outside the Earth's (cylindrical) shadow
+ */
+function isSunlit([x, y, z]: Vec3, sun: Vec3): boolean {
+  const along = x * sun[0] + y * sun[1] + z * sun[2];
+  if (along > 0) return true;
+  const px = x - along * sun[0];
+  const py = y - along * sun[1];
+  const pz = z - along * sun[2];
+  return px * px + py * py + pz * pz > EARTH_RADIUS_KM * EARTH_RADIUS_KM;
+}
+
+/**
+ * Topocentric horizon-frame vector (km) of a satellite at an instant
+ */
+function getHorizonVector(record: SatelliteRecord, jd: number, observer: Vec3, location: GeoLocation): {
+  teme: Vec3;
+  horizon: Vec3;
+} | null {
+  const teme = propagateSgp4(record.sgp4, (jd - record.epoch) * MINUTES_PER_DAY);
+  if (!teme) return null;
+  const [x, y, z] = temeToECEF(teme, jd);
+  return { teme, horizon: ecefToHorizon([x - observer[0], y - observer[1], z - observer[2]], location) };
+}
+
+function horizonToAltAz([e, u, n]: Vec3): { alt: number; az: number; range: number } {
+  const range = Math.sqrt(e * e + u * u + n * n);
+  let az = Math.atan2(e, n) * RAD_TO_DEG;
+  if (az < 0) az += 360;
+  return { alt: Math.asin(u / range) * RAD_TO_DEG, az, range };
+}
+
+/**
+ * Compute satellite positions for a location and time
+ * Trails are only filled in when asked for, as they cost a propagation per point.
+ */
+export function getSatellites(
+  records: SatelliteRecord[],
+  date: Date,
+  location: GeoLocation,
+  withTrails: boolean = false
+): Satellite[] {
+  if (records.length === 0) return [];
+
+  const jd = dateToJD(date);
+  const observer = getObserverECEF(location);
+  const sun = getSunDirectionTEME(date);
+  const satellites: Satellite[] = [];
+
+  for (const record of records) {
+    const position = getHorizonVector(record, jd, observer, location);
+    if (!position) continue;
+
+    const { alt, az, range } = horizonToAltAz(position.horizon);
+    const [tx, ty, tz] = position.teme;
+
+    const trail: Vec3[] = [];
+    if (withTrails && alt > 0) {
+      for (let i = TRAIL_POINTS; i >= 1; i--) {
+        const past = getHorizonVector(record, jd - i * TRAIL_DURATION / TRAIL_POINTS / 86400, observer, location);
+        if (past) trail.push(past.horizon);
+      }
+    }
+
+    satellites.push({
+      id: `sat:${record.id}`,
+      name: record.name,
+      catalogNumber: record.id,
+      alt,
+      az,
+      range,
+      height: Math.sqrt(tx * tx + ty * ty + tz * tz) - EARTH_RADIUS_KM,
+      sunlit: isSunlit(position.teme, sun),
+      trail,
+      record,
+    });
+  }
+
+  return satellites;
+}
+
+/**
+ * Altitude, azimuth and illumination of one satellite at an instant
+ */
+function getPassPoint(record: SatelliteRecord, date: Date, location: GeoLocation): PassPoint | null {
+  const position = getHorizonVector(record, dateToJD(date), getObserverECEF(location), location);
+  if (!position) return null;
+  const { alt, az } = horizonToAltAz(position.horizon);
+  return { date, alt, az, sunlit: isSunlit(position.teme, getSunDirectionTEME(date)) };
+}
+
+/**
+ * Passes above PASS_MIN_ALTITUDE starting within `hours` of a time
+ * Start, culmination and end are refined to the second.
+ */
+export function getSatellitePasses(
+  record: SatelliteRecord,
+  location: GeoLocation,
+  from: Date,
+  hours: number = 24,
+  maxPasses: number = 5
+): SatellitePass[] {
+  const observer = getObserverECEF(location);
+  const startJD = dateToJD(from);
+  const step = PASS_SEARCH_STEP / 86400;
+
+  const altitudeAt = (jd: number): number => {
+    const position = getHorizonVector(record, jd, observer, location);
+    return position ? horizonToAltAz(position.horizon).alt : -90;
+  };
+
+  const aboveMinimum = (jd: number): number => altitudeAt(jd) - PASS_MIN_ALTITUDE;
+
+  const toPoint = (jd: number): PassPoint | null => getPassPoint(record, jdToDate(jd), location);
+
+  const passes: SatellitePass[] = [];
+  const endJD = startJD + hours / 24;
+  let previous = altitudeAt(startJD);
+  // A pass in progress is reported from the requested time
+  let rise: number | null = previous >= PASS_MIN_ALTITUDE ? startJD : null;
+
+  for (let jd = startJD + step; jd <= endJD + step && passes.length < maxPasses; jd += step) {
+    const altitude = altitudeAt(jd);
+    if (rise === null && previous < PASS_MIN_ALTITUDE && altitude >= PASS_MIN_ALTITUDE) {
+      if (jd - step > endJD) break;
+      rise = findRoot(aboveMinimum, jd - step, jd);
+    } else if (rise !== null && previous >= PASS_MIN_ALTITUDE && altitude < PASS_MIN_ALTITUDE) {
+      const set = findRoot(aboveMinimum, jd - step, jd);
+      const start = toPoint(rise);
+      const max = toPoint(findMaximum(altitudeAt, rise, set));
+      const end = toPoint(set);
+      if (start && max && end) {
+        const points = [start, max, end];
+        const darkSky = (point: PassPoint) => {
+          const sun = j2000ToApparent(getSunPosition(point.date), point.date);
+          return equatorialToHorizontal(sun, location, point.date).alt < PASS_MAX_SUN_ALTITUDE;
+        };
+        passes.push({ start, max, end, visible: points.some(point => point.sunlit && darkSky(point)) });
+      }
+      rise = null;
+    }
+    previous = altitude;
+  }
+
+  return passes;
+}
@@ -0,0 +1,345 @@
+/**
+ * Sky events - conjunctions, oppositions, greatest elongations and lunar occultations
+ *
+ * The Moon, the planets and the brighter stars are sampled on a fixed grid
+ * over the search range; every minimum or crossing found there is refined
+ * with the event search in events.ts. Conjunctions are geocentric, as in the
+ * almanacs; occultations are worked out for the observer's location.
+ */
+
+import {
+  AU_KM,
+  cartesianToEquatorial,
+  equatorialToCartesian,
+  equatorialToHorizontal,
+  getEpochYears,
+  getMoonPosition,
+  getPlanetPosition,
+  getSunPosition,
+  getTopocentricPosition,
+  j2000ToApparent,
+  type EquatorialCoords,
+  type GeoLocation,
+  type PlanetId,
+  type SolarSystemPosition,
+  type Vec3,
+} from './astronomy';
+import { findCrossings, findMaximum, findMinimum, findRoot, onJD } from './events';
+import { getStarPositionAt, type Star } from './starLoader';
+import { dateToJD, jdToDate } from './time';
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+const MOON_RADIUS_KM = 1737.4;
+const OBLIQUITY_J2000 = 23.4392911 * DEG_TO_RAD;
+
+// Grid the bodies are sampled on, in days; the Moon moves under 2° per step
+const SAMPLE_STEP = 1 / 8;
+
+// Closest approaches reported, in degrees
+const MOON_CONJUNCTION_LIMIT = 3;
+const CONJUNCTION_LIMIT = 2;
+
+// Geocentric separation within which the topocentric Moon can cover a star
+// (semidiameter plus horizontal parallax, at their largest)
+const OCCULTATION_REACH = 0.3 + 1.03;
+
+// How far apart the Moon and a star can be at a grid point near an approach
+const MOON_SAMPLE_MARGIN = 1;
+
+const PLANET_NAMES: Record<PlanetId, string> = {
+  mercury: 'Mercury',
+  venus: 'Venus',
+  mars: 'Mars',
+  jupiter: 'Jupiter',
+  saturn: 'Saturn',
+  uranus: 'Uranus',
+  neptune: 'Neptune',
+};
+
+const PLANETS = Object.keys(PLANET_NAMES) as PlanetId[];
+const INNER_PLANETS: PlanetId[] = ['mercury', 'venus'];
+const OUTER_PLANETS: PlanetId[] = ['mars', 'jupiter', 'saturn', 'uranus', 'neptune'];
+
+export interface SkyEventOptions {
+  starMagnitude: number;         // Stars brighter than this are checked for conjunctions
+  occultationMagnitude: number;  // And for occultations by the Moon
+}
+
+export const DEFAULT_SKY_EVENT_OPTIONS: SkyEventOptions = { starMagnitude: 1.5, occultationMagnitude: 4.5 };
+
+export interface Conjunction {
+  kind: 'conjunction';
+  date: Date;
+  first: string;               // The faster-moving body
+  second: string;
+  separation: number;          // Closest approach in degrees
+  position: EquatorialCoords;  // J2000 point between the two
+}
+
+export interface Opposition {
+  kind: 'opposition';
+  date: Date;
+  body: string;
+  distance: number;            // AU
+  position: EquatorialCoords;
+}
+
+export interface GreatestElongation {
+  kind: 'elongation';
+  date: Date;
+  body: string;
+  elongation: number;          // Degrees from the Sun
+  evening: boolean;            // East of the Sun
+  position: EquatorialCoords;
+}
+
+export interface OccultationContact {
+  date: Date;
+  altitude: number;            // Moon's altitude in degrees
+}
+
+export interface Occultation {
+  kind: 'occultation';
+  date: Date;                  // Mid-occultation
+  body: string;
+  mag?: number;                // Stars only
+  disappearance: OccultationContact;
+  reappearance: OccultationContact;
+  sunAltitude: number;         // At mid-occultation
+  position: EquatorialCoords;  // J2000 topocentric position of the Moon
+}
+
+export type SkyEvent = Conjunction | Opposition | GreatestElongation | Occultation;
+
+// A body followed through time: positions on the sample grid, and on demand
+interface Track {
+  name: string;
+  mag?: number;
+  samples: Vec3[];
+  at: (date: Date) => Vec3;
+}
+
+function toVector(position: EquatorialCoords): Vec3 {
+  return equatorialToCartesian(position.ra, position.dec);
+}
+
+function angleBetween(a: Vec3, b: Vec3): number {
+  const dot = a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+  return Math.acos(Math.max(-1, Math.min(1, dot))) * RAD_TO_DEG;
+}
+
+function midpoint(a: Vec3, b: Vec3): EquatorialCoords {
+  return cartesianToEquatorial(a[0] + b[0], a[1] + b[1], a[2] + b[2]);
+}
+
+// Ecliptic longitude (J2000) in radians; differences match those of date
+function eclipticLongitude([x, y, z]: Vec3): number {
+  return Math.atan2(z * Math.cos(OBLIQUITY_J2000) + y * Math.sin(OBLIQUITY_J2000), x);
+}
+
+function altitudeOf(position: EquatorialCoords, location: GeoLocation, date: Date): number {
+  return equatorialToHorizontal(j2000ToApparent(position, date), location, date).alt;
+}
+
+/**
+ * Refined minima of the separation between two tracks, where the sampled
+ * separation dips below a limit
+ */
+function findApproaches(a: Track, b: Track, times: number[], limit: number): number[] {
+  const separation = onJD(date => angleBetween(a.at(date), b.at(date)));
+  const approaches: number[] = [];
+
+  let previous = angleBetween(a.samples[0], b.samples[0]);
+  let current = angleBetween(a.samples[1], b.samples[1]);
+  for (let i = 1; i < times.length - 1; i++) {
+    const next = angleBetween(a.samples[i + 1], b.samples[i + 1]);
+    if (current <= previous && current < next && current < limit) {
+      approaches.push(findMinimum(separation, times[i - 1], times[i + 1]));
+    }
+    previous = current;
+    current = next;
+  }
+
+  return approaches;
+}
+
+function findConjunctions(a: Track, b: Track, times: number[], limit: number, margin: number): Conjunction[] {
+  return findApproaches(a, b, times, limit + margin).flatMap(jd => {
+    const date = jdToDate(jd);
+    const first = a.at(date);
+    const second = b.at(date);
+    const separation = angleBetween(first, second);
+    if (separation >= limit) return [];
+    return [{
+      kind: 'conjunction' as const,
+      date,
+      first: a.name,
+      second: b.name,
+      separation,
+      position: midpoint(first, second),
+    }];
+  });
+}
+
+/**
+ * Occultation of a star or planet by the Moon as seen from the location,
+ * near a geocentric close approach
+ */
+function findOccultation(target: Track, approachJD: number, location: GeoLocation): Occultation | null {
+  const moonAt = (date: Date) => getTopocentricPosition(getMoonPosition(date), location, date);
+  const moonRadius = (moon: SolarSystemPosition) => Math.asin(MOON_RADIUS_KM / (moon.distance * AU_KM)) * RAD_TO_DEG;
+
+  // Distance of the target inside the Moon's limb (negative while hidden)
+  const clearance = onJD(date => {
+    const moon = moonAt(date);
+    return angleBetween(toVector(moon), target.at(date)) - moonRadius(moon);
+  });
+
+  // The Moon moves its own diameter in an hour; parallax shifts the approach by a few
+  const window = 0.25;
+  const midJD = findMinimum(clearance, approachJD - window, approachJD + window);
+  if (clearance(midJD) >= 0) return null;
+
+  const contact = (jd: number): OccultationContact => {
+    const date = jdToDate(jd);
+    return { date, altitude: altitudeOf(moonAt(date), location, date) };
+  };
+  const disappearance = contact(findRoot(clearance, midJD - window, midJD));
+  const reappearance = contact(findRoot(clearance, midJD, midJD + window));
+  if (disappearance.altitude < 0 && reappearance.altitude < 0) return null;
+
+  const date = jdToDate(midJD);
+  const moon = moonAt(date);
+  return {
+    kind: 'occultation',
+    date,
+    body: target.name,
+    mag: target.mag,
+    disappearance,
+    reappearance,
+    sunAltitude: altitudeOf(getSunPosition(date), location, date),
+    position: { ra: moon.ra, dec: moon.dec },
+  };
+}
+
+function starName(star: Star): string {
+  return star.proper || star.bayer || star.designation || `HYG ${star.id}`;
+}
+
+/**
+ * Conjunctions, oppositions, greatest elongations and lunar occultations
+ * between two dates, in order
+ */
+export function findSkyEvents(
+  start: Date,
+  end: Date,
+  location: GeoLocation,
+  stars: Star[],
+  options: SkyEventOptions = DEFAULT_SKY_EVENT_OPTIONS
+): SkyEvent[] {
+  const startJD = dateToJD(start);
+  const endJD = dateToJD(end);
+  if (endJD <= startJD) return [];
+  const times: number[] = [];
+  for (let jd = startJD; jd < endJD + SAMPLE_STEP; jd += SAMPLE_STEP) times.push(jd);
+  const dates = times.map(jdToDate);
+
+  const track = (name: string, at: (date: Date) => Vec3): Track => ({ name, samples: dates.map(at), at });
+
+  const sun = track('Sun', date => toVector(getSunPosition(date)));
+  const moon = track('Moon', date => toVector(getMoonPosition(date)));
+  const planets = new Map(PLANETS.map(id =>
+    [id, track(PLANET_NAMES[id], date => toVector(getPlanetPosition(id, date)))]
+  ));
+
+  // Stars barely move over the range, so they keep one position
+  const epoch = getEpochYears(start);
+  const starTrack = (star: Star): Track => {
+    const position = getStarPositionAt(star, epoch);
+    return { name: starName(star), mag: star.mag, samples: dates.map(() => position), at: () => position };
+  };
+  const brightest = Math.max(options.starMagnitude, options.occultationMagnitude);
+  const starTracks = stars
+    .filter(star => star.mag <= brightest)
+    .map(star => ({ star, track: starTrack(star) }));
+
+  const events: SkyEvent[] = [];
+
+  // Conjunctions between the Moon and planets, and among the planets
+  const movers = [moon, ...planets.values()];
+  for (let i = 0; i < movers.length; i++) {
+    for (let j = i + 1; j < movers.length; j++) {
+      const limit = i === 0 ? MOON_CONJUNCTION_LIMIT : CONJUNCTION_LIMIT;
+      const margin = i === 0 ? MOON_SAMPLE_MARGIN : 0;
+      events.push(...findConjunctions(movers[i], movers[j], times, limit, margin));
+    }
+  }
+
+  // ... and with bright stars
+  for (const { star, track: target } of starTracks) {
+    if (star.mag > options.starMagnitude) continue;
+    events.push(...findConjunctions(moon, target, times, MOON_CONJUNCTION_LIMIT, MOON_SAMPLE_MARGIN));
+    for (const planet of planets.values()) {
+      events.push(...findConjunctions(planet, target, times, CONJUNCTION_LIMIT, 0));
+    }
+  }
+
+  // Lunar occultations of stars and planets
+  const occultable = [
+    ...starTracks.filter(({ star }) => star.mag <= options.occultationMagnitude).map(({ track: target }) => target),
+    ...planets.values(),
+  ];
+  for (const target of occultable) {
+    for (const jd of findApproaches(moon, target, times, OCCULTATION_REACH + MOON_SAMPLE_MARGIN)) {
+      const occultation = findOccultation(target, jd, location);
+      if (occultation) events.push(occultation);
+    }
+  }
+
+  // Oppositions, where the outer planets are 180° from the Sun in longitude
+  for (const id of OUTER_PLANETS) {
+    const planet = planets.get(id)!;
+    const offset = onJD(date => Math.sin(eclipticLongitude(planet.at(date)) - eclipticLongitude(sun.at(date))));
+    for (const { jd } of findCrossings(offset, startJD, endJD, 1)) {
+      const date = jdToDate(jd);
+      const position = getPlanetPosition(id, date);
+      const cosOffset = Math.cos(eclipticLongitude(toVector(position)) - eclipticLongitude(sun.at(date)));
+      if (cosOffset > 0) continue;  // Conjunction with the Sun
+      events.push({
+        kind: 'opposition',
+        date,
+        body: planet.name,
+        distance: position.distance,
+        position: { ra: position.ra, dec: position.dec },
+      });
+    }
+  }
+
+  // Greatest elongations of Mercury and Venus
+  for (const id of INNER_PLANETS) {
+    const planet = planets.get(id)!;
+    const elongation = onJD(date => angleBetween(planet.at(date), sun.at(date)));
+    const sampled = planet.samples.map((position, i) => angleBetween(position, sun.samples[i]));
+    for (let i = 1; i < times.length - 1; i++) {
+      if (!(sampled[i] >= sampled[i - 1] && sampled[i] > sampled[i + 1])) continue;
+      const jd = findMaximum(elongation, times[i - 1], times[i + 1]);
+      const date = jdToDate(jd);
+      const position = planet.at(date);
+      const offset = Math.sin(eclipticLongitude(position) - eclipticLongitude(sun.at(date)));
+      events.push({
+        kind: 'elongation',
+        date,
+        body: planet.name,
+        elongation: elongation(jd),
+        evening: offset > 0,
+        position: cartesianToEquatorial(...position),
+      });
+    }
+  }
+
+  return events
+    .filter(event => event.date >= start && event.date < end)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
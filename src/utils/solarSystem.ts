@@ -0,0 +1,244 @@
+/**
+ * Solar system bodies - positions and display properties for the current sky
+ */
+
+import {
+  AU_KM,
+  cartesianToHorizontal,
+  equatorialToCartesian,
+  getCelestialRotationMatrix,
+  getEarthHeliocentricPosition,
+  getElongation,
+  getIlluminatedFraction,
+  getMoonAge,
+  getMoonPosition,
+  getObserverPosition,
+  getPhaseAngle,
+  getPlanetPosition,
+  getSunPosition,
+  getTopocentricPosition,
+  type GeoLocation,
+  type PlanetId,
+  type SolarSystemPosition,
+} from './astronomy';
+import { getMinorBodyMagnitude, getMinorBodyPosition, type MinorBodyOrbit } from './minorBodies';
+
+// Solar radius as seen from 1 AU, in degrees
+const SUN_SEMIDIAMETER_1AU = 959.63 / 3600;
+
+const MOON_RADIUS_KM = 1737.4;
+
+const ASTEROID_COLOR: [number, number, number] = [0.85, 0.82, 0.75];
+const COMET_COLOR: [number, number, number] = [0.7, 0.95, 0.85];
+
+interface PlanetInfo {
+  id: PlanetId;
+  name: string;
+  diameter: number;  // Equatorial diameter seen from 1 AU, in arcseconds
+  color: [number, number, number];
+}
+
+const PLANETS: PlanetInfo[] = [
+  { id: 'mercury', name: 'Mercury', diameter: 6.74, color: [0.85, 0.8, 0.75] },
+  { id: 'venus', name: 'Venus', diameter: 16.92, color: [1.0, 0.97, 0.85] },
+  { id: 'mars', name: 'Mars', diameter: 9.36, color: [1.0, 0.6, 0.4] },
+  { id: 'jupiter', name: 'Jupiter', diameter: 196.74, color: [1.0, 0.92, 0.8] },
+  { id: 'saturn', name: 'Saturn', diameter: 165.46, color: [1.0, 0.9, 0.7] },
+  { id: 'uranus', name: 'Uranus', diameter: 70.04, color: [0.7, 0.9, 0.95] },
+  { id: 'neptune', name: 'Neptune', diameter: 67.0, color: [0.55, 0.7, 1.0] },
+];
+
+// North pole of Saturn's ring plane (J2000), for the ring contribution to its brightness
+const SATURN_POLE = { ra: 40.589 / 15, dec: 83.537 };
+
+export interface SolarSystemBody {
+  id: string;
+  type: 'sun' | 'moon' | 'planet' | 'asteroid' | 'comet';
+  name: string;
+  ra: number;              // J2000 Right Ascension in hours
+  dec: number;             // J2000 Declination in degrees
+  x: number;               // Cartesian position on celestial sphere (J2000)
+  y: number;
+  z: number;
+  alt: number;             // Apparent (unrefracted) altitude in degrees
+  az: number;              // Azimuth in degrees
+  distance: number;        // Distance from Earth in AU
+  angularDiameter: number; // Apparent diameter in degrees
+  mag: number;             // Apparent magnitude
+  color: [number, number, number];
+  phaseAngle?: number;     // Sun-body-observer angle in degrees (bodies shining by reflected light)
+  illumination?: number;   // Illuminated fraction of the disk (0-1)
+  elongation?: number;     // Angular distance from the Sun in degrees
+  age?: number;            // Days since new Moon (Moon only)
+  orbit?: MinorBodyOrbit;  // Orbital elements (comets and asteroids only)
+}
+
+/**
+ * Distinguish solar system bodies from catalog stars in mixed selections
+ */
+export function isSolarSystemBody(object: object): object is SolarSystemBody {
+  return 'angularDiameter' in object;
+}
+
+/**
+ * Visual magnitude of a planet (Astronomical Almanac formulae, Meeus chapter 41)
+ * r and delta are the distances from the Sun and Earth in AU, i the phase angle
+ */
+function getPlanetMagnitude(
+  id: PlanetId,
+  r: number,
+  delta: number,
+  i: number,
+  position: { ra: number; dec: number }
+): number {
+  const distanceTerm = 5 * Math.log10(r * delta);
+  switch (id) {
+    case 'mercury':
+      return -0.42 + distanceTerm + 0.0380 * i - 0.000273 * i * i + 0.000002 * i * i * i;
+    case 'venus':
+      return -4.40 + distanceTerm + 0.0009 * i + 0.000239 * i * i - 0.00000065 * i * i * i;
+    case 'mars':
+      return -1.52 + distanceTerm + 0.016 * i;
+    case 'jupiter':
+      return -9.40 + distanceTerm + 0.005 * i;
+    case 'saturn': {
+      // The rings brighten Saturn as they open towards us
+      const [px, py, pz] = equatorialToCartesian(SATURN_POLE.ra, SATURN_POLE.dec);
+      const [sx, sy, sz] = equatorialToCartesian(position.ra, position.dec);
+      const sinB = Math.abs(px * sx + py * sy + pz * sz);
+      return -8.88 + distanceTerm - 2.60 * sinB + 1.25 * sinB * sinB;
+    }
+    case 'uranus':
+      return -7.19 + distanceTerm;
+    case 'neptune':
+      return -6.87 + distanceTerm;
+  }
+}
+
+/**
+ * Fill in the fields shared by every body from its J2000 position, in place on
+ * a freshly built body, with the celestial rotation of the moment (apparent
+ * place and horizon, built once for all bodies)
+ */
+function placeBody(
+  body: Omit<SolarSystemBody, 'x' | 'y' | 'z' | 'alt' | 'az'>,
+  m: Float32Array
+): SolarSystemBody {
+  const [x, y, z] = equatorialToCartesian(body.ra, body.dec);
+  
+  // The translation column carries aberration
+  const { alt, az } = cartesianToHorizontal([
+    m[0] * x + m[4] * y + m[8] * z + m[12],
+    m[1] * x + m[5] * y + m[9] * z + m[13],
+    m[2] * x + m[6] * y + m[10] * z + m[14],
+  ]);
+  return Object.assign(body, { x, y, z, alt, az });
+}
+
+/**
+ * Topocentric J2000 position of a single body, for following it through time
+ * (e.g. rise and set). Cheaper than getSolarSystemBodies.
+ */
+export function getBodyPosition(body: SolarSystemBody, date: Date, location: GeoLocation): SolarSystemPosition {
+  if (body.orbit) return getTopocentricPosition(getMinorBodyPosition(body.orbit, date), location, date);
+  if (body.type === 'sun') return getSunPosition(date);
+  if (body.type === 'moon') return getTopocentricPosition(getMoonPosition(date), location, date);
+  return getTopocentricPosition(getPlanetPosition(body.id as PlanetId, date), location, date);
+}
+
+/**
+ * Compute comets and asteroids from their orbits for a location and time
+ * Drawn as points, so their angular diameter is zero.
+ */
+export function getMinorBodies(orbits: MinorBodyOrbit[], date: Date, location: GeoLocation): SolarSystemBody[] {
+  if (orbits.length === 0) return [];
+  const sun = getSunPosition(date);
+  const earth = getEarthHeliocentricPosition(date);
+  const observer = getObserverPosition(location, date);
+  const rotation = getCelestialRotationMatrix(location, date);
+  
+  return orbits.map(orbit => {
+    const geocentric = getMinorBodyPosition(orbit, date, earth);
+    const position = getTopocentricPosition(geocentric, location, date, observer);
+    const phaseAngle = getPhaseAngle(position, sun);
+    
+    return placeBody({
+      id: `${orbit.type}:${orbit.id}`,
+      type: orbit.type,
+      name: orbit.name,
+      ra: position.ra,
+      dec: position.dec,
+      distance: position.distance,
+      angularDiameter: 0,
+      mag: getMinorBodyMagnitude(orbit, geocentric.heliocentricDistance, position.distance, phaseAngle),
+      color: orbit.type === 'comet' ? COMET_COLOR : ASTEROID_COLOR,
+      phaseAngle,
+      elongation: getElongation(position, sun),
+      orbit,
+    }, rotation);
+  });
+}
+
+/**
+ * Compute all rendered solar system bodies for a location and time
+ */
+export function getSolarSystemBodies(date: Date, location: GeoLocation): SolarSystemBody[] {
+  const sun = getSunPosition(date);
+  const rotation = getCelestialRotationMatrix(location, date);
+  
+  // The Moon is close enough for the observer's position on Earth to matter
+  const moon = getTopocentricPosition(getMoonPosition(date), location, date);
+  const moonPhase = getPhaseAngle(moon, sun);
+
+  const planets = PLANETS.map(planet => {
+    const geocentric = getPlanetPosition(planet.id, date);
+    const position = getTopocentricPosition(geocentric, location, date);
+    const phaseAngle = getPhaseAngle(position, sun);
+    
+    return placeBody({
+      id: planet.id,
+      type: 'planet',
+      name: planet.name,
+      ra: position.ra,
+      dec: position.dec,
+      distance: position.distance,
+      angularDiameter: planet.diameter / position.distance / 3600,
+      mag: getPlanetMagnitude(planet.id, geocentric.heliocentricDistance, position.distance, phaseAngle, position),
+      color: planet.color,
+      phaseAngle,
+      illumination: getIlluminatedFraction(phaseAngle),
+      elongation: getElongation(position, sun),
+    }, rotation);
+  });
+
+  return [
+    placeBody({
+      id: 'sun',
+      type: 'sun',
+      name: 'Sun',
+      ra: sun.ra,
+      dec: sun.dec,
+      distance: sun.distance,
+      angularDiameter: 2 * SUN_SEMIDIAMETER_1AU / sun.distance,
+      mag: -26.74,
+      color: [1.0, 0.95, 0.8],
+    }, rotation),
+    placeBody({
+      id: 'moon',
+      type: 'moon',
+      name: 'Moon',
+      ra: moon.ra,
+      dec: moon.dec,
+      distance: moon.distance,
+      angularDiameter: 2 * Math.asin(MOON_RADIUS_KM / (moon.distance * AU_KM)) * 180 / Math.PI,
+      // Full Moon magnitude plus the phase law of Allen's Astrophysical Quantities
+      mag: -12.73 + 0.026 * moonPhase + 4e-9 * Math.pow(moonPhase, 4),
+      color: [0.9, 0.9, 0.85],
+      phaseAngle: moonPhase,
+      illumination: getIlluminatedFraction(moonPhase),
+      elongation: getElongation(moon, sun),
+      age: getMoonAge(date),
+    }, rotation),
+    ...planets,
+  ];
+}
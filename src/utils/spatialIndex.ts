@@ -0,0 +1,141 @@
+/**
+ * Spatial index over directions on the unit sphere - a k-d tree on the
+ * cartesian unit vectors, for cone searches and nearest-neighbour queries
+ *
+ * The tree is implicit: `order` holds point indices arranged so the median
+ * of each range [lo, hi) sits at its middle, splitting on x, y and z in turn
+ * by depth. Angular distances become chord lengths, 2 sin(θ/2), which
+ * compare the same way and need no trigonometry per point.
+ */
+
+import type { Vec3 } from './astronomy';
+
+export interface SphereIndex {
+  positions: Float32Array;  // Interleaved [x, y, z, ...] unit vectors
+  order: Uint32Array;       // Point indices in tree order
+  count: number;
+}
+
+// Chord length between two directions separated by an angle in degrees
+function angleToChord(angle: number): number {
+  return 2 * Math.sin(Math.min(angle, 180) * Math.PI / 360);
+}
+
+// Partially sort order[lo, hi) so order[k] holds the point with the k-th
+// smallest coordinate on the axis, smaller ones before it and larger after
+function selectMedian(positions: Float32Array, order: Uint32Array, lo: number, hi: number, k: number, axis: number) {
+  let left = lo;
+  let right = hi - 1;
+  while (left < right) {
+    const pivot = positions[order[k] * 3 + axis];
+    let i = left;
+    let j = right;
+    while (i <= j) {
+      while (positions[order[i] * 3 + axis] < pivot) i++;
+      while (positions[order[j] * 3 + axis] > pivot) j--;
+      if (i <= j) {
+        const swap = order[i];
+        order[i] = order[j];
+        order[j] = swap;
+        i++;
+        j--;
+      }
+    }
+    if (j < k) left = i;
+    if (k < i) right = j;
+  }
+}
+
+/**
+ * Build the index over interleaved unit vectors
+ */
+export function buildSphereIndex(positions: Float32Array): SphereIndex {
+  const count = Math.floor(positions.length / 3);
+  const order = new Uint32Array(count);
+  for (let i = 0; i < count; i++) order[i] = i;
+
+  const build = (lo: number, hi: number, depth: number) => {
+    if (hi - lo < 2) return;
+    const mid = (lo + hi) >> 1;
+    selectMedian(positions, order, lo, hi, mid, depth % 3);
+    build(lo, mid, depth + 1);
+    build(mid + 1, hi, depth + 1);
+  };
+  build(0, count, 0);
+
+  return { positions, order, count };
+}
+
+/**
+ * Indices of the points within an angle (degrees) of a unit vector
+ */
+export function searchCone(index: SphereIndex, direction: Vec3, radius: number): number[] {
+  const { positions, order } = index;
+  const chord = angleToChord(radius);
+  const chordSq = chord * chord;
+  const found: number[] = [];
+
+  const search = (lo: number, hi: number, depth: number) => {
+    if (lo >= hi) return;
+    const mid = (lo + hi) >> 1;
+    const point = order[mid];
+    const dx = positions[point * 3] - direction[0];
+    const dy = positions[point * 3 + 1] - direction[1];
+    const dz = positions[point * 3 + 2] - direction[2];
+    if (dx * dx + dy * dy + dz * dz <= chordSq) found.push(point);
+
+    // Always look on the side of the split holding the centre, and across
+    // it only when the cone reaches over
+    const axis = depth % 3;
+    const offset = direction[axis] - positions[point * 3 + axis];
+    if (offset < 0) {
+      search(lo, mid, depth + 1);
+      if (offset * offset <= chordSq) search(mid + 1, hi, depth + 1);
+    } else {
+      search(mid + 1, hi, depth + 1);
+      if (offset * offset <= chordSq) search(lo, mid, depth + 1);
+    }
+  };
+  search(0, index.count, 0);
+
+  return found;
+}
+
+/**
+ * Index of the point closest to a unit vector, optionally only among those
+ * accepted by a filter and within maxRadius (degrees); null if none
+ */
+export function findNearest(
+  index: SphereIndex,
+  direction: Vec3,
+  maxRadius: number = 180,
+  accept?: (point: number) => boolean
+): number | null {
+  const { positions, order } = index;
+  const limit = angleToChord(maxRadius);
+  let bestSq = limit * limit;
+  let best: number | null = null;
+
+  const search = (lo: number, hi: number, depth: number) => {
+    if (lo >= hi) return;
+    const mid = (lo + hi) >> 1;
+    const point = order[mid];
+    const dx = positions[point * 3] - direction[0];
+    const dy = positions[point * 3 + 1] - direction[1];
+    const dz = positions[point * 3 + 2] - direction[2];
+    const distSq = dx * dx + dy * dy + dz * dz;
+    if (distSq <= bestSq && (!accept || accept(point))) {
+      bestSq = distSq;
+      best = point;
+    }
+
+    const axis = depth % 3;
+    const offset = direction[axis] - positions[point * 3 + axis];
+    const [near, far] = offset < 0 ? [[lo, mid], [mid + 1, hi]] : [[mid + 1, hi], [lo, mid]];
+    search(near[0], near[1], depth + 1);
+    if (offset * offset <= bestSq) search(far[0], far[1], depth + 1);
+  };
+  search(0, index.count, 0);
+
+  return best;
+}
@@ -0,0 +1,501 @@
+/**
+ * Star catalog columns, parsed from a catalog CSV (HYG or another one read
+ * through catalogAdapters) or read from the packed binary form built by
+ * scripts/build-star-catalog.ts
+ *
+ * Binary layout (little-endian):
+ *   Header, 24 bytes: magic "HYGB", version (uint16), reserved (uint16),
+ *     star count (uint32), string table length in bytes (uint32),
+ *     designation table length in bytes (uint32), magnitude band (4 bytes
+ *     of ASCII, NUL-padded)
+ *   Columns, one value per star, in this order:
+ *     ra, dec               Float64
+ *     id, hip, hd, hr       Uint32 (catalog numbers 0 = none)
+ *     proper, bayer, con, spect, gl, var   Uint32 index into the string table (0 = none)
+ *     mag, ci, pmra, pmdec, rv, dist, absmag, lum, varMin, varMax   Float32
+ *     flam                  Uint16 (0 = none)
+ *   String table: UTF-8 strings separated by NUL, the first one empty
+ *   Designation table: one UTF-8 string per star separated by NUL, empty
+ *     for stars known by their HYG ID
+ *
+ * Columns are ordered by element size after a 24-byte header, so each one
+ * starts aligned and is read as a typed array view without copying (typed
+ * arrays use the platform's byte order, little-endian wherever browsers run).
+ */
+
+// With the extension, as Node needs it to run the catalog build script
+import { detectCatalogAdapter, type StarCatalogAdapter } from './catalogAdapters.ts';
+
+// Faint ends of the magnitude tiers the catalog is split into, brightest
+// first; each tier is its own binary file so bright stars arrive first
+export const MAGNITUDE_TIERS = [4, 6, 8, Infinity];
+
+const MAGIC = 'HYGB';
+const VERSION = 5;
+const HEADER_BYTES = 24;
+
+export interface StarColumns {
+  count: number;
+  band: string;          // Magnitude band, "V" for HYG
+  id: Uint32Array;
+  ra: Float64Array;      // Hours
+  dec: Float64Array;     // Degrees
+  mag: Float32Array;
+  ci: Float32Array;      // B-V, 0 when unknown
+  pmra: Float32Array;    // mas/yr
+  pmdec: Float32Array;   // mas/yr
+  rv: Float32Array;      // km/s
+  dist: Float32Array;    // Parsecs, 0 when unknown
+  absmag: Float32Array;  // Absolute magnitude, NaN when unknown
+  lum: Float32Array;     // Luminosity in solar units, 0 when unknown
+  varMin: Float32Array;  // Variable star magnitude range as catalogued,
+  varMax: Float32Array;  // NaN when not known to vary
+  hip: Uint32Array;      // Hipparcos, Henry Draper and Yale Bright Star
+  hd: Uint32Array;       // numbers, 0 for none
+  hr: Uint32Array;
+  flam: Uint16Array;     // Flamsteed number, 0 for none
+  proper: Uint32Array;   // Indices into strings, 0 for none; custom catalogs
+  bayer: Uint32Array;    // can name every star, so the indices are 32-bit
+  constellation: Uint32Array;
+  spect: Uint32Array;    // Spectral type, e.g. "A1V"
+  gl: Uint32Array;       // Gliese catalog ID, e.g. "Gl 559A"
+  variable: Uint32Array; // Variable star designation, e.g. "Omi Cet"
+  designation: string[]; // Per star, e.g. "HR 15"; '' for stars known by HYG ID
+  strings: string[];     // strings[0] is ''
+}
+
+/**
+ * Split one CSV line into fields (handles quoted fields)
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      values.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+  return values;
+}
+
+// Commas, or tabs or semicolons when the header has more of those (VizieR exports)
+function detectDelimiter(header: string): string {
+  const count = (delimiter: string) => header.split(delimiter).length;
+  return ['\t', ';'].find(delimiter => count(delimiter) > count(',')) ?? ',';
+}
+
+export interface CatalogParser {
+  push(chunk: string): void;   // Next piece of the file; lines may span pieces
+  finish(): StarColumns;
+  readonly count: number;      // Stars kept so far
+  readonly adapter: StarCatalogAdapter | null;  // Once the header is read
+}
+
+/**
+ * Incremental star catalog CSV parser, keeping stars with a position and a
+ * magnitude no fainter than maxMagnitude, in file order. The adapter is
+ * picked from the header unless given.
+ */
+export function createCatalogParser(
+  adapter: StarCatalogAdapter | null = null,
+  maxMagnitude: number = Infinity
+): CatalogParser {
+  let columnIndex: Map<string, number> | null = null;
+  let delimiter = ',';
+  let pending = '';
+  let lineNumber = 0;
+
+  const numbers = {
+    id: [] as number[],
+    ra: [] as number[],
+    dec: [] as number[],
+    mag: [] as number[],
+    ci: [] as number[],
+    pmra: [] as number[],
+    pmdec: [] as number[],
+    rv: [] as number[],
+    dist: [] as number[],
+    absmag: [] as number[],
+    lum: [] as number[],
+    varMin: [] as number[],
+    varMax: [] as number[],
+    hip: [] as number[],
+    hd: [] as number[],
+    hr: [] as number[],
+    flam: [] as number[],
+    proper: [] as number[],
+    bayer: [] as number[],
+    constellation: [] as number[],
+    spect: [] as number[],
+    gl: [] as number[],
+    variable: [] as number[],
+  };
+  const designation: string[] = [];
+
+  const strings = [''];
+  const stringIndex = new Map<string, number>([['', 0]]);
+  const intern = (value: string | undefined): number => {
+    if (!value) return 0;
+    let index = stringIndex.get(value);
+    if (index === undefined) {
+      index = strings.length;
+      strings.push(value);
+      stringIndex.set(value, index);
+    }
+    return index;
+  };
+
+  let values: string[] = [];
+  const field = (column: string): string => {
+    const index = columnIndex?.get(column);
+    return index === undefined ? '' : (values[index] ?? '').trim();
+  };
+
+  const parseLine = (rawLine: string) => {
+    const line = rawLine.trim();
+    if (!columnIndex) {
+      // Comment lines may come before the header
+      if (!line || line.startsWith('#')) return;
+
+      delimiter = detectDelimiter(line);
+      const header = splitCsvLine(line, delimiter).map(h => h.trim());
+      adapter ??= detectCatalogAdapter(header);
+      if (!adapter) throw new Error(`Unrecognised star catalog columns: ${header.slice(0, 8).join(', ')}`);
+
+      columnIndex = new Map(header.map((name, index) => [name.toLowerCase(), index]));
+      return;
+    }
+
+    lineNumber++;
+    if (!line || line.startsWith('#')) return;
+
+    values = splitCsvLine(line, delimiter);
+    const star = adapter?.readStar(field);
+
+    // Skip invalid or too dim stars (and VizieR's unit and dash lines)
+    if (!star || isNaN(star.ra) || isNaN(star.dec) || isNaN(star.mag)) return;
+    if (star.mag > maxMagnitude) return;
+
+    // Absolute magnitude from the distance when the catalog doesn't give one
+    const absmag = star.absmag ?? (star.dist ? star.mag - 5 * Math.log10(star.dist / 10) : NaN);
+
+    const id = star.id || lineNumber;
+
+    numbers.id.push(id);
+    numbers.ra.push(star.ra);
+    numbers.dec.push(star.dec);
+    numbers.mag.push(star.mag);
+    numbers.ci.push(star.ci ?? 0);
+    numbers.pmra.push(star.pmra ?? 0);
+    numbers.pmdec.push(star.pmdec ?? 0);
+    numbers.rv.push(star.rv ?? 0);
+    numbers.dist.push(star.dist ?? 0);
+    numbers.absmag.push(absmag);
+    numbers.lum.push(star.lum ?? 0);
+    numbers.varMin.push(star.varMin ?? NaN);
+    numbers.varMax.push(star.varMax ?? NaN);
+    numbers.hip.push(star.hip ?? 0);
+    numbers.hd.push(star.hd ?? 0);
+    numbers.hr.push(star.hr ?? 0);
+    numbers.flam.push(star.flam ?? 0);
+    numbers.proper.push(intern(star.proper));
+    numbers.bayer.push(intern(star.bayer));
+    numbers.constellation.push(intern(star.constellation));
+    numbers.spect.push(intern(star.spect));
+    numbers.gl.push(intern(star.gl));
+    numbers.variable.push(intern(star.variable));
+    designation.push(star.designation || (adapter?.idScheme ? `${adapter.idScheme} ${id}` : ''));
+  };
+
+  return {
+    push(chunk: string) {
+      const lines = (pending + chunk).split('\n');
+      pending = lines.pop() ?? '';
+      lines.forEach(parseLine);
+    },
+
+    finish(): StarColumns {
+      parseLine(pending);
+      pending = '';
+      if (!adapter) throw new Error('Star catalog is empty');
+      return {
+        count: numbers.ra.length,
+        band: adapter.band,
+        id: Uint32Array.from(numbers.id),
+        ra: Float64Array.from(numbers.ra),
+        dec: Float64Array.from(numbers.dec),
+        mag: Float32Array.from(numbers.mag),
+        ci: Float32Array.from(numbers.ci),
+        pmra: Float32Array.from(numbers.pmra),
+        pmdec: Float32Array.from(numbers.pmdec),
+        rv: Float32Array.from(numbers.rv),
+        dist: Float32Array.from(numbers.dist),
+        absmag: Float32Array.from(numbers.absmag),
+        lum: Float32Array.from(numbers.lum),
+        varMin: Float32Array.from(numbers.varMin),
+        varMax: Float32Array.from(numbers.varMax),
+        hip: Uint32Array.from(numbers.hip),
+        hd: Uint32Array.from(numbers.hd),
+        hr: Uint32Array.from(numbers.hr),
+        flam: Uint16Array.from(numbers.flam),
+        proper: Uint32Array.from(numbers.proper),
+        bayer: Uint32Array.from(numbers.bayer),
+        constellation: Uint32Array.from(numbers.constellation),
+        spect: Uint32Array.from(numbers.spect),
+        gl: Uint32Array.from(numbers.gl),
+        variable: Uint32Array.from(numbers.variable),
+        designation,
+        strings,
+      };
+    },
+
+    get count() {
+      return numbers.ra.length;
+    },
+
+    get adapter() {
+      return adapter;
+    },
+  };
+}
+
+/**
+ * Parse a whole star catalog CSV (see createCatalogParser)
+ */
+export function parseCatalogCsv(
+  text: string,
+  adapter: StarCatalogAdapter | null = null,
+  maxMagnitude: number = Infinity
+): StarColumns {
+  const parser = createCatalogParser(adapter, maxMagnitude);
+  parser.push(text);
+  return parser.finish();
+}
+
+/**
+ * The stars of a catalog brighter than or equal to faintLimit but fainter
+ * than brightLimit, with a string table of their own names
+ */
+export function selectMagnitudeRange(columns: StarColumns, brightLimit: number, faintLimit: number): StarColumns {
+  const indices: number[] = [];
+  for (let i = 0; i < columns.count; i++) {
+    if (columns.mag[i] > brightLimit && columns.mag[i] <= faintLimit) indices.push(i);
+  }
+
+  const strings = [''];
+  const stringIndex = new Map<string, number>([['', 0]]);
+  const reindex = (index: number): number => {
+    const value = columns.strings[index];
+    let next = stringIndex.get(value);
+    if (next === undefined) {
+      next = strings.length;
+      strings.push(value);
+      stringIndex.set(value, next);
+    }
+    return next;
+  };
+
+  return {
+    count: indices.length,
+    band: columns.band,
+    id: Uint32Array.from(indices, i => columns.id[i]),
+    ra: Float64Array.from(indices, i => columns.ra[i]),
+    dec: Float64Array.from(indices, i => columns.dec[i]),
+    mag: Float32Array.from(indices, i => columns.mag[i]),
+    ci: Float32Array.from(indices, i => columns.ci[i]),
+    pmra: Float32Array.from(indices, i => columns.pmra[i]),
+    pmdec: Float32Array.from(indices, i => columns.pmdec[i]),
+    rv: Float32Array.from(indices, i => columns.rv[i]),
+    dist: Float32Array.from(indices, i => columns.dist[i]),
+    absmag: Float32Array.from(indices, i => columns.absmag[i]),
+    lum: Float32Array.from(indices, i => columns.lum[i]),
+    varMin: Float32Array.from(indices, i => columns.varMin[i]),
+    varMax: Float32Array.from(indices, i => columns.varMax[i]),
+    hip: Uint32Array.from(indices, i => columns.hip[i]),
+    hd: Uint32Array.from(indices, i => columns.hd[i]),
+    hr: Uint32Array.from(indices, i => columns.hr[i]),
+    flam: Uint16Array.from(indices, i => columns.flam[i]),
+    proper: Uint32Array.from(indices, i => reindex(columns.proper[i])),
+    bayer: Uint32Array.from(indices, i => reindex(columns.bayer[i])),
+    constellation: Uint32Array.from(indices, i => reindex(columns.constellation[i])),
+    spect: Uint32Array.from(indices, i => reindex(columns.spect[i])),
+    gl: Uint32Array.from(indices, i => reindex(columns.gl[i])),
+    variable: Uint32Array.from(indices, i => reindex(columns.variable[i])),
+    designation: indices.map(i => columns.designation[i]),
+    strings,
+  };
+}
+
+/**
+ * Stars of one magnitude tier (an index into MAGNITUDE_TIERS)
+ */
+export function selectMagnitudeTier(columns: StarColumns, tier: number): StarColumns {
+  return selectMagnitudeRange(columns, tier === 0 ? -Infinity : MAGNITUDE_TIERS[tier - 1], MAGNITUDE_TIERS[tier]);
+}
+
+// Bytes used by each column group for a star count, in file order
+function columnLayout(count: number) {
+  const float64 = count * 8;
+  const uint32 = count * 4;
+  const float32 = count * 4;
+  const uint16 = count * 2;
+
+  let offset = HEADER_BYTES;
+  const at = (bytes: number) => {
+    const start = offset;
+    offset += bytes;
+    return start;
+  };
+
+  return {
+    ra: at(float64),
+    dec: at(float64),
+    id: at(uint32),
+    hip: at(uint32),
+    hd: at(uint32),
+    hr: at(uint32),
+    proper: at(uint32),
+    bayer: at(uint32),
+    constellation: at(uint32),
+    spect: at(uint32),
+    gl: at(uint32),
+    variable: at(uint32),
+    mag: at(float32),
+    ci: at(float32),
+    pmra: at(float32),
+    pmdec: at(float32),
+    rv: at(float32),
+    dist: at(float32),
+    absmag: at(float32),
+    lum: at(float32),
+    varMin: at(float32),
+    varMax: at(float32),
+    flam: at(uint16),
+    end: offset,
+  };
+}
+
+/**
+ * Pack catalog columns into the binary format
+ */
+export function encodeStarCatalog(columns: StarColumns): ArrayBuffer {
+  const { count } = columns;
+  const encoder = new TextEncoder();
+  const stringBytes = encoder.encode(columns.strings.join('\0'));
+  const designationBytes = encoder.encode(columns.designation.join('\0'));
+  const layout = columnLayout(count);
+  const buffer = new ArrayBuffer(layout.end + stringBytes.length + designationBytes.length);
+
+  const header = new DataView(buffer);
+  for (let i = 0; i < MAGIC.length; i++) header.setUint8(i, MAGIC.charCodeAt(i));
+  header.setUint16(4, VERSION, true);
+  header.setUint32(8, count, true);
+  header.setUint32(12, stringBytes.length, true);
+  header.setUint32(16, designationBytes.length, true);
+  for (let i = 0; i < Math.min(columns.band.length, 4); i++) header.setUint8(20 + i, columns.band.charCodeAt(i));
+
+  new Float64Array(buffer, layout.ra, count).set(columns.ra);
+  new Float64Array(buffer, layout.dec, count).set(columns.dec);
+  new Uint32Array(buffer, layout.id, count).set(columns.id);
+  new Uint32Array(buffer, layout.hip, count).set(columns.hip);
+  new Uint32Array(buffer, layout.hd, count).set(columns.hd);
+  new Uint32Array(buffer, layout.hr, count).set(columns.hr);
+  new Float32Array(buffer, layout.mag, count).set(columns.mag);
+  new Float32Array(buffer, layout.ci, count).set(columns.ci);
+  new Float32Array(buffer, layout.pmra, count).set(columns.pmra);
+  new Float32Array(buffer, layout.pmdec, count).set(columns.pmdec);
+  new Float32Array(buffer, layout.rv, count).set(columns.rv);
+  new Float32Array(buffer, layout.dist, count).set(columns.dist);
+  new Float32Array(buffer, layout.absmag, count).set(columns.absmag);
+  new Float32Array(buffer, layout.lum, count).set(columns.lum);
+  new Float32Array(buffer, layout.varMin, count).set(columns.varMin);
+  new Float32Array(buffer, layout.varMax, count).set(columns.varMax);
+  new Uint32Array(buffer, layout.proper, count).set(columns.proper);
+  new Uint32Array(buffer, layout.bayer, count).set(columns.bayer);
+  new Uint32Array(buffer, layout.constellation, count).set(columns.constellation);
+  new Uint32Array(buffer, layout.spect, count).set(columns.spect);
+  new Uint32Array(buffer, layout.gl, count).set(columns.gl);
+  new Uint32Array(buffer, layout.variable, count).set(columns.variable);
+  new Uint16Array(buffer, layout.flam, count).set(columns.flam);
+  new Uint8Array(buffer, layout.end).set(stringBytes);
+  new Uint8Array(buffer, layout.end + stringBytes.length).set(designationBytes);
+
+  return buffer;
+}
+
+/**
+ * True when a buffer starts with the binary catalog's magic number
+ * (a missing file can come back as an HTML page with status 200)
+ */
+export function isStarCatalog(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < HEADER_BYTES) return false;
+  const bytes = new Uint8Array(buffer, 0, MAGIC.length);
+  return String.fromCharCode(...bytes) === MAGIC;
+}
+
+/**
+ * Read catalog columns from the binary format. The numeric columns are
+ * views into the buffer.
+ */
+export function decodeStarCatalog(buffer: ArrayBuffer): StarColumns {
+  if (!isStarCatalog(buffer)) throw new Error('Not a binary star catalog');
+
+  const header = new DataView(buffer);
+  const version = header.getUint16(4, true);
+  if (version !== VERSION) {
+    throw new Error(`Unsupported star catalog version ${version}; rebuild it with npm run build:catalog`);
+  }
+
+  const count = header.getUint32(8, true);
+  const stringLength = header.getUint32(12, true);
+  const designationLength = header.getUint32(16, true);
+  const layout = columnLayout(count);
+  if (layout.end + stringLength + designationLength > buffer.byteLength) {
+    throw new Error('Star catalog is truncated');
+  }
+
+  const decoder = new TextDecoder();
+  const strings = decoder.decode(new Uint8Array(buffer, layout.end, stringLength)).split('\0');
+  const designation = count === 0
+    ? []
+    : decoder.decode(new Uint8Array(buffer, layout.end + stringLength, designationLength)).split('\0');
+  const band = String.fromCharCode(...new Uint8Array(buffer, 20, 4)).replace(/\0+$/, '');
+
+  return {
+    count,
+    band,
+    id: new Uint32Array(buffer, layout.id, count),
+    ra: new Float64Array(buffer, layout.ra, count),
+    dec: new Float64Array(buffer, layout.dec, count),
+    mag: new Float32Array(buffer, layout.mag, count),
+    ci: new Float32Array(buffer, layout.ci, count),
+    pmra: new Float32Array(buffer, layout.pmra, count),
+    pmdec: new Float32Array(buffer, layout.pmdec, count),
+    rv: new Float32Array(buffer, layout.rv, count),
+    dist: new Float32Array(buffer, layout.dist, count),
+    absmag: new Float32Array(buffer, layout.absmag, count),
+    lum: new Float32Array(buffer, layout.lum, count),
+    varMin: new Float32Array(buffer, layout.varMin, count),
+    varMax: new Float32Array(buffer, layout.varMax, count),
+    hip: new Uint32Array(buffer, layout.hip, count),
+    hd: new Uint32Array(buffer, layout.hd, count),
+    hr: new Uint32Array(buffer, layout.hr, count),
+    flam: new Uint16Array(buffer, layout.flam, count),
+    proper: new Uint32Array(buffer, layout.proper, count),
+    bayer: new Uint32Array(buffer, layout.bayer, count),
+    constellation: new Uint32Array(buffer, layout.constellation, count),
+    spect: new Uint32Array(buffer, layout.spect, count),
+    gl: new Uint32Array(buffer, layout.gl, count),
+    variable: new Uint32Array(buffer, layout.variable, count),
+    designation,
+    strings,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Star colours from blackbody spectra
+ *
+ * B-V gives an effective temperature (Ballesteros 2012); the Planck spectrum
+ * at that temperature is integrated against the CIE 1931 colour-matching
+ * functions and converted to sRGB. The colours are as saturated as the
+ * spectra make them - pale, as the eye sees stars - and the renderer can
+ * boost or mute them with a saturation factor.
+ */
+
+export type RGB = [number, number, number];
+
+// Saturation factors offered; 1 is the blackbody colour itself
+export const MIN_STAR_SATURATION = 0;
+export const MAX_STAR_SATURATION = 3;
+export const DEFAULT_STAR_SATURATION = 1;
+
+// B-V range the temperature relation is used over
+const MIN_COLOR_INDEX = -0.4;
+const MAX_COLOR_INDEX = 2.0;
+
+// Second radiation constant, nm K
+const PLANCK_C2 = 1.4387769e7;
+
+// Rec. 709 luma weights, as the shader uses
+const LUMA: RGB = [0.2126, 0.7152, 0.0722];
+
+/**
+ * Effective temperature in kelvin for a B-V colour index
+ * (Ballesteros 2012, treating the star as a blackbody)
+ */
+export function colorIndexToTemperature(ci: number): number {
+  const bv = Math.max(MIN_COLOR_INDEX, Math.min(MAX_COLOR_INDEX, ci));
+  return 4600 * (1 / (0.92 * bv + 1.7) + 1 / (0.92 * bv + 0.62));
+}
+
+// Piecewise Gaussian lobe of the colour-matching function fit
+function lobe(wavelength: number, mean: number, sigmaBelow: number, sigmaAbove: number): number {
+  const t = (wavelength - mean) / (wavelength < mean ? sigmaBelow : sigmaAbove);
+  return Math.exp(-0.5 * t * t);
+}
+
+// CIE 1931 2° colour-matching functions, multi-lobe fit of Wyman, Sloan and
+// Shirley (2013)
+function colorMatching(wavelength: number): RGB {
+  return [
+    1.056 * lobe(wavelength, 599.8, 37.9, 31.0) +
+      0.362 * lobe(wavelength, 442.0, 16.0, 26.7) -
+      0.065 * lobe(wavelength, 501.1, 20.4, 26.2),
+    0.821 * lobe(wavelength, 568.8, 46.9, 40.5) +
+      0.286 * lobe(wavelength, 530.9, 16.3, 31.1),
+    1.217 * lobe(wavelength, 437.0, 11.8, 36.0) +
+      0.681 * lobe(wavelength, 459.0, 26.0, 13.8),
+  ];
+}
+
+// sRGB transfer function
+function encodeSRGB(linear: number): number {
+  return linear <= 0.0031308 ? 12.92 * linear : 1.055 * Math.pow(linear, 1 / 2.4) - 0.055;
+}
+
+/**
+ * sRGB colour (0-1, brightest channel 1) of a blackbody at a temperature in kelvin
+ */
+export function temperatureToRGB(temperature: number): RGB {
+  let X = 0, Y = 0, Z = 0;
+  for (let wavelength = 380; wavelength <= 780; wavelength += 5) {
+    // Planck's law up to a constant factor, which the normalisation removes
+    const radiance = 1 / (Math.pow(wavelength, 5) * (Math.exp(PLANCK_C2 / (wavelength * temperature)) - 1));
+    const [x, y, z] = colorMatching(wavelength);
+    X += radiance * x;
+    Y += radiance * y;
+    Z += radiance * z;
+  }
+
+  // XYZ to linear sRGB (D65 white); the coolest stars fall just outside the gamut
+  const linear = [
+    3.2406 * X - 1.5372 * Y - 0.4986 * Z,
+    -0.9689 * X + 1.8758 * Y + 0.0415 * Z,
+    0.0557 * X - 0.2040 * Y + 1.0570 * Z,
+  ].map(c => Math.max(0, c));
+
+  const max = Math.max(...linear);
+  return linear.map(c => encodeSRGB(c / max)) as RGB;
+}
+
+// Colours tabulated every 0.01 in B-V; the spectra are too slow to integrate
+// for every star of a full catalog
+const TABLE_STEP = 0.01;
+let colorTable: RGB[] | null = null;
+
+/**
+ * sRGB colour of a star from its B-V colour index
+ */
+export function colorIndexToRGB(ci: number): RGB {
+  colorTable ??= Array.from(
+    { length: Math.round((MAX_COLOR_INDEX - MIN_COLOR_INDEX) / TABLE_STEP) + 1 },
+    (_, i) => temperatureToRGB(colorIndexToTemperature(MIN_COLOR_INDEX + i * TABLE_STEP))
+  );
+
+  const position = (Math.max(MIN_COLOR_INDEX, Math.min(MAX_COLOR_INDEX, ci)) - MIN_COLOR_INDEX) / TABLE_STEP;
+  const i = Math.min(Math.floor(position), colorTable.length - 2);
+  const t = position - i;
+  const [a, b] = [colorTable[i], colorTable[i + 1]];
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+}
+
+/**
+ * Push a colour away from (factor > 1) or towards (factor < 1) the grey of
+ * the same luma; the shader does the same to every star
+ */
+export function saturateColor(color: RGB, factor: number): RGB {
+  const luma = color[0] * LUMA[0] + color[1] * LUMA[1] + color[2] * LUMA[2];
+  return color.map(c => Math.max(0, Math.min(1, luma + (c - luma) * factor))) as RGB;
+}
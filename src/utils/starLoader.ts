@@ -1,8 +1,22 @@
 /**
- * Star data loader - parses HYG database CSV
+ * Star data loader - HYG database, from the packed binary tiers or the CSV
  */
 
-import { equatorialToCartesian } from './astronomy';
+import { applyProperMotion, equatorialToCartesian, getProperMotionVector, type Vec3 } from './astronomy';
+import {
+  MAGNITUDE_TIERS,
+  createCatalogParser,
+  decodeStarCatalog,
+  isStarCatalog,
+  selectMagnitudeTier,
+  type StarColumns,
+} from './starCatalog';
+import { colorIndexToRGB } from './starColors';
+import { buildSphereIndex, findNearest, searchCone, type SphereIndex } from './spatialIndex';
+import type { StarWorkerRequest, StarWorkerResponse } from '../workers/starLoader.worker';
+
+// HYG uses this distance (parsecs) for stars without a usable parallax
+const HYG_UNKNOWN_DISTANCE = 100000;
 
 export interface Star {
   id: number;
@@ -13,158 +27,102 @@ export interface Star {
   x: number;         // Cartesian X on celestial sphere
   y: number;         // Cartesian Y
   z: number;         // Cartesian Z
+  pmra: number;      // Proper motion in RA * cos(Dec), mas/yr
+  pmdec: number;     // Proper motion in Dec, mas/yr
+  rv: number;        // Radial velocity, km/s
+  vx: number;        // Change of cartesian position per Julian year
+  vy: number;
+  vz: number;
   proper?: string;   // Proper name (e.g., "Sirius")
   bayer?: string;    // Bayer designation (e.g., "Alp CMa")
   constellation?: string;
+  dist?: number;     // Distance in parsecs
+  absmag?: number;   // Absolute magnitude
+  lum?: number;      // Luminosity in solar units
+  spect?: string;    // Spectral type (e.g., "A1V")
+  hip?: number;      // Hipparcos catalog number
+  hd?: number;       // Henry Draper catalog number
+  hr?: number;       // Yale Bright Star (Harvard Revised) number
+  gl?: string;       // Gliese catalog ID (e.g., "Gl 559A")
+  flam?: number;     // Flamsteed number
+  variable?: string; // Variable star designation (e.g., "Omi Cet")
+  varMin?: number;   // Catalogued magnitude range of a variable
+  varMax?: number;
+  designation?: string;  // Catalog name for stars from catalogs without HYG IDs
+  band?: string;     // Magnitude band when not Johnson V (e.g., "G" for Gaia)
 }
 
 export interface StarData {
   stars: Star[];
   positions: Float32Array;   // Interleaved [x, y, z, x, y, z, ...]
+  velocities: Float32Array;  // Interleaved [vx, vy, vz, ...] per Julian year
   magnitudes: Float32Array;  // Apparent magnitudes
   colors: Float32Array;      // RGB colors derived from B-V
   count: number;
 }
 
 /**
- * Convert B-V color index to RGB color
- * Based on approximation of black body radiation
- */
-function colorIndexToRGB(ci: number): [number, number, number] {
-  // Clamp color index to reasonable range
-  const bv = Math.max(-0.4, Math.min(2.0, ci));
-  
-  let r: number, g: number, b: number;
-  
-  // Temperature approximation from B-V
-  let t: number;
-  if (bv < 0) {
-    t = 10000 + bv * 10000;
-  } else {
-    t = 10000 / (bv + 1);
-  }
-  
-  // Approximate RGB from temperature
-  if (t >= 10000) {
-    // Hot blue-white stars
-    r = 0.7 + 0.3 * Math.min(1, (t - 10000) / 20000);
-    g = 0.8 + 0.2 * Math.min(1, (t - 10000) / 20000);
-    b = 1.0;
-  } else if (t >= 7500) {
-    // White stars
-    r = 1.0;
-    g = 1.0;
-    b = 1.0;
-  } else if (t >= 6000) {
-    // Yellow-white
-    r = 1.0;
-    g = 0.95;
-    b = 0.85;
-  } else if (t >= 5000) {
-    // Yellow (Sun-like)
-    r = 1.0;
-    g = 0.9;
-    b = 0.7;
-  } else if (t >= 3500) {
-    // Orange
-    r = 1.0;
-    g = 0.7;
-    b = 0.4;
-  } else {
-    // Red
-    r = 1.0;
-    g = 0.5;
-    b = 0.3;
-  }
-  
-  return [r, g, b];
-}
-
-/**
- * Load and parse the HYG star database
+ * Build stars and their GPU arrays from catalog columns, brightest first
  */
-export async function loadStarData(
-  url: string,
-  maxMagnitude: number = 8.0  // Limit to visible stars (mag < 8)
-): Promise<StarData> {
-  console.log('Loading star data from:', url);
-  const response = await fetch(url);
-  
-  if (!response.ok) {
-    throw new Error(`Failed to fetch star data: ${response.status} ${response.statusText}`);
-  }
-  
-  const text = await response.text();
-  console.log('Star data loaded, size:', text.length, 'bytes');
-  
-  const lines = text.split('\n');
-  console.log('Total lines:', lines.length);
-  
-  const header = lines[0].split(',').map(h => h.replace(/"/g, '').trim());
-  
-  // Find column indices
-  const cols = {
-    id: header.indexOf('id'),
-    ra: header.indexOf('ra'),
-    dec: header.indexOf('dec'),
-    mag: header.indexOf('mag'),
-    ci: header.indexOf('ci'),
-    proper: header.indexOf('proper'),
-    bayer: header.indexOf('bayer'),
-    con: header.indexOf('con'),
-  };
-  
-  console.log('Column indices:', cols);
-  console.log('Header sample:', header.slice(0, 10));
-  
+export function buildStarData(columns: StarColumns, maxMagnitude: number = Infinity): StarData {
   const stars: Star[] = [];
+  const name = (index: number) => columns.strings[index] || undefined;
+  const known = (value: number) => value || undefined;
+  const band = columns.band === 'V' ? undefined : columns.band;
   
-  // Parse each line
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    
-    // Parse CSV (handle quoted fields)
-    const values: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (const char of line) {
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        values.push(current);
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    values.push(current);
-    
-    const ra = parseFloat(values[cols.ra]);
-    const dec = parseFloat(values[cols.dec]);
-    const mag = parseFloat(values[cols.mag]);
-    const ci = parseFloat(values[cols.ci]) || 0;
-    
-    // Skip invalid or too dim stars
-    if (isNaN(ra) || isNaN(dec) || isNaN(mag)) continue;
+  for (let i = 0; i < columns.count; i++) {
+    const mag = columns.mag[i];
     if (mag > maxMagnitude) continue;
     
-    // Calculate cartesian position on celestial sphere
+    const ra = columns.ra[i];
+    const dec = columns.dec[i];
+    const pmra = columns.pmra[i];
+    const pmdec = columns.pmdec[i];
+    const rv = columns.rv[i];
+    const dist = columns.dist[i];
+    const absmag = columns.absmag[i];
+    const varMin = columns.varMin[i];
+    const varMax = columns.varMax[i];
+    
+    // Calculate cartesian position and space motion on celestial sphere
     const [x, y, z] = equatorialToCartesian(ra, dec);
+    const [vx, vy, vz] = getProperMotionVector(
+      ra, dec, pmra, pmdec, rv,
+      dist < HYG_UNKNOWN_DISTANCE ? dist : 0
+    );
     
     stars.push({
-      id: parseInt(values[cols.id]) || i,
+      id: columns.id[i],
       ra,
       dec,
       mag,
-      ci,
+      ci: columns.ci[i],
       x,
       y,
       z,
-      proper: values[cols.proper] || undefined,
-      bayer: values[cols.bayer] || undefined,
-      constellation: values[cols.con] || undefined,
+      pmra,
+      pmdec,
+      rv,
+      vx,
+      vy,
+      vz,
+      proper: name(columns.proper[i]),
+      bayer: name(columns.bayer[i]),
+      constellation: name(columns.constellation[i]),
+      dist: dist > 0 && dist < HYG_UNKNOWN_DISTANCE ? dist : undefined,
+      absmag: isNaN(absmag) ? undefined : absmag,
+      lum: known(columns.lum[i]),
+      spect: name(columns.spect[i]),
+      hip: known(columns.hip[i]),
+      hd: known(columns.hd[i]),
+      hr: known(columns.hr[i]),
+      gl: name(columns.gl[i]),
+      flam: known(columns.flam[i]),
+      variable: name(columns.variable[i]),
+      varMin: isNaN(varMin) ? undefined : varMin,
+      varMax: isNaN(varMax) ? undefined : varMax,
+      designation: columns.designation[i] || undefined,
+      band,
     });
   }
   
@@ -174,6 +132,7 @@ export async function loadStarData(
   // Create typed arrays for WebGL
   const count = stars.length;
   const positions = new Float32Array(count * 3);
+  const velocities = new Float32Array(count * 3);
   const magnitudes = new Float32Array(count);
   const colors = new Float32Array(count * 3);
   
@@ -184,6 +143,10 @@ export async function loadStarData(
     positions[i * 3 + 1] = star.y;
     positions[i * 3 + 2] = star.z;
     
+    velocities[i * 3] = star.vx;
+    velocities[i * 3 + 1] = star.vy;
+    velocities[i * 3 + 2] = star.vz;
+    
     magnitudes[i] = star.mag;
     
     const [r, g, b] = colorIndexToRGB(star.ci);
@@ -192,27 +155,332 @@ export async function loadStarData(
     colors[i * 3 + 2] = b;
   }
   
-  console.log(`Loaded ${count} stars (magnitude < ${maxMagnitude})`);
+  return { stars, positions, velocities, magnitudes, colors, count };
+}
+
+export interface StarLoadProgress {
+  bytesRead: number;
+  totalBytes: number | null;  // From Content-Length, when the server sends it
+  starsParsed: number;
+}
+
+/**
+ * Read a response body piece by piece as it arrives
+ */
+async function readBody(response: Response, onChunk: (chunk: Uint8Array) => void): Promise<void> {
+  if (!response.body) {
+    onChunk(new Uint8Array(await response.arrayBuffer()));
+    return;
+  }
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    onChunk(value);
+  }
+}
+
+function getContentLength(response: Response): number | null {
+  const length = parseInt(response.headers.get('Content-Length') ?? '');
+  return isNaN(length) ? null : length;
+}
+
+/**
+ * Fetch one packed binary catalog file; null when it is missing or not a
+ * catalog
+ */
+async function fetchBinaryCatalog(
+  url: string,
+  onProgress?: (progress: StarLoadProgress) => void
+): Promise<StarColumns | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    
+    const totalBytes = getContentLength(response);
+    const chunks: Uint8Array[] = [];
+    let bytesRead = 0;
+    await readBody(response, chunk => {
+      chunks.push(chunk);
+      bytesRead += chunk.length;
+      onProgress?.({ bytesRead, totalBytes, starsParsed: 0 });
+    });
+    
+    // One fresh buffer, so the column views start aligned
+    const bytes = new Uint8Array(bytesRead);
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    if (!isStarCatalog(bytes.buffer)) return null;
+    
+    console.log('Binary star catalog loaded:', url, bytesRead, 'bytes');
+    const columns = decodeStarCatalog(bytes.buffer);
+    onProgress?.({ bytesRead, totalBytes, starsParsed: columns.count });
+    return columns;
+  } catch (e) {
+    console.warn('Failed to load binary star catalog:', url, e);
+    return null;
+  }
+}
+
+/**
+ * Parse a catalog CSV as it arrives, with whichever adapter its header calls for
+ */
+async function readCsvCatalog(
+  response: Response,
+  totalBytes: number | null,
+  onProgress?: (progress: StarLoadProgress) => void
+): Promise<StarColumns> {
+  const parser = createCatalogParser();
+  const decoder = new TextDecoder();
+  let bytesRead = 0;
+  await readBody(response, chunk => {
+    parser.push(decoder.decode(chunk, { stream: true }));
+    bytesRead += chunk.length;
+    onProgress?.({ bytesRead, totalBytes, starsParsed: parser.count });
+  });
+  parser.push(decoder.decode());
+  
+  const columns = parser.finish();
+  console.log('Star data loaded:', parser.adapter?.name, bytesRead, 'bytes');
+  return columns;
+}
+
+/**
+ * Fetch a catalog CSV, parsing it as it downloads
+ */
+async function fetchCsvCatalog(
+  url: string,
+  onProgress?: (progress: StarLoadProgress) => void
+): Promise<StarColumns> {
+  console.log('Loading star data from:', url);
+  const response = await fetch(url);
+  
+  if (!response.ok) {
+    throw new Error(`Failed to fetch star data: ${response.status} ${response.statusText}`);
+  }
+  
+  return readCsvCatalog(response, getContentLength(response), onProgress);
+}
+
+/**
+ * Load the HYG star database one magnitude tier (MAGNITUDE_TIERS) at a time,
+ * brightest first, from the packed binary files next to the CSV
+ * (hyg.csv -> hyg-0.bin, hyg-1.bin, ...). Without them the whole CSV is
+ * parsed and handed over in the same tiers, as is a local catalog file.
+ */
+export async function loadStarTiers(
+  source: string | Blob,
+  onTier: (data: StarData, tier: number) => void,
+  onProgress?: (progress: StarLoadProgress) => void
+): Promise<void> {
+  if (typeof source !== 'string') {
+    const columns = await readCsvCatalog(new Response(source), source.size, onProgress);
+    MAGNITUDE_TIERS.forEach((_, tier) => onTier(buildStarData(selectMagnitudeTier(columns, tier)), tier));
+    return;
+  }
+  
+  const tierUrl = (tier: number) => source.replace(/\.csv$/, `-${tier}.bin`);
+  const first = tierUrl(0) !== source ? await fetchBinaryCatalog(tierUrl(0), onProgress) : null;
+  
+  if (first) {
+    onTier(buildStarData(first), 0);
+    for (let tier = 1; tier < MAGNITUDE_TIERS.length; tier++) {
+      const columns = await fetchBinaryCatalog(tierUrl(tier), onProgress);
+      if (!columns) {
+        console.warn(`Star catalog tier ${tier} is missing; fainter stars are not loaded`);
+        return;
+      }
+      onTier(buildStarData(columns), tier);
+    }
+    return;
+  }
   
-  return { stars, positions, magnitudes, colors, count };
+  const columns = await fetchCsvCatalog(source, onProgress);
+  MAGNITUDE_TIERS.forEach((_, tier) => onTier(buildStarData(selectMagnitudeTier(columns, tier)), tier));
 }
 
 /**
- * Find stars near a given direction
+ * Load the star database tier by tier in a worker so the page stays
+ * responsive. The typed arrays are transferred back rather than copied.
+ * Aborting the signal stops the worker and rejects with an AbortError.
+ */
+export function loadStarTiersInWorker(
+  source: string | Blob,
+  onTier: (data: StarData, tier: number) => void,
+  onProgress?: (progress: StarLoadProgress) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  if (typeof Worker === 'undefined') return loadStarTiers(source, onTier, onProgress);
+  
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/starLoader.worker.ts', import.meta.url), { type: 'module' });
+    
+    const abort = () => {
+      worker.terminate();
+      reject(new DOMException('Star loading cancelled', 'AbortError'));
+    };
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    signal?.addEventListener('abort', abort, { once: true });
+    
+    const finish = () => {
+      signal?.removeEventListener('abort', abort);
+      worker.terminate();
+    };
+    
+    worker.onmessage = (e: MessageEvent<StarWorkerResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'tier') {
+        onTier(message.data, message.tier);
+      } else if (message.type === 'done') {
+        finish();
+        resolve();
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = e => {
+      finish();
+      reject(new Error(e.message || 'Star loader worker failed'));
+    };
+    
+    const request: StarWorkerRequest = { source };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Stars of two magnitude-sorted sets, the second all fainter than the first
+ */
+export function appendStarData(data: StarData, fainter: StarData): StarData {
+  const concat = (a: Float32Array, b: Float32Array) => {
+    const result = new Float32Array(a.length + b.length);
+    result.set(a);
+    result.set(b, a.length);
+    return result;
+  };
+  
+  return {
+    stars: data.stars.concat(fainter.stars),
+    positions: concat(data.positions, fainter.positions),
+    velocities: concat(data.velocities, fainter.velocities),
+    magnitudes: concat(data.magnitudes, fainter.magnitudes),
+    colors: concat(data.colors, fainter.colors),
+    count: data.count + fainter.count,
+  };
+}
+
+/**
+ * Number of stars no fainter than a magnitude (stars are sorted brightest first)
+ */
+export function countStarsToMagnitude(data: StarData, magnitude: number): number {
+  let low = 0;
+  let high = data.count;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (data.magnitudes[mid] <= magnitude) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Direction to a star at an epoch given in Julian years from J2000 (unit vector, J2000 frame)
+ */
+export function getStarPositionAt(star: Star, epochYears: number): Vec3 {
+  return applyProperMotion([star.x, star.y, star.z], [star.vx, star.vy, star.vz], epochYears);
+}
+
+interface StarIndex {
+  tree: SphereIndex;
+  maxMotion: number;  // Fastest proper motion, degrees per Julian year
+}
+
+// Built on first query; a new StarData (another tier appended) gets its own
+const starIndexes = new WeakMap<StarData, StarIndex>();
+
+function getStarIndex(data: StarData): StarIndex {
+  let index = starIndexes.get(data);
+  if (!index) {
+    let maxSpeedSq = 0;
+    for (let i = 0; i < data.velocities.length; i += 3) {
+      const vx = data.velocities[i];
+      const vy = data.velocities[i + 1];
+      const vz = data.velocities[i + 2];
+      maxSpeedSq = Math.max(maxSpeedSq, vx * vx + vy * vy + vz * vz);
+    }
+    index = {
+      tree: buildSphereIndex(data.positions),
+      maxMotion: Math.sqrt(maxSpeedSq) * 180 / Math.PI,
+    };
+    starIndexes.set(data, index);
+  }
+  return index;
+}
+
+// Angle in degrees between two unit vectors
+function angleBetween(a: Vec3, b: Vec3): number {
+  const dot = a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+  return Math.acos(Math.max(-1, Math.min(1, dot))) * 180 / Math.PI;
+}
+
+/**
+ * Stars within a radius (degrees) of a J2000 direction, at an epoch in
+ * Julian years from J2000
  */
 export function findStarsNear(
-  stars: Star[],
-  x: number,
-  y: number,
-  z: number,
-  radius: number = 0.1
+  data: StarData,
+  direction: Vec3,
+  radius: number,
+  epochYears: number = 0
 ): Star[] {
-  const radiusSq = radius * radius;
+  const { tree, maxMotion } = getStarIndex(data);
   
-  return stars.filter(star => {
-    const dx = star.x - x;
-    const dy = star.y - y;
-    const dz = star.z - z;
-    return dx * dx + dy * dy + dz * dz < radiusSq;
-  });
+  // Stars are indexed where they were at J2000; widen the cone by the
+  // furthest any of them has moved since, then check each at the epoch
+  const margin = maxMotion * Math.abs(epochYears);
+  const candidates = searchCone(tree, direction, radius + margin).map(i => data.stars[i]);
+  if (margin === 0) return candidates;
+  
+  return candidates.filter(star => angleBetween(getStarPositionAt(star, epochYears), direction) <= radius);
+}
+
+/**
+ * Star closest to a J2000 direction at an epoch in Julian years from J2000,
+ * within maxRadius (degrees) and no fainter than a magnitude
+ */
+export function findNearestStar(
+  data: StarData,
+  direction: Vec3,
+  maxRadius: number = 180,
+  epochYears: number = 0,
+  maxMagnitude: number = Infinity
+): Star | null {
+  const { tree, maxMotion } = getStarIndex(data);
+  const margin = maxMotion * Math.abs(epochYears);
+  
+  if (margin === 0) {
+    const nearest = findNearest(tree, direction, maxRadius, i => data.magnitudes[i] <= maxMagnitude);
+    return nearest === null ? null : data.stars[nearest];
+  }
+  
+  let closest: Star | null = null;
+  let closestAngle = maxRadius;
+  for (const star of findStarsNear(data, direction, maxRadius, epochYears)) {
+    if (star.mag > maxMagnitude) continue;
+    const angle = angleBetween(getStarPositionAt(star, epochYears), direction);
+    if (angle <= closestAngle) {
+      closestAngle = angle;
+      closest = star;
+    }
+  }
+  return closest;
 }
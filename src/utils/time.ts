@@ -0,0 +1,264 @@
+/**
+ * Astronomical time model
+ *
+ * A JavaScript Date is used only as a count of milliseconds, taken to be UT.
+ * Calendar dates are converted through the Julian Day so historical dates use
+ * the Julian calendar and astronomical year numbering (year 0 = 1 BCE).
+ * Ephemerides run on Terrestrial Time: JDE = JD + Delta-T.
+ */
+
+const UNIX_EPOCH_JD = 2440587.5;
+const MS_PER_DAY = 86400000;
+const J2000 = 2451545.0;
+
+// First day of the Gregorian calendar, 1582 October 15
+const GREGORIAN_START_JD = 2299160.5;
+
+// Whole cycles used to bring negative Julian Days into range of the algorithms
+const GREGORIAN_CYCLE_DAYS = 146097;  // 400 years
+const JULIAN_CYCLE_DAYS = 1461;       // 4 years
+
+// First day of the Gregorian calendar as yyyymmdd; the ten days before it were dropped
+const GREGORIAN_START_DATE = 15821015;
+const GREGORIAN_SKIPPED_FROM = 15821005;
+
+const MONTH_DAYS = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// Range of instants a JavaScript Date can hold (about ±271,000 years from 1970)
+export const MIN_TIME = -8.64e15;
+export const MAX_TIME = 8.64e15;
+
+export type Calendar = 'gregorian' | 'julian';
+
+export interface CalendarDate {
+  year: number;    // Astronomical year (0 = 1 BCE, -1 = 2 BCE)
+  month: number;   // 1-12
+  day: number;     // 1-31
+  hour: number;
+  minute: number;
+  second: number;  // May carry a fraction
+}
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Julian Date (UT) of an instant, to the millisecond
+ */
+export function dateToJD(date: Date): number {
+  return date.getTime() / MS_PER_DAY + UNIX_EPOCH_JD;
+}
+
+/**
+ * Instant of a Julian Date (UT)
+ */
+export function jdToDate(jd: number): Date {
+  return new Date(Math.round((jd - UNIX_EPOCH_JD) * MS_PER_DAY));
+}
+
+/**
+ * Clamp a time in milliseconds to what a Date can represent
+ */
+export function clampTime(time: number): number {
+  return Math.max(MIN_TIME, Math.min(MAX_TIME, time));
+}
+
+/**
+ * Delta-T = TT - UT in seconds, for a decimal year
+ * Espenak & Meeus polynomials (NASA Five Millennium Canon), with the
+ * Morrison & Stephenson parabola outside -500..2150.
+ */
+export function getDeltaT(year: number): number {
+  const y = year;
+
+  if (y < -500 || y >= 2150) {
+    const u = (y - 1820) / 100;
+    return -20 + 32 * u * u;
+  }
+  if (y < 500) {
+    const u = y / 100;
+    return 10583.6 - 1014.41 * u + 33.78311 * u ** 2 - 5.952053 * u ** 3 -
+      0.1798452 * u ** 4 + 0.022174192 * u ** 5 + 0.0090316521 * u ** 6;
+  }
+  if (y < 1600) {
+    const u = (y - 1000) / 100;
+    return 1574.2 - 556.01 * u + 71.23472 * u ** 2 + 0.319781 * u ** 3 -
+      0.8503463 * u ** 4 - 0.005050998 * u ** 5 + 0.0083572073 * u ** 6;
+  }
+  if (y < 1700) {
+    const t = y - 1600;
+    return 120 - 0.9808 * t - 0.01532 * t ** 2 + t ** 3 / 7129;
+  }
+  if (y < 1800) {
+    const t = y - 1700;
+    return 8.83 + 0.1603 * t - 0.0059285 * t ** 2 + 0.00013336 * t ** 3 - t ** 4 / 1174000;
+  }
+  if (y < 1860) {
+    const t = y - 1800;
+    return 13.72 - 0.332447 * t + 0.0068612 * t ** 2 + 0.0041116 * t ** 3 - 0.00037436 * t ** 4 +
+      0.0000121272 * t ** 5 - 0.0000001699 * t ** 6 + 0.000000000875 * t ** 7;
+  }
+  if (y < 1900) {
+    const t = y - 1860;
+    return 7.62 + 0.5737 * t - 0.251754 * t ** 2 + 0.01680668 * t ** 3 -
+      0.0004473624 * t ** 4 + t ** 5 / 233174;
+  }
+  if (y < 1920) {
+    const t = y - 1900;
+    return -2.79 + 1.494119 * t - 0.0598939 * t ** 2 + 0.0061966 * t ** 3 - 0.000197 * t ** 4;
+  }
+  if (y < 1941) {
+    const t = y - 1920;
+    return 21.20 + 0.84493 * t - 0.076100 * t ** 2 + 0.0020936 * t ** 3;
+  }
+  if (y < 1961) {
+    const t = y - 1950;
+    return 29.07 + 0.407 * t - t ** 2 / 233 + t ** 3 / 2547;
+  }
+  if (y < 1986) {
+    const t = y - 1975;
+    return 45.45 + 1.067 * t - t ** 2 / 260 - t ** 3 / 718;
+  }
+  if (y < 2005) {
+    const t = y - 2000;
+    return 63.86 + 0.3345 * t - 0.060374 * t ** 2 + 0.0017275 * t ** 3 +
+      0.000651814 * t ** 4 + 0.00002373599 * t ** 5;
+  }
+  if (y < 2050) {
+    const t = y - 2000;
+    return 62.92 + 0.32217 * t + 0.005589 * t ** 2;
+  }
+  const u = (y - 1820) / 100;
+  return -20 + 32 * u * u - 0.5628 * (2150 - y);
+}
+
+/**
+ * Delta-T in seconds at an instant
+ */
+export function getDeltaTAt(date: Date): number {
+  return getDeltaT(2000 + (dateToJD(date) - J2000) / 365.25);
+}
+
+/**
+ * Julian Ephemeris Day (TT) of an instant, for ephemerides and precession
+ */
+export function dateToJDE(date: Date): number {
+  return dateToJD(date) + getDeltaTAt(date) / 86400;
+}
+
+/**
+ * Calendar in civil use on a Julian Day: Julian before 1582 October 15
+ */
+export function getCalendar(jd: number): Calendar {
+  return jd < GREGORIAN_START_JD ? 'julian' : 'gregorian';
+}
+
+/**
+ * Julian Day of a calendar date (Meeus chapter 7)
+ * Without an explicit calendar, dates before 1582 October 15 are Julian.
+ */
+export function calendarToJD(date: CalendarDate, calendar?: Calendar): number {
+  let y = date.year;
+  let m = date.month;
+  if (m <= 2) {
+    y -= 1;
+    m += 12;
+  }
+
+  const gregorian = calendar
+    ? calendar === 'gregorian'
+    : date.year * 10000 + date.month * 100 + date.day >= GREGORIAN_START_DATE;
+  const A = Math.floor(y / 100);
+  const B = gregorian ? 2 - A + Math.floor(A / 4) : 0;
+
+  return Math.floor(365.25 * (y + 4716)) +
+    Math.floor(30.6001 * (m + 1)) +
+    date.day + B - 1524.5 +
+    (date.hour + date.minute / 60 + date.second / 3600) / 24;
+}
+
+/**
+ * Whether a calendar date exists: a day within its month, counting leap years
+ * by the calendar's rule. Without an explicit calendar the rule follows the
+ * 1582 switch, and the ten days it dropped (October 5-14) don't exist.
+ */
+export function isValidCalendarDate(date: CalendarDate, calendar?: Calendar): boolean {
+  const { year, month, day } = date;
+  if (!Number.isInteger(month) || month < 1 || month > 12 || !Number.isInteger(day) || day < 1) return false;
+
+  const ymd = year * 10000 + month * 100 + day;
+  if (!calendar && ymd >= GREGORIAN_SKIPPED_FROM && ymd < GREGORIAN_START_DATE) return false;
+
+  // Astronomical years, so 1 BCE (year 0) is a leap year in both calendars
+  const gregorian = calendar ? calendar === 'gregorian' : ymd >= GREGORIAN_START_DATE;
+  const divisible = (n: number) => ((year % n) + n) % n === 0;
+  const leap = gregorian ? divisible(4) && (!divisible(100) || divisible(400)) : divisible(4);
+  return day <= (month === 2 && leap ? 29 : MONTH_DAYS[month - 1]);
+}
+
+/**
+ * Calendar date of a Julian Day (Meeus chapter 7)
+ * Without an explicit calendar, the one in civil use at the time is chosen.
+ */
+export function jdToCalendar(jd: number, calendar: Calendar = getCalendar(jd)): CalendarDate {
+  // Meeus' method needs JD >= 0; shift by whole calendar cycles
+  const cycleDays = calendar === 'gregorian' ? GREGORIAN_CYCLE_DAYS : JULIAN_CYCLE_DAYS;
+  const cycleYears = calendar === 'gregorian' ? 400 : 4;
+  const cycles = jd < 0 ? Math.ceil(-jd / cycleDays) : 0;
+  // Round to the millisecond so times like 12:00 don't show as 11:59:59.999
+  const shifted = Math.round((jd + cycles * cycleDays) * MS_PER_DAY) / MS_PER_DAY;
+
+  const Z = Math.floor(shifted + 0.5);
+  const F = shifted + 0.5 - Z;
+  let A = Z;
+  if (calendar === 'gregorian') {
+    const alpha = Math.floor((Z - 1867216.25) / 36524.25);
+    A = Z + 1 + alpha - Math.floor(alpha / 4);
+  }
+  const B = A + 1524;
+  const C = Math.floor((B - 122.1) / 365.25);
+  const D = Math.floor(365.25 * C);
+  const E = Math.floor((B - D) / 30.6001);
+
+  const day = B - D - Math.floor(30.6001 * E);
+  const month = E < 14 ? E - 1 : E - 13;
+  const year = (month > 2 ? C - 4716 : C - 4715) - cycles * cycleYears;
+
+  const ms = Math.round(F * MS_PER_DAY);
+  const hour = Math.floor(ms / 3600000);
+  const minute = Math.floor((ms % 3600000) / 60000);
+  const second = (ms % 60000) / 1000;
+
+  return { year, month, day, hour, minute, second };
+}
+
+/**
+ * Year for display: astronomical year 0 is 1 BCE
+ */
+export function formatYear(year: number): string {
+  return year > 0 ? String(year) : `${1 - year} BCE`;
+}
+
+/**
+ * Short date for display, e.g. "Jun 21, 2500 BCE"
+ */
+export function formatCalendarDate(date: CalendarDate): string {
+  return `${MONTH_NAMES[date.month - 1]} ${date.day}, ${formatYear(date.year)}`;
+}
+
+/**
+ * Calendar date in the browser's time zone at an instant
+ */
+export function getLocalCalendarDate(date: Date, calendar?: Calendar): CalendarDate {
+  const jd = dateToJD(date) - date.getTimezoneOffset() / 1440;
+  return jdToCalendar(jd, calendar ?? getCalendar(dateToJD(date)));
+}
+
+/**
+ * Instant of a calendar date in the browser's time zone
+ */
+export function localCalendarDateToDate(date: CalendarDate, calendar?: Calendar): Date {
+  const localJD = calendarToJD(date, calendar);
+  // The zone offset depends on the instant; take it from a first guess
+  const offset = jdToDate(localJD).getTimezoneOffset();
+  return jdToDate(localJD + offset / 1440);
+}
@@ -0,0 +1,151 @@
+/**
+ * Variable stars - light curves for well-known variables
+ *
+ * Catalog magnitudes are one value for all time; for the stars listed here
+ * the magnitude follows a model light curve from the period, an epoch and
+ * the range (GCVS elements). Pulsating stars rise faster than they fade,
+ * eclipsing binaries hold steady between eclipses. Real maxima vary from
+ * cycle to cycle, so for Miras and semiregulars this is only the mean curve.
+ */
+
+import type { Star, StarData } from './starLoader';
+import { dateToJD } from './time';
+
+export type VariableType = 'mira' | 'cepheid' | 'eclipsing' | 'semiregular';
+
+export interface VariableStarElements {
+  name: string;
+  hip: number;
+  hd: number;
+  type: VariableType;
+  period: number;          // Days
+  epoch: number;           // JD of maximum light; of primary minimum for eclipsing binaries
+  maxMag: number;          // Brightest
+  minMag: number;          // Faintest
+  rise?: number;           // Fraction of the period from minimum to maximum
+  eclipse?: number;        // Eclipse duration, fraction of the period
+  secondaryDepth?: number; // Magnitudes lost at secondary eclipse
+}
+
+export const VARIABLE_TYPE_NAMES: Record<VariableType, string> = {
+  mira: 'Mira variable',
+  cepheid: 'Classical Cepheid',
+  eclipsing: 'Eclipsing binary',
+  semiregular: 'Semiregular variable',
+};
+
+export const VARIABLE_STARS: VariableStarElements[] = [
+  {
+    name: 'Mira', hip: 10826, hd: 14386, type: 'mira',
+    period: 331.96, epoch: 2444839, maxMag: 2.0, minMag: 10.1, rise: 0.38,
+  },
+  {
+    name: 'Chi Cygni', hip: 97629, hd: 187796, type: 'mira',
+    period: 408.05, epoch: 2442140, maxMag: 3.3, minMag: 14.2, rise: 0.41,
+  },
+  {
+    name: 'Algol', hip: 14576, hd: 19356, type: 'eclipsing',
+    period: 2.8673043, epoch: 2445641.5135, maxMag: 2.09, minMag: 3.30,
+    eclipse: 0.14, secondaryDepth: 0.06,
+  },
+  {
+    name: 'Delta Cephei', hip: 110991, hd: 213306, type: 'cepheid',
+    period: 5.366249, epoch: 2436075.445, maxMag: 3.48, minMag: 4.37, rise: 0.25,
+  },
+  {
+    name: 'Eta Aquilae', hip: 97804, hd: 187929, type: 'cepheid',
+    period: 7.176641, epoch: 2436084.656, maxMag: 3.48, minMag: 4.39, rise: 0.32,
+  },
+  // Only roughly periodic; timed to the minimum of the 2020 Great Dimming
+  {
+    name: 'Betelgeuse', hip: 27989, hd: 39801, type: 'semiregular',
+    period: 400, epoch: 2458687, maxMag: 0.2, minMag: 1.2, rise: 0.5,
+  },
+];
+
+/**
+ * Phase (0-1) of a variable at a Julian Day, 0 at the epoch
+ */
+export function getVariablePhase(elements: VariableStarElements, jd: number): number {
+  const phase = ((jd - elements.epoch) / elements.period) % 1;
+  return phase < 0 ? phase + 1 : phase;
+}
+
+/**
+ * Magnitude of a variable at a phase of its light curve
+ */
+export function getMagnitudeAtPhase(elements: VariableStarElements, phase: number): number {
+  const { maxMag, minMag } = elements;
+  const amplitude = minMag - maxMag;
+
+  if (elements.type === 'eclipsing') {
+    // Dips centred on phase 0 (primary) and 0.5 (secondary)
+    const halfWidth = (elements.eclipse ?? 0.1) / 2;
+    const dip = (offset: number, depth: number) => {
+      if (offset >= halfWidth) return 0;
+      const shape = Math.cos(offset / halfWidth * Math.PI / 2);
+      return depth * shape * shape;
+    };
+    return maxMag +
+      dip(Math.min(phase, 1 - phase), amplitude) +
+      dip(Math.abs(phase - 0.5), elements.secondaryDepth ?? 0);
+  }
+
+  // Fade from maximum to minimum, then the rise back
+  const fall = 1 - (elements.rise ?? 0.5);
+  const light = phase < fall
+    ? 0.5 * (1 + Math.cos(Math.PI * phase / fall))
+    : 0.5 * (1 - Math.cos(Math.PI * (phase - fall) / (1 - fall)));
+  return minMag - light * amplitude;
+}
+
+/**
+ * Magnitude of a variable on a date
+ */
+export function getVariableMagnitude(elements: VariableStarElements, date: Date): number {
+  return getMagnitudeAtPhase(elements, getVariablePhase(elements, dateToJD(date)));
+}
+
+/**
+ * Light curve elements for a star, matched by Hipparcos or HD number
+ */
+export function getVariableElements(star: Star): VariableStarElements | null {
+  return VARIABLE_STARS.find(v =>
+    (star.hip !== undefined && star.hip === v.hip) ||
+    (star.hd !== undefined && star.hd === v.hd)
+  ) ?? null;
+}
+
+export interface VariableStar {
+  index: number;   // Position in StarData
+  elements: VariableStarElements;
+}
+
+// Found on first use; a new StarData (another tier appended) gets its own
+const variableStars = new WeakMap<StarData, VariableStar[]>();
+
+/**
+ * The stars of a set that have light curves, in catalog order
+ */
+export function findVariableStars(data: StarData): VariableStar[] {
+  let found = variableStars.get(data);
+  if (!found) {
+    found = [];
+    for (let index = 0; index < data.count; index++) {
+      const star = data.stars[index];
+      if (star.hip === undefined && star.hd === undefined) continue;
+      const elements = getVariableElements(star);
+      if (elements) found.push({ index, elements });
+    }
+    variableStars.set(data, found);
+  }
+  return found;
+}
+
+/**
+ * Magnitude of a star on a date, following its light curve if it has one
+ */
+export function getStarMagnitudeAt(star: Star, date: Date): number {
+  const elements = getVariableElements(star);
+  return elements ? getVariableMagnitude(elements, date) : star.mag;
+}
@@ -0,0 +1,37 @@
+/**
+ * Star database loader, run off the main thread by loadStarTiersInWorker
+ */
+
+import { loadStarTiers, type StarData, type StarLoadProgress } from '../utils/starLoader';
+
+export interface StarWorkerRequest {
+  source: string | Blob;   // Catalog URL, or a local file
+}
+
+export type StarWorkerResponse =
+  | { type: 'progress'; progress: StarLoadProgress }
+  | { type: 'tier'; tier: number; data: StarData }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+function post(message: StarWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+self.onmessage = async (e: MessageEvent<StarWorkerRequest>) => {
+  try {
+    await loadStarTiers(
+      e.data.source,
+      (data, tier) => post({ type: 'tier', tier, data }, [
+        data.positions.buffer,
+        data.velocities.buffer,
+        data.magnitudes.buffer,
+        data.colors.buffer,
+      ]),
+      progress => post({ type: 'progress', progress })
+    );
+    post({ type: 'done' });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};